@@ -0,0 +1,52 @@
+import type { CacheAdapter } from './interface';
+import { KvCacheAdapter } from './kv';
+import { MemoryCacheAdapter } from './memory';
+import type { Env } from '@/types/env';
+
+const DEFAULT_MAX_BYTES = 32 * 1024 * 1024;
+
+function parseNumber(value: string | undefined): number | undefined {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * The KV binding as a cache adapter, for lookups made outside an app
+ * request (where the app's adapter is not available)
+ */
+export function getKvCacheAdapter(env: Env): CacheAdapter | undefined {
+  return env.CDN_CACHE ? new KvCacheAdapter(env.CDN_CACHE, parseNumber(env.CACHE_TTL)) : undefined;
+}
+
+export async function createCacheAdapter(env: Env): Promise<CacheAdapter> {
+  const defaultTtl = parseNumber(env.CACHE_TTL);
+
+  // Cloudflare Workers environment (KV)
+  if (env.CDN_CACHE) {
+    return new KvCacheAdapter(env.CDN_CACHE, defaultTtl);
+  }
+
+  // Docker/Node.js environment
+  if (env.REDIS_URL) {
+    let module: typeof import('./redis');
+    try {
+      // Use computed import path to prevent bundler from including this in Cloudflare builds
+      const modulePath = './re' + 'dis';
+      module = await import(/* @vite-ignore */ modulePath);
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (code === 'ERR_MODULE_NOT_FOUND' || code === 'MODULE_NOT_FOUND') {
+        throw new Error('REDIS_URL is set but the "redis" package is not installed (npm install redis)', {
+          cause: error
+        });
+      }
+      throw new Error('Redis cache is not available in this environment', { cause: error });
+    }
+    return new module.RedisCacheAdapter(env.REDIS_URL, defaultTtl);
+  }
+
+  return new MemoryCacheAdapter({
+    maxBytes: parseNumber(env.CACHE_MAX_BYTES) ?? DEFAULT_MAX_BYTES,
+    defaultTtl,
+  });
+}
@@ -0,0 +1,3 @@
+import type { CacheAdapter } from '@/types/storage';
+
+export type { CacheAdapter };
@@ -0,0 +1,46 @@
+import type { CacheAdapter } from './interface';
+
+// Workers KV rejects expirations shorter than a minute
+const MIN_KV_EXPIRATION_TTL = 60;
+
+// KV Cache Adapter for Cloudflare Workers
+export class KvCacheAdapter implements CacheAdapter {
+  constructor(
+    private kv: KVNamespace,
+    private defaultTtl?: number
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.kv.get(key, 'text');
+  }
+
+  async getJson<T = unknown>(key: string): Promise<T | null> {
+    return this.kv.get<T>(key, 'json');
+  }
+
+  async getArrayBuffer(key: string): Promise<ArrayBuffer | null> {
+    return this.kv.get(key, 'arrayBuffer');
+  }
+
+  async set(
+    key: string,
+    value: string | ArrayBuffer,
+    ttl: number | null | undefined = this.defaultTtl
+  ): Promise<void> {
+    await this.kv.put(
+      key,
+      value,
+      ttl === undefined || ttl === null
+        ? undefined
+        : { expirationTtl: Math.max(MIN_KV_EXPIRATION_TTL, Math.ceil(ttl)) }
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.kv.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.kv.get(key, 'text')) !== null;
+  }
+}
@@ -0,0 +1,96 @@
+import type { CacheAdapter } from './interface';
+
+interface MemoryEntry {
+  value: string | ArrayBuffer;
+  size: number;
+  expiresAt: number;
+}
+
+export interface MemoryCacheAdapterOptions {
+  /** Upper bound on the total size of cached values */
+  maxBytes: number;
+  /** Lifetime in seconds of values stored without a TTL (default: until evicted) */
+  defaultTtl?: number;
+}
+
+// In-memory LRU cache for Docker/Node.js without Redis, bounded in bytes
+export class MemoryCacheAdapter implements CacheAdapter {
+  private entries = new Map<string, MemoryEntry>();
+  private totalBytes = 0;
+
+  constructor(private options: MemoryCacheAdapterOptions) {}
+
+  async get(key: string): Promise<string | null> {
+    const value = this.read(key);
+    if (value === null || typeof value === 'string') return value;
+    return new TextDecoder().decode(value);
+  }
+
+  async getJson<T = unknown>(key: string): Promise<T | null> {
+    const value = await this.get(key);
+    return value === null ? null : (JSON.parse(value) as T);
+  }
+
+  async getArrayBuffer(key: string): Promise<ArrayBuffer | null> {
+    const value = this.read(key);
+    if (value === null) return null;
+    // Copies, so callers cannot modify the cached bytes
+    return typeof value === 'string' ? new TextEncoder().encode(value).buffer : value.slice(0);
+  }
+
+  async set(
+    key: string,
+    value: string | ArrayBuffer,
+    ttl: number | null | undefined = this.options.defaultTtl
+  ): Promise<void> {
+    const stored = typeof value === 'string' ? value : value.slice(0);
+    // Strings are UTF-16 in memory
+    const size = typeof stored === 'string' ? stored.length * 2 : stored.byteLength;
+
+    const existing = this.entries.get(key);
+    if (existing) this.remove(key, existing);
+    if (size > this.options.maxBytes) return;
+
+    this.entries.set(key, {
+      value: stored,
+      size,
+      expiresAt: ttl === undefined || ttl === null ? Infinity : Date.now() + ttl * 1000,
+    });
+    this.totalBytes += size;
+
+    // Evict least recently used entries until back under budget
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.totalBytes <= this.options.maxBytes) break;
+      this.remove(oldestKey, oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) this.remove(key, entry);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.read(key) !== null;
+  }
+
+  private read(key: string): string | ArrayBuffer | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key, entry);
+      return null;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  private remove(key: string, entry: MemoryEntry): void {
+    this.entries.delete(key);
+    this.totalBytes -= entry.size;
+  }
+}
@@ -0,0 +1,72 @@
+import { commandOptions, createClient } from 'redis';
+import type { CacheAdapter } from './interface';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// Redis Cache Adapter for Docker/Node.js
+export class RedisCacheAdapter implements CacheAdapter {
+  private client: Promise<RedisClient> | undefined;
+
+  constructor(
+    private url: string,
+    private defaultTtl?: number
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    const client = await this.connect();
+    return client.get(key);
+  }
+
+  async getJson<T = unknown>(key: string): Promise<T | null> {
+    const value = await this.get(key);
+    return value === null ? null : (JSON.parse(value) as T);
+  }
+
+  async getArrayBuffer(key: string): Promise<ArrayBuffer | null> {
+    const client = await this.connect();
+    const value = await client.get(commandOptions({ returnBuffers: true }), key);
+    if (value === null) return null;
+    return value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength) as ArrayBuffer;
+  }
+
+  async set(
+    key: string,
+    value: string | ArrayBuffer,
+    ttl: number | null | undefined = this.defaultTtl
+  ): Promise<void> {
+    const client = await this.connect();
+    await client.set(
+      key,
+      typeof value === 'string' ? value : Buffer.from(value),
+      ttl === undefined || ttl === null ? {} : { EX: Math.max(1, Math.ceil(ttl)) }
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    const client = await this.connect();
+    await client.del(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const client = await this.connect();
+    return (await client.exists(key)) > 0;
+  }
+
+  /**
+   * Connect on first use; a failed connection is retried by the next call
+   */
+  private connect(): Promise<RedisClient> {
+    if (!this.client) {
+      const client = createClient({ url: this.url });
+      client.on('error', (error) => console.error('[CACHE] Redis error:', error));
+      this.client = client.connect().then(
+        () => client,
+        (error) => {
+          this.client = undefined;
+          throw error;
+        }
+      );
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,19 @@
+import type { ResponseCacheAdapter } from './interface';
+
+// Response cache backed by the Workers Cache API (caches.default)
+export class CacheApiResponseCache implements ResponseCacheAdapter {
+  constructor(private cache: Cache) {}
+
+  async match(key: string): Promise<Response | undefined> {
+    return this.cache.match(new Request(key));
+  }
+
+  async put(key: string, response: Response): Promise<void> {
+    // The Cache API applies Cache-Control itself and skips uncacheable responses
+    await this.cache.put(new Request(key), response);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.cache.delete(new Request(key));
+  }
+}
@@ -0,0 +1,26 @@
+import type { ResponseCacheAdapter } from './interface';
+import { CacheApiResponseCache } from './cache-api';
+import { MemoryResponseCache } from './memory';
+import type { Env } from '@/types/env';
+
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+
+export function createResponseCache(env: Env): ResponseCacheAdapter | null {
+  if (env.RESPONSE_CACHE_ENABLED?.trim().toLowerCase() === 'false') {
+    return null;
+  }
+
+  // Cloudflare Workers environment (edge cache of the colo)
+  // caches.default is Workers-only (and missing from the WebWorker lib types)
+  const edgeCache =
+    typeof caches !== 'undefined' ? (caches as unknown as { default?: Cache }).default : undefined;
+  if (edgeCache) {
+    return new CacheApiResponseCache(edgeCache);
+  }
+
+  // Docker/Node.js environment
+  const maxBytes = Number.parseInt(env.RESPONSE_CACHE_MAX_BYTES ?? '', 10);
+  return new MemoryResponseCache({
+    maxBytes: Number.isNaN(maxBytes) ? DEFAULT_MAX_BYTES : maxBytes,
+  });
+}
@@ -0,0 +1,9 @@
+// Response cache adapter types
+
+export interface ResponseCacheAdapter {
+  /** Cached response for a key, or undefined on a miss */
+  match(key: string): Promise<Response | undefined>;
+  /** Store a response; adapters only keep it for as long as its Cache-Control allows */
+  put(key: string, response: Response): Promise<void>;
+  delete(key: string): Promise<boolean>;
+}
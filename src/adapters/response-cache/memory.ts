@@ -0,0 +1,98 @@
+import type { ResponseCacheAdapter } from './interface';
+
+interface MemoryEntry {
+  status: number;
+  headers: [string, string][];
+  body: Uint8Array;
+  expiresAt: number;
+}
+
+export interface MemoryResponseCacheOptions {
+  /** Upper bound on the total size of cached bodies */
+  maxBytes: number;
+}
+
+/**
+ * Parse the lifetime a shared cache may keep a response for, in seconds.
+ * Returns 0 for responses that must not be stored.
+ */
+export function getSharedMaxAge(cacheControl: string | null): number {
+  if (!cacheControl) return 0;
+
+  const directives = new Map<string, string | undefined>();
+  for (const part of cacheControl.split(',')) {
+    const [name, value] = part.trim().split('=');
+    directives.set(name.trim().toLowerCase(), value?.trim());
+  }
+
+  if (directives.has('no-store') || directives.has('private') || directives.has('no-cache')) {
+    return 0;
+  }
+
+  const maxAge = Number.parseInt(directives.get('s-maxage') ?? directives.get('max-age') ?? '', 10);
+  return Number.isNaN(maxAge) ? 0 : Math.max(maxAge, 0);
+}
+
+// In-memory LRU response cache for Docker/Node.js, mirroring the Cache API
+export class MemoryResponseCache implements ResponseCacheAdapter {
+  private entries = new Map<string, MemoryEntry>();
+  private totalBytes = 0;
+
+  constructor(private options: MemoryResponseCacheOptions) {}
+
+  async match(key: string): Promise<Response | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key, entry);
+      return undefined;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return new Response(entry.body.slice(), { status: entry.status, headers: entry.headers });
+  }
+
+  async put(key: string, response: Response): Promise<void> {
+    const maxAge = getSharedMaxAge(response.headers.get('Cache-Control'));
+    if (response.status !== 200 || maxAge === 0) return;
+
+    const body = new Uint8Array(await response.arrayBuffer());
+    if (body.length > this.options.maxBytes) return;
+
+    const existing = this.entries.get(key);
+    if (existing) this.remove(key, existing);
+
+    const headers: [string, string][] = [];
+    response.headers.forEach((value, name) => headers.push([name, value]));
+
+    this.entries.set(key, {
+      status: response.status,
+      headers,
+      body,
+      expiresAt: Date.now() + maxAge * 1000,
+    });
+    this.totalBytes += body.length;
+
+    // Evict least recently used entries until back under budget
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.totalBytes <= this.options.maxBytes) break;
+      this.remove(oldestKey, oldest);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.remove(key, entry);
+    return true;
+  }
+
+  private remove(key: string, entry: MemoryEntry): void {
+    this.entries.delete(key);
+    this.totalBytes -= entry.body.length;
+  }
+}
@@ -1,16 +1,63 @@
 import type { R2Bucket } from '@cloudflare/workers-types';
+import type { ZipRangeReader } from '@/types/zip';
+import { ZipNotFoundError } from '@/services/zip/errors';
+
+export interface R2RangeReaderOptions {
+  /**
+   * Extra bytes fetched past the end of each read, kept in the block cache
+   * for the next sequential read. Clamped to the archive, so it only applies
+   * once the length is known (after getLength). Default 16 KiB.
+   */
+  readAhead?: number;
+  /** Reads issued together whose ranges are at most this far apart share one request. Default 4 KiB. */
+  mergeGap?: number;
+  /** Bytes of fetched ranges kept for later reads (0 disables). Default 1 MiB. */
+  cacheBytes?: number;
+}
+
+const DEFAULT_OPTIONS: Required<R2RangeReaderOptions> = {
+  readAhead: 16 * 1024,
+  mergeGap: 4 * 1024,
+  cacheBytes: 1024 * 1024
+};
+
+interface Block {
+  offset: number;
+  bytes: Uint8Array;
+}
+
+interface PendingRead {
+  offset: number;
+  length: number;
+  resolve: (bytes: Uint8Array) => void;
+  reject: (error: unknown) => void;
+}
 
 /**
- * Custom Reader for unzipit that uses R2 range requests
+ * ZIP range reader backed by R2 range requests
  * Enables efficient partial ZIP extraction without downloading entire file
+ *
+ * Reads issued in the same tick are coalesced: overlapping or nearby ranges
+ * are merged into a single R2 request. Fetched ranges (plus read-ahead) are
+ * kept in a small block cache, so a read that falls inside an earlier one
+ * costs no round trip.
  */
-export class R2RangeReader {
+export class R2RangeReader implements ZipRangeReader {
   private length: number | undefined;
+  private etag: string | undefined;
+  private options: Required<R2RangeReaderOptions>;
+  // Least recently used first
+  private blocks: Block[] = [];
+  private cachedBytes = 0;
+  private pending: PendingRead[] = [];
 
   constructor(
     private bucket: R2Bucket,
-    private key: string
-  ) {}
+    private key: string,
+    options: R2RangeReaderOptions = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
 
   /**
    * Get the total size of the ZIP file
@@ -19,26 +66,109 @@ export class R2RangeReader {
     if (this.length === undefined) {
       const head = await this.bucket.head(this.key);
       if (!head) {
-        throw new Error(`ZIP file not found: ${this.key}`);
+        throw new ZipNotFoundError(`ZIP file not found: ${this.key}`);
       }
       this.length = head.size;
+      this.etag = head.etag;
     }
     return this.length as number;
   }
 
+  /**
+   * Get the R2 etag of the ZIP file
+   */
+  async getEtag(): Promise<string | undefined> {
+    await this.getLength();
+    return this.etag;
+  }
+
   /**
    * Read a specific byte range from the ZIP file using R2 range request
    */
   async read(offset: number, length: number): Promise<Uint8Array> {
-    const object = await this.bucket.get(this.key, {
-      range: { offset, length }
+    const cached = this.readFromCache(offset, length);
+    if (cached) {
+      return cached;
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ offset, length, resolve, reject });
+      if (this.pending.length === 1) {
+        queueMicrotask(() => this.flush());
+      }
     });
+  }
 
-    if (!object || !object.body) {
-      throw new Error(`Failed to read range [${offset}, ${offset + length}] from ${this.key}`);
+  /**
+   * Fetch every read queued this tick, merging nearby ranges
+   */
+  private flush(): void {
+    const reads = this.pending.sort((a, b) => a.offset - b.offset);
+    this.pending = [];
+
+    let group: PendingRead[] = [];
+    let groupEnd = 0;
+    for (const read of reads) {
+      if (group.length > 0 && read.offset > groupEnd + this.options.mergeGap) {
+        void this.fetchGroup(group, groupEnd);
+        group = [];
+      }
+      group.push(read);
+      groupEnd = Math.max(groupEnd, read.offset + read.length);
     }
+    void this.fetchGroup(group, groupEnd);
+  }
+
+  private async fetchGroup(group: PendingRead[], end: number): Promise<void> {
+    const offset = group[0].offset;
+    const fetchEnd = this.length === undefined ? end : Math.max(end, Math.min(end + this.options.readAhead, this.length));
+
+    try {
+      const object = await this.bucket.get(this.key, {
+        range: { offset, length: fetchEnd - offset }
+      });
+
+      if (!object || !object.body) {
+        throw new Error(`Failed to read range [${offset}, ${fetchEnd}] from ${this.key}`);
+      }
+
+      const bytes = new Uint8Array(await object.arrayBuffer());
+      this.addToCache({ offset, bytes });
+
+      for (const read of group) {
+        const start = read.offset - offset;
+        read.resolve(bytes.subarray(start, start + read.length));
+      }
+    } catch (error) {
+      for (const read of group) {
+        read.reject(error);
+      }
+    }
+  }
 
-    const arrayBuffer = await object.arrayBuffer();
-    return new Uint8Array(arrayBuffer);
+  private readFromCache(offset: number, length: number): Uint8Array | null {
+    const index = this.blocks.findIndex(
+      (block) => offset >= block.offset && offset + length <= block.offset + block.bytes.length
+    );
+    if (index === -1) {
+      return null;
+    }
+
+    const [block] = this.blocks.splice(index, 1);
+    this.blocks.push(block);
+    return block.bytes.subarray(offset - block.offset, offset - block.offset + length);
+  }
+
+  private addToCache(block: Block): void {
+    if (block.bytes.length > this.options.cacheBytes) {
+      return;
+    }
+
+    this.blocks.push(block);
+    this.cachedBytes += block.bytes.length;
+    while (this.cachedBytes > this.options.cacheBytes) {
+      const evicted = this.blocks.shift() as Block;
+      this.cachedBytes -= evicted.bytes.length;
+    }
   }
-}
\ No newline at end of file
+}
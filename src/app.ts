@@ -3,10 +3,23 @@ import { logger } from "hono/logger";
 import { compress } from "hono/compress";
 import { zipStaticRoutes } from "./routes/zip-static";
 import { healthRoutes } from "./routes/health";
+import { adminRoutes } from "./routes/admin";
 import { privateProjectAuth } from "./middleware/auth";
 import { parsePathForUUID, extractProjectFromReferer } from "./utils/subdomain";
 import type { Env } from "./types/env";
+import type { AppVariables } from "./types/context";
+import type { ResponseCacheAdapter } from "./adapters/response-cache/interface";
+import { createResponseCache } from "./adapters/response-cache/factory";
+import type { CacheAdapter } from "./adapters/cache/interface";
+import { createCacheAdapter } from "./adapters/cache/factory";
 import {
+  createDirectoryCache,
+  type DirectoryCache,
+} from "./services/zip/directory-cache";
+import { createPrefetchHintCache } from "./services/html-prefetch";
+import { createArchiveVersionCache } from "./services/zip/archive-version";
+import {
+  applyCorsHeaders,
   corsHeaders,
   handleOptions,
   parseAllowedOrigins,
@@ -48,12 +61,44 @@ function resolveCorsConfig(env: Env) {
 export function createApp() {
   const app = new Hono<{
     Bindings: Env;
-    Variables: { corsConfig: ReturnType<typeof resolveCorsConfig> };
+    Variables: AppVariables & {
+      corsConfig: ReturnType<typeof resolveCorsConfig>;
+    };
   }>();
 
   // Global middleware
   app.use("*", logger());
 
+  // One cache adapter, response cache, central directory cache, preload
+  // hint cache and archive version cache per app (i.e. per isolate), shared
+  // across requests (see adapters/cache, services/response-cache,
+  // services/zip/directory-cache, services/html-prefetch and
+  // services/zip/archive-version)
+  let cache: Promise<CacheAdapter> | undefined;
+  let responseCache: ResponseCacheAdapter | null | undefined;
+  let directoryCache: DirectoryCache | undefined;
+  const prefetchHintCache = createPrefetchHintCache();
+  const archiveVersionCache = createArchiveVersionCache();
+  app.use("*", async (c, next) => {
+    // A failed creation is retried by the next request instead of kept
+    cache ??= createCacheAdapter(c.env).catch((error) => {
+      cache = undefined;
+      throw error;
+    });
+    c.set("cache", await cache);
+    if (responseCache === undefined) {
+      responseCache = createResponseCache(c.env);
+    }
+    if (responseCache) {
+      c.set("responseCache", responseCache);
+    }
+    directoryCache ??= createDirectoryCache(c.env);
+    c.set("directoryCache", directoryCache);
+    c.set("prefetchHintCache", prefetchHintCache);
+    c.set("archiveVersionCache", archiveVersionCache);
+    await next();
+  });
+
   // Resolve CORS config once per request for reuse.
   app.use("*", async (c, next) => {
     const corsConfig = resolveCorsConfig(c.env);
@@ -74,10 +119,7 @@ export function createApp() {
       await next();
     } finally {
       // Ensure CORS headers are present on all responses (including 404s).
-      const cors = corsHeaders(c.req.raw, corsConfig);
-      cors.forEach((value, key) => {
-        c.res.headers.set(key, value);
-      });
+      applyCorsHeaders(c.res.headers, corsHeaders(c.req.raw, corsConfig));
     }
   });
 
@@ -87,6 +129,9 @@ export function createApp() {
   // Health check routes (no auth required)
   app.route("/health", healthRoutes);
 
+  // Operator endpoints (disabled unless ADMIN_TOKEN is set)
+  app.route("/admin", adminRoutes);
+
   // Redirect mis-resolved asset requests before auth can reject them.
   // Components with absolute paths (e.g., src="/pets/hero.png" or src="/placeholder.svg")
   // hit the wrong path on the CDN. We use the Referer header to detect
@@ -134,7 +179,8 @@ export function createApp() {
   // Auth middleware for viewer routes only (exclude /health)
   app.use("/:projectId/*", privateProjectAuth);
 
-  // ZIP-based static file serving (primary)
+  // Static file serving: ZIP archives and/or exploded objects, chosen per
+  // deployment and per project (see services/serving-strategy)
   app.route("/", zipStaticRoutes);
 
   // 404 handler
@@ -147,10 +193,7 @@ export function createApp() {
     console.error("Application error:", err);
     // Ensure CORS headers are present on error responses as well
     const corsConfig = c.get("corsConfig") ?? resolveCorsConfig(c.env);
-    const cors = corsHeaders(c.req.raw, corsConfig);
-    cors.forEach((value, key) => {
-      c.res.headers.set(key, value);
-    });
+    applyCorsHeaders(c.res.headers, corsHeaders(c.req.raw, corsConfig));
     return c.text("Internal Server Error", 500);
   });
 
@@ -0,0 +1,190 @@
+import type { Context } from "hono";
+import type { AppEnv } from "@/types/context";
+
+/**
+ * Responses for viewers a private project does not admit.
+ *
+ * API and asset requests get a JSON body with a stable `code`. Browser
+ * navigations (GET/HEAD accepting text/html) get a page instead: a 401 is
+ * redirected to LOGIN_URL with a `returnTo` parameter when that is set,
+ * otherwise (and for every 403, where signing in again would not help) an
+ * interstitial is shown that links to ACCESS_REQUEST_URL.
+ */
+
+export type AccessDeniedCode =
+  /** No session, share link or API token */
+  | "AUTH_REQUIRED"
+  /** The session cookie is invalid or expired */
+  | "AUTH_SESSION_INVALID"
+  /** The bearer token is unknown or expired */
+  | "AUTH_TOKEN_INVALID"
+  /** The bearer token is for another project or lacks the scope */
+  | "AUTH_TOKEN_FORBIDDEN"
+  /** Signed in, but not a member of the project */
+  | "AUTH_NOT_MEMBER";
+
+const STATUS: Record<AccessDeniedCode, 401 | 403> = {
+  AUTH_REQUIRED: 401,
+  AUTH_SESSION_INVALID: 401,
+  AUTH_TOKEN_INVALID: 401,
+  AUTH_TOKEN_FORBIDDEN: 403,
+  AUTH_NOT_MEMBER: 403,
+};
+
+const MESSAGES: Record<AccessDeniedCode, string> = {
+  AUTH_REQUIRED: "Sign in to view this project",
+  AUTH_SESSION_INVALID: "Your session has expired; sign in again",
+  AUTH_TOKEN_INVALID: "The API token is invalid or expired",
+  AUTH_TOKEN_FORBIDDEN: "The API token does not grant access to this project",
+  AUTH_NOT_MEMBER: "You are not a member of this project",
+};
+
+export const RETURN_TO_PARAM = "returnTo";
+
+/**
+ * Whether the request is a browser loading a page rather than an asset
+ * or API call
+ */
+export function isBrowserNavigation(c: Context<AppEnv>): boolean {
+  if (c.req.method !== "GET" && c.req.method !== "HEAD") {
+    return false;
+  }
+  const mode = c.req.header("Sec-Fetch-Mode");
+  if (mode && mode !== "navigate") {
+    return false;
+  }
+  return (c.req.header("Accept") ?? "").includes("text/html");
+}
+
+/**
+ * LOGIN_URL with the page to come back to, or null when it is not set or
+ * not a valid URL
+ */
+export function getLoginRedirectUrl(
+  loginUrl: string | undefined,
+  returnTo: string,
+): string | null {
+  if (!loginUrl) return null;
+  try {
+    const url = new URL(loginUrl);
+    url.searchParams.set(RETURN_TO_PARAM, returnTo);
+    return url.toString();
+  } catch {
+    console.error("[AUTH] LOGIN_URL is not a valid URL:", loginUrl);
+    return null;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&#39;",
+      })[char] as string,
+  );
+}
+
+/**
+ * Interstitial for a private project, with links to request access and to
+ * sign in (again) when those URLs are configured
+ */
+export function renderAccessDeniedPage(options: {
+  code: AccessDeniedCode;
+  projectId: string;
+  requestAccessUrl: string | null;
+  loginUrl: string | null;
+}): string {
+  const { code, projectId, requestAccessUrl, loginUrl } = options;
+  const actions = [
+    requestAccessUrl &&
+      `<a class="primary" href="${escapeHtml(requestAccessUrl)}">Request access</a>`,
+    loginUrl &&
+      `<a href="${escapeHtml(loginUrl)}">${
+        STATUS[code] === 403 ? "Sign in with another account" : "Sign in"
+      }</a>`,
+  ].filter(Boolean);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Private Storybook · Scry</title>
+<style>
+body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;font-family:system-ui,-apple-system,sans-serif;background:#f6f7f9;color:#1f2933}
+main{max-width:420px;padding:40px;background:#fff;border-radius:12px;box-shadow:0 1px 3px rgba(0,0,0,.08);text-align:center}
+.brand{font-weight:700;letter-spacing:.04em;color:#5b5bd6}
+h1{font-size:1.3rem;margin:16px 0 8px}
+p{color:#52606d;line-height:1.5}
+a{display:inline-block;margin:8px 6px 0;padding:10px 18px;border-radius:8px;color:#5b5bd6;text-decoration:none;border:1px solid #d9dbe9}
+a.primary{background:#5b5bd6;border-color:#5b5bd6;color:#fff}
+</style>
+</head>
+<body>
+<main>
+<div class="brand">Scry</div>
+<h1>This Storybook is private</h1>
+<p>${escapeHtml(MESSAGES[code])}.</p>
+<p><code>${escapeHtml(projectId)}</code></p>
+${actions.join("\n")}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Answer a request the project does not admit
+ */
+export function accessDenied(
+  c: Context<AppEnv>,
+  code: AccessDeniedCode,
+  projectId: string,
+  headers: Record<string, string> = {},
+): Response {
+  const status = STATUS[code];
+  const responseHeaders: Record<string, string> = {
+    ...headers,
+    "Cache-Control": "no-store",
+    Vary: "Accept",
+  };
+
+  if (!isBrowserNavigation(c)) {
+    return c.json({ error: MESSAGES[code], code }, status, responseHeaders);
+  }
+
+  const loginUrl = getLoginRedirectUrl(c.env.LOGIN_URL, c.req.url);
+  if (status === 401 && loginUrl) {
+    return new Response(null, {
+      status: 302,
+      headers: { Location: loginUrl, "Cache-Control": "no-store" },
+    });
+  }
+
+  let requestAccessUrl: string | null = null;
+  if (c.env.ACCESS_REQUEST_URL) {
+    try {
+      const url = new URL(c.env.ACCESS_REQUEST_URL);
+      url.searchParams.set("projectId", projectId);
+      url.searchParams.set(RETURN_TO_PARAM, c.req.url);
+      requestAccessUrl = url.toString();
+    } catch {
+      console.error(
+        "[AUTH] ACCESS_REQUEST_URL is not a valid URL:",
+        c.env.ACCESS_REQUEST_URL,
+      );
+    }
+  }
+
+  return c.html(
+    renderAccessDeniedPage({ code, projectId, requestAccessUrl, loginUrl }),
+    status,
+    responseHeaders,
+  );
+}
@@ -0,0 +1,325 @@
+import type { Env } from "@/types/env";
+import type { CacheAdapter } from "@/adapters/cache/interface";
+import { isServiceAccountConfigured } from "@/services/firestore-auth";
+import {
+  fetchFirestoreDocument,
+  getCachedDocument,
+  getFirestoreDocumentUrl,
+  getFirestoreHeaders,
+  parseStringArray,
+  type FirestoreStringArray,
+} from "@/services/firestore-documents";
+
+/**
+ * Project-scoped API tokens for CI and other headless viewers.
+ *
+ * Sent as `Authorization: Bearer scry_...`. Only the SHA-256 of a token is
+ * stored, either in the shared cache (tokens issued through the admin API)
+ * or in the Firestore `apiTokens` collection, keyed by that hash. Firestore
+ * lookups are cached briefly, misses included. Tokens grant read access to
+ * one project until they expire; the time of last use is recorded at most
+ * once per LAST_USED_INTERVAL_MS, under a key of its own so a request
+ * never rewrites (and so never restores) a token revoked meanwhile.
+ */
+
+export type ApiTokenScope = "read";
+
+export const API_TOKEN_PREFIX = "scry_";
+export const API_TOKEN_SCOPES: readonly ApiTokenScope[] = ["read"];
+
+export interface ApiToken {
+  /** SHA-256 of the token, hex encoded */
+  id: string;
+  projectId: string;
+  name?: string;
+  scopes: ApiTokenScope[];
+  /** Expiry in milliseconds since the epoch; never when absent */
+  expiresAt?: number;
+  lastUsedAt?: number;
+  /** Where the token is stored */
+  source: "cache" | "firestore";
+}
+
+export interface ApiTokenOptions {
+  cache?: CacheAdapter;
+  /** Runs the last-used update after the response is sent */
+  background?: (task: Promise<unknown>) => void;
+}
+
+type StoredApiToken = Omit<ApiToken, "source">;
+
+const STORED_KEY_PREFIX = "api-token:";
+const DOCUMENT_KEY_PREFIX = "api-token-doc:";
+const LAST_USED_KEY_PREFIX = "api-token-used:";
+const DOCUMENT_CACHE_TTL_MS = 60 * 1000;
+const LAST_USED_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Bearer token of a request, if any
+ */
+export function getBearerToken(
+  authorization: string | undefined,
+): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+export async function hashApiToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token),
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Generate a token and its record; only the record may be stored
+ */
+export async function createApiToken(
+  fields: Omit<StoredApiToken, "id" | "scopes" | "lastUsedAt"> & {
+    scopes?: ApiTokenScope[];
+  },
+): Promise<{ token: string; record: StoredApiToken }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const token =
+    API_TOKEN_PREFIX +
+    btoa(String.fromCharCode(...bytes))
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=+$/, "");
+
+  const record: StoredApiToken = {
+    id: await hashApiToken(token),
+    projectId: fields.projectId,
+    scopes: fields.scopes ?? ["read"],
+  };
+  if (fields.name) record.name = fields.name;
+  if (fields.expiresAt !== undefined) record.expiresAt = fields.expiresAt;
+
+  return { token, record };
+}
+
+/**
+ * Seconds until a token expires; null keeps tokens without expiry
+ * regardless of the cache's default TTL
+ */
+function getStoreTtl(record: StoredApiToken): number | null {
+  return record.expiresAt === undefined
+    ? null
+    : Math.max(1, Math.ceil((record.expiresAt - Date.now()) / 1000));
+}
+
+/**
+ * Store a token record in the shared cache, kept until it expires
+ */
+export async function storeApiToken(
+  cache: CacheAdapter,
+  record: StoredApiToken,
+): Promise<void> {
+  await cache.set(
+    STORED_KEY_PREFIX + record.id,
+    JSON.stringify(record),
+    getStoreTtl(record),
+  );
+}
+
+/**
+ * Delete a token stored in the shared cache; false when there was none
+ */
+export async function deleteApiToken(
+  cache: CacheAdapter,
+  id: string,
+): Promise<boolean> {
+  const key = STORED_KEY_PREFIX + id;
+  if (!(await cache.exists(key))) {
+    return false;
+  }
+  await cache.delete(key);
+  await cache.delete(DOCUMENT_KEY_PREFIX + id);
+  await cache.delete(LAST_USED_KEY_PREFIX + id);
+  return true;
+}
+
+/**
+ * Look up a token; null when it is unknown or expired
+ */
+export async function getApiToken(
+  token: string,
+  env: Env,
+  options: ApiTokenOptions = {},
+): Promise<ApiToken | null> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const { cache } = options;
+  const id = await hashApiToken(token);
+  let found: ApiToken | null = null;
+
+  const stored = cache
+    ? await cache.getJson<StoredApiToken>(STORED_KEY_PREFIX + id)
+    : null;
+  if (stored) {
+    found = { ...stored, source: "cache" };
+  } else {
+    const document = await getTokenDocument(id, env, cache);
+    if (document) {
+      found = { ...document, source: "firestore" };
+    }
+  }
+
+  if (
+    !found ||
+    (found.expiresAt !== undefined && found.expiresAt <= Date.now())
+  ) {
+    return null;
+  }
+
+  const lastUsed = cache ? await cache.get(LAST_USED_KEY_PREFIX + id) : null;
+  if (lastUsed && Number(lastUsed) > (found.lastUsedAt ?? 0)) {
+    found.lastUsedAt = Number(lastUsed);
+  }
+
+  if (
+    found.lastUsedAt === undefined ||
+    Date.now() - found.lastUsedAt >= LAST_USED_INTERVAL_MS
+  ) {
+    const task = recordLastUsed(found, env, cache).catch((error) => {
+      console.warn("[API_TOKEN] Failed to record last use:", {
+        id: found.id,
+        error,
+      });
+    });
+    if (options.background) {
+      options.background(task);
+    } else {
+      await task;
+    }
+  }
+
+  return found;
+}
+
+export function hasApiTokenScope(
+  token: ApiToken,
+  scope: ApiTokenScope,
+): boolean {
+  return token.scopes.includes(scope);
+}
+
+/**
+ * Record a use under the token's last-used key and, for Firestore tokens,
+ * in the document. The token record itself is left alone: a revoke racing
+ * with the request must stay revoked.
+ */
+async function recordLastUsed(
+  token: ApiToken,
+  env: Env,
+  cache: CacheAdapter | undefined,
+): Promise<void> {
+  const lastUsedAt = Date.now();
+
+  if (cache) {
+    await cache.set(
+      LAST_USED_KEY_PREFIX + token.id,
+      String(lastUsedAt),
+      getStoreTtl(token),
+    );
+  }
+  if (token.source === "firestore") {
+    await patchLastUsedInFirestore(token.id, lastUsedAt, env, cache);
+  }
+}
+
+function getTokenDocument(
+  id: string,
+  env: Env,
+  cache: CacheAdapter | undefined,
+): Promise<StoredApiToken | null> {
+  return getCachedDocument(
+    DOCUMENT_KEY_PREFIX + id,
+    () => fetchTokenFromFirestore(id, env, cache),
+    { cache, ttlMs: DOCUMENT_CACHE_TTL_MS, maxStaleMs: 0, label: "API_TOKEN" },
+  );
+}
+
+async function fetchTokenFromFirestore(
+  id: string,
+  env: Env,
+  cache: CacheAdapter | undefined,
+): Promise<StoredApiToken | null> {
+  const doc = await fetchFirestoreDocument<FirestoreTokenFields>(
+    `apiTokens/${id}`,
+    env,
+    cache,
+  );
+  const fields = doc?.fields ?? {};
+  const projectId = fields.projectId?.stringValue;
+  if (!projectId || fields.revoked?.booleanValue) {
+    return null;
+  }
+
+  const scopes = parseStringArray(fields.scopes).filter(
+    (scope): scope is ApiTokenScope =>
+      API_TOKEN_SCOPES.includes(scope as ApiTokenScope),
+  );
+
+  const record: StoredApiToken = { id, projectId, scopes };
+  if (fields.name?.stringValue) record.name = fields.name.stringValue;
+  const expiresAt = parseTimestamp(fields.expiresAt?.timestampValue);
+  if (expiresAt !== undefined) record.expiresAt = expiresAt;
+  const lastUsedAt = parseTimestamp(fields.lastUsedAt?.timestampValue);
+  if (lastUsedAt !== undefined) record.lastUsedAt = lastUsedAt;
+
+  return record;
+}
+
+async function patchLastUsedInFirestore(
+  id: string,
+  lastUsedAt: number,
+  env: Env,
+  cache: CacheAdapter | undefined,
+): Promise<void> {
+  const url = getFirestoreDocumentUrl(env, `apiTokens/${id}`);
+  // Writes need the service account
+  if (!url || !isServiceAccountConfigured(env)) {
+    return;
+  }
+
+  const response = await fetch(
+    `${url}?updateMask.fieldPaths=lastUsedAt&currentDocument.exists=true`,
+    {
+      method: "PATCH",
+      headers: {
+        ...(await getFirestoreHeaders(env, cache)),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        fields: {
+          lastUsedAt: { timestampValue: new Date(lastUsedAt).toISOString() },
+        },
+      }),
+    },
+  );
+
+  if (!response.ok) {
+    throw new Error(`Firestore update failed: ${response.status}`);
+  }
+}
+
+function parseTimestamp(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+interface FirestoreTokenFields {
+  projectId?: { stringValue: string };
+  name?: { stringValue: string };
+  scopes?: FirestoreStringArray;
+  expiresAt?: { timestampValue: string };
+  lastUsedAt?: { timestampValue: string };
+  revoked?: { booleanValue: boolean };
+}
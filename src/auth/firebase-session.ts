@@ -1,4 +1,5 @@
 import * as jose from "jose";
+import type { CacheAdapter } from "@/adapters/cache/interface";
 
 const GOOGLE_CERTS_URL =
   "https://www.googleapis.com/identitytoolkit/v3/relyingparty/publicKeys";
@@ -6,14 +7,19 @@ const GOOGLE_CERTS_URL =
 const GOOGLE_KEYS_CACHE_KEY = "firebase:public-keys";
 
 async function getGooglePublicKeys(
-  cache?: KVNamespace,
+  cache?: CacheAdapter,
 ): Promise<Record<string, string>> {
   if (cache) {
-    const cached = (await cache.get(GOOGLE_KEYS_CACHE_KEY, "json")) as {
-      keys: Record<string, string>;
-    } | null;
-    if (cached?.keys && Object.keys(cached.keys).length > 0) {
-      return cached.keys;
+    try {
+      const cached = await cache.getJson<{ keys: Record<string, string> }>(
+        GOOGLE_KEYS_CACHE_KEY,
+      );
+      if (cached?.keys && Object.keys(cached.keys).length > 0) {
+        return cached.keys;
+      }
+    } catch (error) {
+      // A failing cache (e.g. Redis down) must not lock members out
+      console.warn("[AUTH] Public key cache read failed, fetching:", error);
     }
   }
 
@@ -36,9 +42,11 @@ async function getGooglePublicKeys(
   }
 
   if (cache) {
-    await cache.put(GOOGLE_KEYS_CACHE_KEY, JSON.stringify({ keys }), {
-      expirationTtl: maxAge,
-    });
+    try {
+      await cache.set(GOOGLE_KEYS_CACHE_KEY, JSON.stringify({ keys }), maxAge);
+    } catch (error) {
+      console.warn("[AUTH] Public key cache write failed:", error);
+    }
   }
 
   return keys;
@@ -48,13 +56,15 @@ export interface SessionValidationResult {
   valid: boolean;
   uid?: string;
   email?: string;
+  /** Whether the provider verified the email; email-domain rules need it */
+  emailVerified?: boolean;
   error?: string;
 }
 
 export async function validateFirebaseSessionCookie(
   sessionCookie: string,
   firebaseProjectId: string,
-  cache?: KVNamespace,
+  cache?: CacheAdapter,
 ): Promise<SessionValidationResult> {
   try {
     console.info(
@@ -115,6 +125,7 @@ export async function validateFirebaseSessionCookie(
       valid: true,
       uid,
       email,
+      emailVerified: payload.email_verified === true,
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
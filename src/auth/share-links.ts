@@ -0,0 +1,205 @@
+import * as jose from "jose";
+import type { CacheAdapter } from "@/adapters/cache/interface";
+
+/**
+ * Expiring share links for private projects.
+ *
+ * A share token is an HS256 JWT signed with SHARE_LINK_SECRET that grants
+ * read access to one project, optionally one version, below a path scope,
+ * until it expires. It is verified without Firestore. Opening a URL with
+ * `?share=<token>` stores the token in a cookie limited to the shared path
+ * (so the Storybook's own assets load) and redirects to the clean URL.
+ * Tokens are revoked by their id through a denylist in the shared cache.
+ */
+
+export const SHARE_QUERY_PARAM = "share";
+export const SHARE_COOKIE_NAME = "__share";
+
+/** Longest the share cookie lives; reopening the link renews it */
+export const SHARE_COOKIE_MAX_AGE_SECONDS = 60 * 60;
+
+/** Lifetime of links issued without one, and the longest allowed */
+export const DEFAULT_SHARE_LINK_LIFETIME_SECONDS = 7 * 24 * 60 * 60;
+export const MAX_SHARE_LINK_LIFETIME_SECONDS = 30 * 24 * 60 * 60;
+
+const SHARE_TOKEN_ISSUER = "scry-cdn:share-link";
+const REVOKED_KEY_PREFIX = "share-revoked:";
+
+export interface ShareLink {
+  /** Token id, used for revocation */
+  id: string;
+  projectId: string;
+  /** Version the link is limited to; all versions when absent */
+  versionId?: string;
+  /** Path below the project (or version) the link is limited to ("" for all) */
+  path: string;
+  /** Expiry, in seconds since the epoch */
+  expiresAt: number;
+}
+
+function getSecretKey(secret: string): Uint8Array {
+  return new TextEncoder().encode(secret);
+}
+
+function normalizeScope(path: string | undefined): string {
+  return (path ?? "").replace(/^\/+/, "").replace(/\/+$/, "");
+}
+
+/**
+ * Sign a share token; the id defaults to a random UUID
+ */
+export async function createShareToken(
+  link: Omit<ShareLink, "id" | "path"> & { id?: string; path?: string },
+  secret: string,
+): Promise<{ token: string; link: ShareLink }> {
+  const signed: ShareLink = {
+    id: link.id ?? crypto.randomUUID(),
+    projectId: link.projectId,
+    path: normalizeScope(link.path),
+    expiresAt: link.expiresAt,
+  };
+  if (link.versionId) signed.versionId = link.versionId;
+
+  const token = await new jose.SignJWT({
+    prj: signed.projectId,
+    ver: signed.versionId,
+    scope: signed.path,
+  })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuer(SHARE_TOKEN_ISSUER)
+    .setJti(signed.id)
+    .setIssuedAt()
+    .setExpirationTime(signed.expiresAt)
+    .sign(getSecretKey(secret));
+
+  return { token, link: signed };
+}
+
+/**
+ * Verify a share token's signature and expiry; null when invalid
+ */
+export async function verifyShareToken(
+  token: string,
+  secret: string,
+): Promise<ShareLink | null> {
+  try {
+    const { payload } = await jose.jwtVerify(token, getSecretKey(secret), {
+      issuer: SHARE_TOKEN_ISSUER,
+      algorithms: ["HS256"],
+    });
+
+    if (
+      typeof payload.jti !== "string" ||
+      typeof payload.prj !== "string" ||
+      typeof payload.exp !== "number" ||
+      (payload.ver !== undefined && typeof payload.ver !== "string") ||
+      (payload.scope !== undefined && typeof payload.scope !== "string")
+    ) {
+      return null;
+    }
+
+    const link: ShareLink = {
+      id: payload.jti,
+      projectId: payload.prj,
+      path: normalizeScope(payload.scope as string | undefined),
+      expiresAt: payload.exp,
+    };
+    if (payload.ver) link.versionId = payload.ver as string;
+    return link;
+  } catch (error) {
+    console.info(
+      "[AUTH] Invalid share token:",
+      error instanceof Error ? error.message : error,
+    );
+    return null;
+  }
+}
+
+/**
+ * URL path a share link covers, without a trailing slash:
+ * /{projectId}[/{versionId}][/{path}]
+ */
+export function getShareScopePath(link: ShareLink): string {
+  return [link.projectId, link.versionId, link.path]
+    .filter(Boolean)
+    .map((segment) => `/${segment}`)
+    .join("");
+}
+
+/**
+ * Whether a request path is covered by a share link. Matches like a
+ * cookie Path: the scope itself or anything below it.
+ */
+export function isWithinShareScope(link: ShareLink, pathname: string): boolean {
+  const scope = getShareScopePath(link);
+  return pathname === scope || pathname.startsWith(`${scope}/`);
+}
+
+/**
+ * Whether a link is on the denylist. When the denylist cannot be read
+ * the link is treated as revoked: a revoked link must never open again.
+ */
+export async function isShareLinkRevoked(
+  cache: CacheAdapter | undefined,
+  id: string,
+): Promise<boolean> {
+  if (!cache) {
+    return false;
+  }
+
+  try {
+    return await cache.exists(REVOKED_KEY_PREFIX + id);
+  } catch (error) {
+    console.error("[AUTH] Share link denylist unavailable, refusing link:", {
+      id,
+      error,
+    });
+    return true;
+  }
+}
+
+/**
+ * Add a link to the denylist until it would have expired anyway
+ */
+export async function revokeShareLink(
+  cache: CacheAdapter,
+  id: string,
+  expiresAt: number,
+): Promise<void> {
+  const ttl = Math.max(1, expiresAt - Math.floor(Date.now() / 1000));
+  await cache.set(REVOKED_KEY_PREFIX + id, "1", ttl);
+}
+
+/**
+ * Every share cookie sent with a request. Links for several paths of one
+ * site can be open at once, so the header may hold more than one.
+ */
+export function getShareCookieTokens(
+  cookieHeader: string | undefined,
+): string[] {
+  if (!cookieHeader) return [];
+
+  return cookieHeader
+    .split(";")
+    .map((cookie) => cookie.trim())
+    .filter((cookie) => cookie.startsWith(`${SHARE_COOKIE_NAME}=`))
+    .map((cookie) => cookie.slice(SHARE_COOKIE_NAME.length + 1))
+    .filter(Boolean);
+}
+
+/**
+ * Set-Cookie value storing a token for the link's scope only
+ */
+export function formatShareCookie(token: string, link: ShareLink): string {
+  const remaining = link.expiresAt - Math.floor(Date.now() / 1000);
+  const maxAge = Math.max(0, Math.min(remaining, SHARE_COOKIE_MAX_AGE_SECONDS));
+
+  return [
+    `${SHARE_COOKIE_NAME}=${token}`,
+    `Path=${getShareScopePath(link)}`,
+    `Max-Age=${maxAge}`,
+    "HttpOnly",
+    "Secure",
+    "SameSite=Lax",
+  ].join("; ");
+}
@@ -1,23 +1,142 @@
 import type { Context, Next } from "hono";
-import type { Env } from "@/types/env";
+import type { AppEnv } from "@/types/context";
 import {
   parseCookies,
   validateFirebaseSessionCookie,
 } from "@/auth/firebase-session";
-import { getProjectVisibility, isProjectMember } from "@/services/visibility";
+import { getProjectSettings } from "@/services/project-settings";
+import {
+  getProjectVisibility,
+  resolveVersionVisibility,
+} from "@/services/visibility";
+import { resolveProjectMembership } from "@/services/membership";
+import { parsePathForUUID } from "@/utils/subdomain";
+import { runInBackground } from "@/utils/execution-context";
+import { getKvCacheAdapter } from "@/adapters/cache/factory";
+import type { CacheAdapter } from "@/adapters/cache/interface";
+import {
+  SHARE_QUERY_PARAM,
+  formatShareCookie,
+  getShareCookieTokens,
+  isShareLinkRevoked,
+  isWithinShareScope,
+  verifyShareToken,
+  type ShareLink,
+} from "@/auth/share-links";
+import { accessDenied } from "@/auth/access-denied";
+import {
+  getApiToken,
+  getBearerToken,
+  hasApiTokenScope,
+  type ApiToken,
+} from "@/auth/api-tokens";
 
 const SESSION_COOKIE_NAME = "__session";
 
-export interface AuthContext {
-  uid?: string;
-  email?: string;
-  isAuthenticated: boolean;
+export type { AuthContext } from "@/types/context";
+
+/**
+ * Find a valid share link for the requested path, in the `share` query
+ * parameter or a share cookie. A link from the query is answered with a
+ * redirect to the clean URL that stores it in a cookie for its scope.
+ */
+async function checkShareLink(
+  c: Context<AppEnv>,
+  projectId: string,
+  cache: CacheAdapter | undefined,
+): Promise<ShareLink | Response | null> {
+  const secret = c.env.SHARE_LINK_SECRET;
+  if (!secret) {
+    return null;
+  }
+
+  const url = new URL(c.req.url);
+  const fromQuery = url.searchParams.get(SHARE_QUERY_PARAM);
+  const tokens = getShareCookieTokens(c.req.header("Cookie"));
+  if (fromQuery) {
+    tokens.unshift(fromQuery);
+  }
+
+  for (const token of tokens) {
+    const link = await verifyShareToken(token, secret);
+    if (
+      !link ||
+      link.projectId !== projectId ||
+      !isWithinShareScope(link, url.pathname) ||
+      (await isShareLinkRevoked(cache, link.id))
+    ) {
+      continue;
+    }
+
+    if (token === fromQuery) {
+      url.searchParams.delete(SHARE_QUERY_PARAM);
+      return new Response(null, {
+        status: 302,
+        headers: {
+          Location: url.pathname + url.search,
+          "Set-Cookie": formatShareCookie(token, link),
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return link;
+  }
+
+  return null;
 }
 
-export async function privateProjectAuth(
-  c: Context<{ Bindings: Env }>,
-  next: Next,
-) {
+/**
+ * Look up a bearer API token and check it grants reading the project
+ */
+async function checkApiToken(
+  c: Context<AppEnv>,
+  projectId: string,
+  token: string,
+  cache: CacheAdapter | undefined,
+): Promise<ApiToken | Response> {
+  let apiToken: ApiToken | null;
+  try {
+    apiToken = await getApiToken(token, c.env, {
+      cache,
+      background: (task) => runInBackground(c, task, "API token last use"),
+    });
+  } catch (error) {
+    // An unreachable token store says nothing about the token: answer
+    // 503 so CI retries instead of treating it as revoked
+    console.error("[AUTH] Failed to look up API token:", error);
+    return c.json(
+      {
+        error: "API tokens cannot be checked right now",
+        code: "AUTH_UNAVAILABLE",
+      },
+      503,
+      { "Cache-Control": "no-store", "Retry-After": "30" },
+    );
+  }
+
+  if (!apiToken) {
+    console.info("[AUTH] Unknown or expired API token:", { projectId });
+    return accessDenied(c, "AUTH_TOKEN_INVALID", projectId, {
+      "WWW-Authenticate": 'Bearer error="invalid_token"',
+    });
+  }
+
+  if (apiToken.projectId !== projectId || !hasApiTokenScope(apiToken, "read")) {
+    console.info("[AUTH] API token not valid for project:", {
+      projectId,
+      tokenProjectId: apiToken.projectId,
+      scopes: apiToken.scopes,
+    });
+    return accessDenied(c, "AUTH_TOKEN_FORBIDDEN", projectId, {
+      "WWW-Authenticate": 'Bearer error="insufficient_scope"',
+    });
+  }
+
+  return apiToken;
+}
+
+export async function privateProjectAuth(c: Context<AppEnv>, next: Next) {
   const url = new URL(c.req.url);
   const pathParts = url.pathname.split("/").filter(Boolean);
 
@@ -29,7 +148,11 @@ export async function privateProjectAuth(
 
   console.info("[AUTH] Checking access for project:", projectId);
 
-  const project = await getProjectVisibility(projectId, c.env);
+  const cache = c.get("cache") ?? getKvCacheAdapter(c.env);
+  const project = await getProjectVisibility(projectId, c.env, {
+    cache,
+    background: (task) => runInBackground(c, task, "visibility refresh"),
+  });
 
   if (!project) {
     console.info(
@@ -39,19 +162,63 @@ export async function privateProjectAuth(
     return next();
   }
 
+  // A version may override the project's visibility; the version segment
+  // is detected exactly as the serving routes detect it
+  const resolution = parsePathForUUID(url.pathname)?.resolution;
+  const versionId = resolution?.type === "compound" ? resolution.version : "";
+  const visibility = resolveVersionVisibility(project, versionId);
+
+  // Expose per-project settings and visibility to the serving routes
+  c.set("projectSettings", getProjectSettings(project));
+  c.set("projectVisibility", visibility);
+
   console.info("[AUTH] Project visibility:", {
     projectId,
-    visibility: project.visibility,
+    versionId,
+    visibility,
+    projectVisibility: project.visibility,
     memberCount: project.memberIds.length,
     memberIds: project.memberIds,
   });
 
-  if (project.visibility === "public") {
-    console.info("[AUTH] Public project, allowing access:", projectId);
+  if (visibility === "public") {
+    console.info("[AUTH] Public project, allowing access:", {
+      projectId,
+      versionId,
+    });
+    return next();
+  }
+
+  // Private project - a share link admits anyone holding it
+  const shareLink = await checkShareLink(c, projectId, cache);
+  if (shareLink instanceof Response) {
+    return shareLink;
+  }
+  if (shareLink) {
+    console.info("[AUTH] Access granted through share link:", {
+      projectId,
+      shareLinkId: shareLink.id,
+    });
+    c.set("auth", { isAuthenticated: true, shareLinkId: shareLink.id });
+    return next();
+  }
+
+  // A bearer token admits CI and other headless viewers
+  const bearerToken = getBearerToken(c.req.header("Authorization"));
+  if (bearerToken) {
+    const apiToken = await checkApiToken(c, projectId, bearerToken, cache);
+    if (apiToken instanceof Response) {
+      return apiToken;
+    }
+    console.info("[AUTH] Access granted through API token:", {
+      projectId,
+      apiTokenId: apiToken.id,
+    });
+    c.set("auth", { isAuthenticated: true, apiTokenId: apiToken.id });
     return next();
   }
 
-  // Private project - check authentication
+  // Otherwise check the session
   const cookieHeader = c.req.header("Cookie");
   console.info("[AUTH] Cookie header present:", !!cookieHeader);
 
@@ -66,7 +233,7 @@ export async function privateProjectAuth(
       projectId,
       cookieHeader: cookieHeader ? `${cookieHeader.substring(0, 50)}...` : null,
     });
-    return c.text("Unauthorized", 401);
+    return accessDenied(c, "AUTH_REQUIRED", projectId);
   }
 
   const firebaseProjectId = c.env.FIREBASE_PROJECT_ID;
@@ -84,7 +251,7 @@ export async function privateProjectAuth(
   const validation = await validateFirebaseSessionCookie(
     sessionCookie,
     firebaseProjectId,
-    c.env.CDN_CACHE,
+    cache,
   );
 
   console.info("[AUTH] Session validation result:", {
@@ -99,27 +266,48 @@ export async function privateProjectAuth(
       projectId,
       error: validation.error,
     });
-    return c.text("Unauthorized", 401);
+    return accessDenied(c, "AUTH_SESSION_INVALID", projectId);
   }
 
-  const isMember = isProjectMember(project.memberIds, validation.uid);
+  // Project members first, then email-domain, organization and team rules
+  const grant = await resolveProjectMembership(
+    project,
+    {
+      uid: validation.uid,
+      email: validation.email,
+      emailVerified: validation.emailVerified,
+    },
+    c.env,
+    {
+      cache,
+      background: (task) => runInBackground(c, task, "membership refresh"),
+    },
+  );
   console.info("[AUTH] Membership check:", {
     uid: validation.uid,
     projectId,
     memberIds: project.memberIds,
-    isMember,
+    orgId: project.orgId,
+    teamIds: project.teamIds,
+    grant,
   });
 
-  if (!isMember) {
+  if (!grant) {
     console.info("[AUTH] User not a member:", {
       uid: validation.uid,
       projectId,
       memberIds: project.memberIds,
     });
-    return c.text("Forbidden", 403);
+    return accessDenied(c, "AUTH_NOT_MEMBER", projectId);
   }
 
   console.info("[AUTH] Access granted:", { uid: validation.uid, projectId });
 
+  c.set("auth", {
+    uid: validation.uid,
+    email: validation.email,
+    isAuthenticated: true,
+  });
+
   return next();
 }
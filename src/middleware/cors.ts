@@ -152,6 +152,34 @@ export function corsHeaders(
   return headers;
 }
 
+/**
+ * Copy CORS headers onto a response.
+ *
+ * Vary is merged rather than replaced so that route-level values such as
+ * `Vary: Accept-Encoding` survive alongside `Vary: Origin`.
+ */
+export function applyCorsHeaders(target: Headers, cors: Headers): void {
+  cors.forEach((value, key) => {
+    if (key.toLowerCase() !== "vary") {
+      target.set(key, value);
+      return;
+    }
+
+    const existing = target.get("Vary");
+    if (!existing) {
+      target.set("Vary", value);
+      return;
+    }
+
+    const tokens = existing
+      .split(",")
+      .map((token) => token.trim().toLowerCase());
+    if (!tokens.includes(value.toLowerCase())) {
+      target.set("Vary", `${existing}, ${value}`);
+    }
+  });
+}
+
 export function handleOptions(
   request: Request,
   config: CorsConfig = {},
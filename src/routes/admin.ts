@@ -0,0 +1,260 @@
+import { Hono } from "hono";
+import type { R2Bucket } from "@cloudflare/workers-types";
+import { isValidUUID, parsePathForUUID } from "@/utils/subdomain";
+import {
+  DEFAULT_SHARE_LINK_LIFETIME_SECONDS,
+  MAX_SHARE_LINK_LIFETIME_SECONDS,
+  SHARE_QUERY_PARAM,
+  createShareToken,
+  getShareScopePath,
+  revokeShareLink,
+  verifyShareToken,
+} from "@/auth/share-links";
+import {
+  createApiToken,
+  deleteApiToken,
+  storeApiToken,
+} from "@/auth/api-tokens";
+import {
+  clearCentralDirectoryCache,
+  readCentralDirectoryFromR2,
+} from "@/services/zip/central-directory";
+import { resolveCentralDirectoryEncoding } from "@/services/zip/central-directory-codec";
+import { writeSidecar } from "@/services/zip/central-directory-sidecar";
+import { ZipError } from "@/services/zip/errors";
+import { resolveZipLimits } from "@/services/zip/limits";
+import type { AppEnv } from "@/types/context";
+
+/**
+ * Operator endpoints, enabled by setting ADMIN_TOKEN and authorized with
+ * `Authorization: Bearer <ADMIN_TOKEN>`. Without the token configured they
+ * answer 404 like any unknown path.
+ */
+export const adminRoutes = new Hono<AppEnv>();
+
+/**
+ * Compare secrets without leaking the position of the first difference
+ */
+function constantTimeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ (right[i % right.length] ?? 0);
+  }
+  return diff === 0;
+}
+
+adminRoutes.use("*", async (c, next) => {
+  const token = c.env.ADMIN_TOKEN;
+  if (!token) {
+    return c.text("Not Found", 404);
+  }
+
+  const header = c.req.header("Authorization") ?? "";
+  const provided = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!constantTimeEqual(provided, token)) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  await next();
+});
+
+/**
+ * Build the central directory sidecar of a version's archive:
+ *   POST /admin/central-directory/{project}/{version}
+ *
+ * Parses the archive in R2, writes the sidecar next to it and drops the
+ * cached copies, so the next viewer request loads the fresh sidecar.
+ */
+adminRoutes.post("/central-directory/*", async (c) => {
+  const pathname = c.req.path.replace(/^\/admin\/central-directory/, "");
+  const pathInfo = parsePathForUUID(pathname);
+  if (!pathInfo?.isValid || !pathInfo.resolution) {
+    return c.json({ error: "Expected /{project}/{version}" }, 400);
+  }
+
+  const { zipKey } = pathInfo.resolution;
+  const bucket = c.env.UPLOAD_BUCKET as unknown as R2Bucket | undefined;
+  if (!bucket) {
+    return c.json({ error: "UPLOAD_BUCKET is not bound" }, 500);
+  }
+
+  try {
+    const centralDir = await readCentralDirectoryFromR2(bucket, zipKey, {
+      limits: resolveZipLimits(c.env),
+    });
+    const sidecarKey = await writeSidecar(
+      bucket,
+      zipKey,
+      centralDir,
+      resolveCentralDirectoryEncoding(c.env),
+    );
+    await clearCentralDirectoryCache(
+      c.get("cache"),
+      zipKey,
+      c.get("directoryCache"),
+    );
+
+    return c.json({
+      zipKey,
+      sidecarKey,
+      entries: Object.keys(centralDir.entries).length,
+      etag: centralDir.etag ?? null,
+    });
+  } catch (error) {
+    if (error instanceof ZipError) {
+      return c.json(
+        { error: error.message, code: error.code },
+        error.status as 404 | 413 | 422 | 503,
+      );
+    }
+    throw error;
+  }
+});
+
+/**
+ * Issue a share link to a private project:
+ *   POST /admin/share-links
+ *   { "projectId", "versionId"?, "path"?, "expiresIn"? (seconds) }
+ *
+ * Answers with the token and the URL path that opens the shared Storybook.
+ */
+adminRoutes.post("/share-links", async (c) => {
+  const secret = c.env.SHARE_LINK_SECRET;
+  if (!secret) {
+    return c.json({ error: "SHARE_LINK_SECRET is not set" }, 500);
+  }
+
+  const body = await c.req
+    .json<{
+      projectId?: unknown;
+      versionId?: unknown;
+      path?: unknown;
+      expiresIn?: unknown;
+    }>()
+    .catch(() => null);
+  const expiresIn = body?.expiresIn ?? DEFAULT_SHARE_LINK_LIFETIME_SECONDS;
+  if (
+    !body ||
+    typeof body.projectId !== "string" ||
+    !isValidUUID(body.projectId) ||
+    (body.versionId !== undefined && typeof body.versionId !== "string") ||
+    (body.path !== undefined && typeof body.path !== "string") ||
+    typeof expiresIn !== "number" ||
+    expiresIn <= 0 ||
+    expiresIn > MAX_SHARE_LINK_LIFETIME_SECONDS
+  ) {
+    return c.json(
+      {
+        error: `Expected { projectId, versionId?, path?, expiresIn? } with expiresIn up to ${MAX_SHARE_LINK_LIFETIME_SECONDS} seconds`,
+      },
+      400,
+    );
+  }
+
+  const { token, link } = await createShareToken(
+    {
+      projectId: body.projectId,
+      versionId: body.versionId as string | undefined,
+      path: body.path as string | undefined,
+      expiresAt: Math.floor(Date.now() / 1000) + Math.floor(expiresIn),
+    },
+    secret,
+  );
+
+  return c.json({
+    ...link,
+    token,
+    url: `${getShareScopePath(link)}/?${SHARE_QUERY_PARAM}=${token}`,
+  });
+});
+
+/**
+ * Revoke a share link before it expires:
+ *   POST /admin/share-links/revoke  { "token" }
+ *
+ * The link's id is denylisted in the shared cache until its expiry.
+ */
+adminRoutes.post("/share-links/revoke", async (c) => {
+  const secret = c.env.SHARE_LINK_SECRET;
+  const cache = c.get("cache");
+  if (!secret || !cache) {
+    return c.json({ error: "Share links are not configured" }, 500);
+  }
+
+  const body = await c.req.json<{ token?: unknown }>().catch(() => null);
+  const link =
+    typeof body?.token === "string"
+      ? await verifyShareToken(body.token, secret)
+      : null;
+  if (!link) {
+    return c.json({ error: "Expected { token } of an unexpired link" }, 400);
+  }
+
+  await revokeShareLink(cache, link.id, link.expiresAt);
+
+  return c.json({ id: link.id, revoked: true });
+});
+
+/**
+ * Issue a read-only API token for a project:
+ *   POST /admin/api-tokens  { "projectId", "name"?, "expiresIn"? (seconds) }
+ *
+ * The token is answered once; only its hash is stored in the shared cache.
+ * Tokens without expiresIn do not expire.
+ */
+adminRoutes.post("/api-tokens", async (c) => {
+  const cache = c.get("cache");
+  if (!cache) {
+    return c.json({ error: "No shared cache is configured" }, 500);
+  }
+
+  const body = await c.req
+    .json<{ projectId?: unknown; name?: unknown; expiresIn?: unknown }>()
+    .catch(() => null);
+  if (
+    !body ||
+    typeof body.projectId !== "string" ||
+    !isValidUUID(body.projectId) ||
+    (body.name !== undefined && typeof body.name !== "string") ||
+    (body.expiresIn !== undefined &&
+      (typeof body.expiresIn !== "number" || body.expiresIn <= 0))
+  ) {
+    return c.json({ error: "Expected { projectId, name?, expiresIn? }" }, 400);
+  }
+
+  const { token, record } = await createApiToken({
+    projectId: body.projectId,
+    name: body.name as string | undefined,
+    expiresAt:
+      body.expiresIn === undefined
+        ? undefined
+        : Date.now() + Math.floor(body.expiresIn as number) * 1000,
+  });
+  await storeApiToken(cache, record);
+
+  return c.json({ ...record, token });
+});
+
+/**
+ * Revoke an API token issued through /admin/api-tokens:
+ *   POST /admin/api-tokens/revoke  { "id" }
+ */
+adminRoutes.post("/api-tokens/revoke", async (c) => {
+  const cache = c.get("cache");
+  if (!cache) {
+    return c.json({ error: "No shared cache is configured" }, 500);
+  }
+
+  const body = await c.req.json<{ id?: unknown }>().catch(() => null);
+  if (typeof body?.id !== "string" || !/^[0-9a-f]{64}$/.test(body.id)) {
+    return c.json({ error: "Expected { id }" }, 400);
+  }
+
+  if (!(await deleteApiToken(cache, body.id))) {
+    return c.json({ error: "Unknown API token" }, 404);
+  }
+
+  return c.json({ id: body.id, revoked: true });
+});
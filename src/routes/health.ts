@@ -1,7 +1,7 @@
 import { Hono } from 'hono';
-import type { Env } from '@/types/env';
+import type { AppEnv } from '@/types/context';
 
-export const healthRoutes = new Hono<{ Bindings: Env }>();
+export const healthRoutes = new Hono<AppEnv>();
 
 healthRoutes.get('/', (c) => {
   return c.json({
@@ -32,4 +32,12 @@ healthRoutes.get('/ready', async (c) => {
       },
     }, 503);
   }
-});
\ No newline at end of file
+});
+
+// In-isolate cache counters for monitoring
+healthRoutes.get('/metrics', (c) => {
+  return c.json({
+    centralDirectoryCache: c.get('directoryCache')?.stats() ?? null,
+    timestamp: new Date().toISOString(),
+  });
+});
@@ -1,7 +1,16 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { createStorageAdapter } from '@/adapters/storage/factory';
 import { parsePathForUUID } from '@/utils/subdomain';
 import { getMimeType } from '@/utils/mime-types';
+import { getCacheControl } from '@/utils/zip-utils';
+import { isNotModified } from '@/utils/http-conditional';
+import {
+  getDirectoryRedirectLocation,
+  resolvePath,
+  resolveSpaFallback,
+  type PathResolutionOptions
+} from '@/services/path-resolution';
+import type { StorageAdapter, StorageObject } from '@/types/storage';
 import type { Env } from '@/types/env';
 
 export const staticRoutes = new Hono<{ Bindings: Env }>();
@@ -17,58 +26,86 @@ staticRoutes.get('/*', async (c) => {
     return c.text('Invalid path format. Expected: /{uuid}/path/to/file.html', 400);
   }
 
-  const { uuid, filePath } = pathInfo;
-
-  // Construct storage key
-  const objectKey = `${uuid}/${filePath}`;
+  const { uuid, filePath, requestPath } = pathInfo;
 
   try {
-    // Fetch from storage
-    const object = await storage.get(objectKey);
-    
-    if (!object) {
-      // Try index.html for potential SPA routing
-      if (!filePath.includes('.')) {
-        const indexKey = `${uuid}/index.html`;
-        const indexObject = await storage.get(indexKey);
-        
-        if (indexObject) {
-          return serveObject(c, indexObject, 'text/html');
-        }
-      }
-      
-      return c.text('Not Found', 404);
-    }
-
-    // Determine content type
-    const contentType = object.contentType || getMimeType(filePath);
-
-    return serveObject(c, object, contentType);
+    const response = await serveExplodedFile(c, storage, `${uuid}/`, requestPath ?? filePath, {
+      spaFallback: resolveSpaFallback(c.env)
+    });
+    return response ?? c.text('Not Found', 404);
   } catch (error) {
     console.error('Error serving file:', error);
     return c.text('Internal Server Error', 500);
   }
 });
 
-function serveObject(c: any, object: any, contentType: string) {
+export interface ExplodedServeOptions extends PathResolutionOptions {
+  /** Keys under `prefix` that are never served (archive, sidecars) */
+  hiddenKeys?: readonly string[];
+}
+
+/**
+ * Serve a file from an exploded (unzipped) build stored as plain objects
+ * under `prefix`, resolving `requestPath` with resolvePath. Returns null
+ * when nothing matches, including the SPA fallback.
+ */
+export async function serveExplodedFile(
+  c: Context<any>,
+  storage: StorageAdapter,
+  prefix: string,
+  requestPath: string,
+  options: ExplodedServeOptions
+): Promise<Response | null> {
+  const resolved = await resolvePath(
+    requestPath,
+    (path) => {
+      const key = `${prefix}${path}`;
+      return options.hiddenKeys?.includes(key) ? null : storage.get(key);
+    },
+    options
+  );
+
+  if (resolved.type === 'redirect') {
+    return c.redirect(getDirectoryRedirectLocation(new URL(c.req.url)), 301);
+  }
+
+  if (resolved.type === 'not-found') {
+    return null;
+  }
+
+  const { path, target: object } = resolved;
+
+  // Determine content type
+  const contentType = object.contentType || getMimeType(path);
+
+  return serveObject(c, object, path, contentType);
+}
+
+function serveObject(c: Context<any>, object: StorageObject, path: string, contentType: string) {
   const headers: Record<string, string> = {
     'Content-Type': contentType,
-    'Cache-Control': c.env.CACHE_CONTROL || 'public, max-age=31536000, immutable',
+    // Same caching rules as files served from ZIP archives
+    'Cache-Control': getCacheControl(path),
     'Access-Control-Allow-Origin': c.env.ALLOWED_ORIGINS || '*',
   };
 
-  if (object.size) {
-    headers['Content-Length'] = object.size.toString();
-  }
-
   if (object.etag) {
     headers['ETag'] = object.etag;
+
+    if (isNotModified({ ifNoneMatch: c.req.header('If-None-Match') }, { etag: object.etag })) {
+      const notModifiedHeaders = new Headers(headers);
+      notModifiedHeaders.delete('Content-Type');
+      return new Response(null, { status: 304, headers: notModifiedHeaders });
+    }
+  }
+
+  if (object.size) {
+    headers['Content-Length'] = object.size.toString();
   }
 
-  // Handle different body types
-  if (object.body instanceof ReadableStream) {
-    return new Response(object.body, { headers });
+  if (c.req.method === 'HEAD') {
+    return new Response(null, { headers });
   }
 
-  return new Response(object.body, { headers });
-}
\ No newline at end of file
+  return new Response(object.body as BodyInit, { headers });
+}
@@ -1,12 +1,88 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { parsePathForUUID } from "@/utils/subdomain";
 import { getMimeType } from "@/utils/mime-types";
-import { getCentralDirectory } from "@/services/zip/central-directory";
-import { extractFile } from "@/services/zip/extractor";
+import {
+  clearCentralDirectoryCache,
+  getCentralDirectory,
+} from "@/services/zip/central-directory";
+import { resolveCentralDirectoryEncoding } from "@/services/zip/central-directory-codec";
+import { isSidecarEnabled } from "@/services/zip/central-directory-sidecar";
+import {
+  getArchiveVersion,
+  getCurrentArchiveVersion,
+  matchesArchiveVersion,
+  pinArchiveVersion,
+} from "@/services/zip/archive-version";
+import {
+  extractFile,
+  extractFileStream,
+  extractFileRange,
+  getEntryReadLength,
+} from "@/services/zip/extractor";
+import { withPrefetchedRange } from "@/services/zip/prefetched-range";
 import { normalizePath, isPathSafe, getCacheControl } from "@/utils/zip-utils";
+import {
+  parseRangeHeader,
+  isRangeConditionMet,
+  formatContentRange,
+  formatUnsatisfiedRange,
+  getRangeLength,
+} from "@/utils/http-range";
+import { isNotModified, formatHttpDate } from "@/utils/http-conditional";
+import { acceptsEncoding } from "@/utils/accept-encoding";
+import {
+  canPassthroughGzip,
+  createGzipPassthroughStream,
+  getGzipPassthroughLength,
+} from "@/services/zip/gzip-passthrough";
+import {
+  getPrecompressedSiblingPaths,
+  hasPrecompressedVariants,
+  selectPrecompressedVariant,
+  type PrecompressedEncoding,
+} from "@/services/zip/precompressed";
+import {
+  ZipArchiveChangedError,
+  ZipError,
+  ZipNotFoundError,
+} from "@/services/zip/errors";
+import { checkEntryLimits, resolveZipLimits } from "@/services/zip/limits";
+import {
+  getExplodedPrefix,
+  getInternalObjectKeys,
+  resolveServingStrategy,
+} from "@/services/serving-strategy";
+import {
+  getCandidatePaths,
+  getDirectoryRedirectLocation,
+  resolvePath,
+  resolveSpaFallback,
+  type PathResolutionOptions,
+} from "@/services/path-resolution";
+import {
+  needsWarming,
+  warmResponseCache,
+  withResponseCache,
+  type ResponseCacheScope,
+} from "@/services/response-cache";
+import {
+  extractPrefetchHints,
+  formatLinkHeader,
+  groupNeighbouringEntries,
+  MAX_PREFETCH_DOCUMENT_BYTES,
+  resolveHtmlPrefetchMode,
+  type PrefetchHint,
+} from "@/services/html-prefetch";
+import { runInBackground } from "@/utils/execution-context";
+import { serveExplodedFile } from "@/routes/static";
+import { R2StorageAdapter } from "@/adapters/storage/r2";
+import { createStorageAdapter } from "@/adapters/storage/factory";
+import type { CacheAdapter } from "@/adapters/cache/interface";
 import type { Env } from "@/types/env";
+import type { AppEnv } from "@/types/context";
+import type { ZipCentralDirectory, ZipFileEntry } from "@/types/zip";
 
-export const zipStaticRoutes = new Hono<{ Bindings: Env }>();
+export const zipStaticRoutes = new Hono<AppEnv>();
 
 function isCoverageReportRequest(filePath: string): boolean {
   const pathNoQuery = filePath.split("?")[0];
@@ -21,13 +97,604 @@ function getCoverageCacheControl(env: Env): string {
 }
 
 /**
- * Serve static files from ZIP archives stored in R2
+ * JSON error for archives that cannot be served (corrupt, unsupported)
+ */
+function zipErrorResponse(error: ZipError): Response {
+  return new Response(
+    JSON.stringify({ error: error.message, code: error.code }),
+    {
+      status: error.status,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    },
+  );
+}
+
+/**
+ * The parts of a request an entry response depends on
+ */
+interface EntryRequest {
+  method: string;
+  header(name: string): string | undefined;
+}
+
+interface ServeEntryOptions {
+  /** Coding the entry's bytes are already in (precompressed sibling) */
+  contentEncoding?: PrecompressedEncoding;
+  /** Other encodings of this path exist, so caches must key on Accept-Encoding */
+  varyOnEncoding?: boolean;
+  /** Preload hints for the assets the entry references */
+  link?: string;
+  /** Request to answer; defaults to the current one */
+  request?: EntryRequest;
+}
+
+/**
+ * Build the response for a single ZIP entry.
+ *
+ * Conditional requests (If-None-Match / If-Modified-Since) and HEAD are
+ * answered from the central directory entry alone, without reading any
+ * compressed bytes from R2.
+ *
+ * Deflated entries are sent as `Content-Encoding: gzip` when the client
+ * accepts it, by wrapping the stored deflate bytes in a gzip envelope; the
+ * Worker never inflates or recompresses them. Precompressed siblings are
+ * served as-is with the coding given in `options.contentEncoding`.
+ *
+ * Honors Range/If-Range: a satisfiable single range is answered with
+ * 206 Partial Content, an unsatisfiable one with 416, and anything else
+ * (no Range, malformed or multi-range, failed If-Range) with the full body.
+ * Ranges always apply to the identity (uncompressed) representation.
+ */
+async function serveZipEntry(
+  c: Context<AppEnv>,
+  storage: R2Bucket,
+  zipKey: string,
+  entry: ZipFileEntry,
+  path: string,
+  contentType: string,
+  options: ServeEntryOptions = {},
+): Promise<Response> {
+  // Enforce size and ratio limits before touching any entry data
+  checkEntryLimits(entry, resolveZipLimits(c.env));
+
+  const request = options.request ?? c.req;
+  const rangeHeader = request.header("Range");
+  const precompressed = options.contentEncoding !== undefined;
+
+  const gzipPassthrough =
+    !precompressed &&
+    canPassthroughGzip(entry) &&
+    !rangeHeader &&
+    acceptsEncoding(request.header("Accept-Encoding"), "gzip");
+
+  // Each representation needs its own strong validator
+  const etag = gzipPassthrough ? `"${entry.crc32}-gzip"` : `"${entry.crc32}"`;
+  const contentLength = gzipPassthrough
+    ? getGzipPassthroughLength(entry)
+    : entry.size;
+
+  const headers: Record<string, string> = {
+    "Content-Type": contentType,
+    "Cache-Control": getCacheControl(path),
+    "Access-Control-Allow-Origin": c.env.ALLOWED_ORIGINS || "*",
+    "Accept-Ranges": "bytes",
+    ETag: etag,
+  };
+
+  if (precompressed || options.varyOnEncoding || canPassthroughGzip(entry)) {
+    headers["Vary"] = "Accept-Encoding";
+  }
+
+  if (gzipPassthrough) {
+    headers["Content-Encoding"] = "gzip";
+  } else if (options.contentEncoding) {
+    headers["Content-Encoding"] = options.contentEncoding;
+  }
+
+  if (entry.lastModified !== undefined) {
+    headers["Last-Modified"] = formatHttpDate(entry.lastModified);
+  }
+
+  if (options.link) {
+    headers["Link"] = options.link;
+  }
+
+  const notModified = isNotModified(
+    {
+      ifNoneMatch: request.header("If-None-Match"),
+      ifModifiedSince: request.header("If-Modified-Since"),
+    },
+    { etag, lastModified: entry.lastModified },
+  );
+
+  if (notModified) {
+    // 304 carries validators and caching headers only, no representation metadata
+    const notModifiedHeaders = new Headers(headers);
+    notModifiedHeaders.delete("Content-Type");
+    return new Response(null, { status: 304, headers: notModifiedHeaders });
+  }
+
+  // HEAD: Hono dispatches HEAD to GET handlers, so answer with headers only
+  if (request.method === "HEAD") {
+    return new Response(null, {
+      headers: {
+        ...headers,
+        "Content-Length": contentLength.toString(),
+      },
+    });
+  }
+
+  if (
+    rangeHeader &&
+    isRangeConditionMet(request.header("If-Range"), etag, entry.lastModified)
+  ) {
+    const parsed = parseRangeHeader(rangeHeader, entry.size);
+
+    if (parsed.type === "unsatisfiable") {
+      return new Response(null, {
+        status: 416,
+        headers: {
+          ...headers,
+          "Content-Range": formatUnsatisfiedRange(entry.size),
+        },
+      });
+    }
+
+    if (parsed.type === "range") {
+      const body = await extractFileRange(storage, zipKey, entry, parsed.range);
+
+      return new Response(body, {
+        status: 206,
+        headers: {
+          ...headers,
+          "Content-Range": formatContentRange(parsed.range, entry.size),
+          "Content-Length": getRangeLength(parsed.range).toString(),
+        },
+      });
+    }
+  }
+
+  if (gzipPassthrough) {
+    const body = await createGzipPassthroughStream(storage, zipKey, entry);
+
+    return new Response(body, {
+      headers: {
+        ...headers,
+        "Content-Length": contentLength.toString(),
+      },
+      // Body is already gzip-encoded; stop Workers from encoding it again
+      encodeBody: "manual",
+    });
+  }
+
+  // Stream the file out of the ZIP using a range request
+  const body = await extractFileStream(storage, zipKey, entry);
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      "Content-Length": contentLength.toString(),
+    },
+    // Precompressed siblings are already encoded as well
+    encodeBody: precompressed ? "manual" : "automatic",
+  });
+}
+
+interface ZipServeOptions extends PathResolutionOptions {
+  /** Bucket binding the archive lives in, for warming the response cache */
+  bucket: string;
+  allowMissingArchive: boolean;
+  /** Set when retrying after the archive changed under a cached directory */
+  currentEtag?: string;
+}
+
+/**
+ * Get the central directory of the project's ZIP archive (cached in memory
+ * and KV), limited to the entries a request for `requestPath` looks up.
+ * Returns null when the archive is missing and `allowMissingArchive` is
+ * set.
+ */
+async function loadCentralDirectory(
+  c: Context<AppEnv>,
+  storage: Parameters<typeof getCentralDirectory>[0],
+  cache: CacheAdapter | undefined,
+  zipKey: string,
+  requestPath: string,
+  options: ZipServeOptions,
+): Promise<ZipCentralDirectory | null> {
+  console.log("[DEBUG] Fetching central directory for:", zipKey);
+  try {
+    return await getCentralDirectory(storage, cache, zipKey, {
+      limits: resolveZipLimits(c.env),
+      memoryCache: c.get("directoryCache"),
+      etag: options.currentEtag,
+      encoding: resolveCentralDirectoryEncoding(c.env),
+      sidecar: isSidecarEnabled(c.env),
+      // Only these are looked up below (resolvePath, then the siblings)
+      paths: getCandidatePaths(requestPath, options).flatMap((path) => [
+        path,
+        ...getPrecompressedSiblingPaths(path),
+      ]),
+    });
+  } catch (error) {
+    if (options.allowMissingArchive && error instanceof ZipNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Serve a path out of the project's ZIP archive, given its central
+ * directory.
+ *
+ * The path is resolved with resolvePath (exact entry, `dir/index.html`,
+ * `name.html`, SPA fallback); directories requested without a trailing
+ * slash are redirected. Returns null when nothing in the archive matches,
+ * so the caller can fall back to exploded objects.
+ */
+async function serveFromZip(
+  c: Context<AppEnv>,
+  storage: any,
+  cache: CacheAdapter | undefined,
+  zipKey: string,
+  centralDir: ZipCentralDirectory,
+  requestPath: string,
+  options: ZipServeOptions,
+): Promise<Response | null> {
+  // Find the requested file
+  const resolved = await resolvePath(
+    requestPath,
+    (path) => centralDir.entries[path] ?? null,
+    options,
+  );
+  console.log("[DEBUG] Looking for file:", requestPath);
+  console.log("[DEBUG] Resolved:", resolved.type);
+
+  if (resolved.type === "redirect") {
+    return c.redirect(getDirectoryRedirectLocation(new URL(c.req.url)), 301);
+  }
+
+  if (resolved.type === "not-found") {
+    return null;
+  }
+
+  try {
+    const pinned = pinArchiveVersion(
+      storage,
+      zipKey,
+      getArchiveVersion(centralDir),
+    );
+    // The SPA fallback document is served for paths it was not written for
+    const hints = resolved.fallback
+      ? []
+      : await getPrefetchHints(
+          c,
+          pinned,
+          zipKey,
+          resolved.path,
+          resolved.target,
+        );
+
+    const response = await serveResolvedEntry(
+      c,
+      pinned,
+      zipKey,
+      centralDir,
+      resolved.path,
+      resolved.target,
+      { link: hints.length > 0 ? formatLinkHeader(hints) : undefined },
+    );
+
+    if (
+      hints.length > 0 &&
+      response.status === 200 &&
+      resolveHtmlPrefetchMode(c.env) === "warm"
+    ) {
+      runInBackground(
+        c,
+        warmPrefetchedEntries(c, pinned, centralDir, hints, {
+          bucket: options.bucket,
+          zipKey,
+          path: resolved.path,
+          archiveEtag: centralDir.etag,
+        }),
+        "prefetch warm",
+      );
+    }
+
+    return response;
+  } catch (error) {
+    // Re-uploaded archive: the cached offsets point into the old one.
+    // Drop the cached directory, rebuild it from R2 and try once more.
+    if (
+      error instanceof ZipArchiveChangedError &&
+      options.currentEtag === undefined
+    ) {
+      console.warn("[WARN] ZIP changed since its directory was cached:", {
+        zipKey,
+        cachedEtag: centralDir.etag,
+        currentEtag: error.currentEtag,
+      });
+      await clearCentralDirectoryCache(cache, zipKey, c.get("directoryCache"));
+      c.get("archiveVersionCache")?.delete(zipKey);
+      const retryOptions = {
+        ...options,
+        currentEtag: error.currentEtag ?? "",
+      };
+      const current = await loadCentralDirectory(
+        c,
+        storage,
+        cache,
+        zipKey,
+        requestPath,
+        retryOptions,
+      );
+      return (
+        current &&
+        serveFromZip(
+          c,
+          storage,
+          cache,
+          zipKey,
+          current,
+          requestPath,
+          retryOptions,
+        )
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether the response may be built without reading entry bytes, so the
+ * pinned reads of serveFromZip would not notice a re-upload: HEAD,
+ * conditional requests and response cache hits
+ */
+function mayAnswerWithoutReading(c: Context<AppEnv>): boolean {
+  return (
+    c.req.method === "HEAD" ||
+    c.req.header("If-None-Match") !== undefined ||
+    c.req.header("If-Modified-Since") !== undefined ||
+    c.get("responseCache") !== undefined
+  );
+}
+
+/**
+ * Check a cached directory against the archive's current etag (HEAD,
+ * remembered for a few seconds) and rebuild it when the archive was
+ * re-uploaded, as serveFromZip does when a read fails
+ */
+async function loadCurrentCentralDirectory(
+  c: Context<AppEnv>,
+  storage: Parameters<typeof getCentralDirectory>[0],
+  cache: CacheAdapter | undefined,
+  zipKey: string,
+  centralDir: ZipCentralDirectory,
+  requestPath: string,
+  options: ZipServeOptions,
+): Promise<{
+  centralDir: ZipCentralDirectory | null;
+  options: ZipServeOptions;
+}> {
+  const current = await getCurrentArchiveVersion(
+    storage,
+    zipKey,
+    c.get("archiveVersionCache"),
+  );
+  if (
+    !current ||
+    matchesArchiveVersion(current, getArchiveVersion(centralDir))
+  ) {
+    return { centralDir, options };
+  }
+
+  console.warn("[WARN] ZIP changed since its directory was cached:", {
+    zipKey,
+    cachedEtag: centralDir.etag,
+    currentEtag: current.etag,
+  });
+  await clearCentralDirectoryCache(cache, zipKey, c.get("directoryCache"));
+  const retryOptions = { ...options, currentEtag: current.etag ?? "" };
+  return {
+    centralDir: await loadCentralDirectory(
+      c,
+      storage,
+      cache,
+      zipKey,
+      requestPath,
+      retryOptions,
+    ),
+    options: retryOptions,
+  };
+}
+
+/**
+ * Serve a resolved entry, preferring an accepted precompressed sibling
+ */
+async function serveResolvedEntry(
+  c: Context<AppEnv>,
+  storage: R2Bucket,
+  zipKey: string,
+  centralDir: ZipCentralDirectory,
+  cleanPath: string,
+  fileEntry: ZipFileEntry,
+  options: Pick<ServeEntryOptions, "link" | "request"> = {},
+): Promise<Response> {
+  const contentType = getMimeType(cleanPath);
+  const request = options.request ?? c.req;
+
+  // Prefer a precompressed sibling (main.js.br / main.js.gz) when accepted.
+  // Range requests always address the identity representation.
+  const variant = request.header("Range")
+    ? null
+    : selectPrecompressedVariant(
+        centralDir.entries,
+        cleanPath,
+        request.header("Accept-Encoding"),
+      );
+
+  if (variant) {
+    return await serveZipEntry(
+      c,
+      storage,
+      zipKey,
+      variant.entry,
+      cleanPath,
+      contentType,
+      { ...options, contentEncoding: variant.encoding },
+    );
+  }
+
+  return await serveZipEntry(
+    c,
+    storage,
+    zipKey,
+    fileEntry,
+    cleanPath,
+    contentType,
+    {
+      ...options,
+      varyOnEncoding: hasPrecompressedVariants(centralDir.entries, cleanPath),
+    },
+  );
+}
+
+/**
+ * Preload hints of an HTML entry about to be served in full.
+ *
+ * The document is read once per archive version and its hints kept in the
+ * app's hint cache. Hints never stop the document from being served: an
+ * unreadable document just goes out without them.
+ */
+async function getPrefetchHints(
+  c: Context<AppEnv>,
+  storage: R2Bucket,
+  zipKey: string,
+  path: string,
+  entry: ZipFileEntry,
+): Promise<PrefetchHint[]> {
+  if (
+    resolveHtmlPrefetchMode(c.env) === "off" ||
+    c.req.method !== "GET" ||
+    c.req.header("Range") ||
+    !getMimeType(path).startsWith("text/html") ||
+    entry.size > MAX_PREFETCH_DOCUMENT_BYTES
+  ) {
+    return [];
+  }
+
+  const hintCache = c.get("prefetchHintCache");
+  const cacheKey = `${zipKey}:${path}:${entry.crc32}`;
+  const cached = hintCache?.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  let hints: PrefetchHint[];
+  try {
+    checkEntryLimits(entry, resolveZipLimits(c.env));
+    const html = new TextDecoder().decode(
+      await extractFile(storage, zipKey, entry),
+    );
+    hints = extractPrefetchHints(html, path);
+  } catch (error) {
+    // Serving the document hits the same error, and may retry on a new archive
+    if (error instanceof ZipError) {
+      throw error;
+    }
+    console.warn("[WARN] Cannot read preload hints:", { zipKey, path, error });
+    return [];
+  }
+
+  hintCache?.set(cacheKey, hints);
+  return hints;
+}
+
+/**
+ * Put the entries a document references into the response cache, reading
+ * each group of neighbouring entries with one range request
+ */
+async function warmPrefetchedEntries(
+  c: Context<AppEnv>,
+  storage: R2Bucket,
+  centralDir: ZipCentralDirectory,
+  hints: PrefetchHint[],
+  scope: ResponseCacheScope,
+): Promise<void> {
+  const { zipKey } = scope;
+  // Serve them as the browser will request them: plain GET, same encodings
+  const acceptEncoding = c.req.header("Accept-Encoding");
+  const request: EntryRequest = {
+    method: "GET",
+    header: (name) =>
+      name.toLowerCase() === "accept-encoding" ? acceptEncoding : undefined,
+  };
+
+  // Entries missing from a partially loaded directory are skipped
+  const targets = new Map<ZipFileEntry, string>();
+  for (const hint of hints) {
+    const entry = centralDir.entries[hint.path];
+    if (!entry || !(await needsWarming(c, { ...scope, path: hint.path }))) {
+      continue;
+    }
+    // The precompressed sibling is what the browser will be sent
+    const variant = selectPrecompressedVariant(
+      centralDir.entries,
+      hint.path,
+      acceptEncoding,
+    );
+    targets.set(variant?.entry ?? entry, hint.path);
+  }
+
+  const getEnd = (entry: ZipFileEntry) =>
+    entry.offset + getEntryReadLength(entry);
+
+  for (const group of groupNeighbouringEntries([...targets.keys()], getEnd)) {
+    const offset = group[0].offset;
+    const end = Math.max(...group.map(getEnd));
+    const object = await storage.get(zipKey, {
+      range: { offset, length: end - offset },
+    });
+    if (!object) {
+      return;
+    }
+
+    const prefetched = withPrefetchedRange(storage, zipKey, {
+      offset,
+      bytes: new Uint8Array(await object.arrayBuffer()),
+      etag: object.etag,
+    });
+
+    for (const target of group) {
+      const path = targets.get(target)!;
+      const response = await serveResolvedEntry(
+        c,
+        prefetched,
+        zipKey,
+        centralDir,
+        path,
+        centralDir.entries[path],
+        { request },
+      );
+      await warmResponseCache(c, { ...scope, path }, response);
+    }
+  }
+}
+
+/**
+ * Serve static files from ZIP archives stored in R2, or from exploded
+ * objects depending on the serving strategy (see resolveServingStrategy)
  * Uses HTTP range requests for efficient partial extraction
  * Supports both legacy (simple UUID) and Upload Service (compound UUID) patterns
  */
 zipStaticRoutes.get("/*", async (c) => {
   const url = new URL(c.req.url);
-  const cache = c.env.CDN_CACHE as any;
+  const cache = c.get("cache");
 
   // Extract UUID from path (view.domain.com/{uuid}/path)
   const pathInfo = parsePathForUUID(url.pathname);
@@ -115,61 +782,98 @@ zipStaticRoutes.get("/*", async (c) => {
     return c.text("Invalid path", 400);
   }
 
-  try {
-    // Get central directory (cached in KV)
-    console.log("[DEBUG] Fetching central directory for:", zipKey);
-    const centralDir = await getCentralDirectory(storage, cache, zipKey);
-    console.log(
-      "[DEBUG] Central directory entries count:",
-      Object.keys(centralDir.entries).length,
-    );
-    console.log(
-      "[DEBUG] Available files:",
-      Object.keys(centralDir.entries).slice(0, 10).join(", "),
-    );
-
-    // Find the requested file
-    const fileEntry = centralDir.entries[cleanPath];
-    console.log("[DEBUG] Looking for file:", cleanPath);
-    console.log("[DEBUG] File found:", fileEntry ? "YES" : "NO");
-
-    if (!fileEntry) {
-      // Try index.html for potential SPA routing
-      if (!cleanPath.includes(".")) {
-        const indexEntry = centralDir.entries["index.html"];
-
-        if (indexEntry) {
-          const data = await extractFile(storage, zipKey, indexEntry);
-          return new Response(data, {
-            headers: {
-              "Content-Type": "text/html",
-              "Cache-Control": getCacheControl("index.html"),
-              "Access-Control-Allow-Origin": c.env.ALLOWED_ORIGINS || "*",
-            },
-          });
-        }
-      }
+  const settings = c.get("projectSettings");
+  const strategy = resolveServingStrategy(c.env, settings);
+  const spaFallback = resolveSpaFallback(c.env, settings);
+  const requestPath = pathInfo.requestPath ?? filePath;
+  console.log("[DEBUG] Serving strategy:", strategy);
 
-      return c.text("Not Found", 404);
+  try {
+    let zipOptions: ZipServeOptions = {
+      spaFallback,
+      bucket: resolution.bucket,
+      allowMissingArchive: strategy === "zip-then-exploded",
+    };
+    // Loaded before the response cache is consulted: cached responses are
+    // keyed by the archive's etag, so those of a re-upload are kept apart
+    let centralDir =
+      strategy === "exploded"
+        ? null
+        : await loadCentralDirectory(
+            c,
+            storage,
+            cache,
+            zipKey,
+            requestPath,
+            zipOptions,
+          );
+    if (centralDir && mayAnswerWithoutReading(c)) {
+      ({ centralDir, options: zipOptions } = await loadCurrentCentralDirectory(
+        c,
+        storage,
+        cache,
+        zipKey,
+        centralDir,
+        requestPath,
+        zipOptions,
+      ));
     }
 
-    // Extract file using range request
-    const fileData = await extractFile(storage, zipKey, fileEntry);
-
-    // Determine content type
-    const contentType = getMimeType(cleanPath);
+    return await withResponseCache(
+      c,
+      {
+        bucket: resolution.bucket,
+        zipKey,
+        path: requestPath,
+        archiveEtag: centralDir?.etag,
+      },
+      async () => {
+        if (centralDir) {
+          const response = await serveFromZip(
+            c,
+            storage,
+            cache,
+            zipKey,
+            centralDir,
+            requestPath,
+            zipOptions,
+          );
+          if (response) {
+            return response;
+          }
+        }
 
-    // Build response headers
-    const headers: Record<string, string> = {
-      "Content-Type": contentType,
-      "Cache-Control": getCacheControl(cleanPath),
-      "Access-Control-Allow-Origin": c.env.ALLOWED_ORIGINS || "*",
-      "Content-Length": fileEntry.size.toString(),
-      ETag: `"${fileEntry.crc32}"`,
-    };
+        if (strategy !== "zip") {
+          // Exploded builds live next to the archive: {project}/{version}/{path}
+          const adapter = storage
+            ? new R2StorageAdapter(storage)
+            : await createStorageAdapter(c.env);
+          const response = await serveExplodedFile(
+            c,
+            adapter,
+            getExplodedPrefix(zipKey),
+            requestPath,
+            { spaFallback, hiddenKeys: getInternalObjectKeys(zipKey) },
+          );
+          if (response) {
+            return response;
+          }
+        }
 
-    return new Response(fileData, { headers });
+        return c.text("Not Found", 404);
+      },
+    );
   } catch (error) {
+    if (error instanceof ZipError) {
+      console.error("[ERROR] Cannot serve file from ZIP:", {
+        code: error.code,
+        message: error.message,
+        zipKey,
+        cleanPath,
+      });
+      return zipErrorResponse(error);
+    }
+
     console.error("[ERROR] Error serving file from ZIP:", error);
     console.error("[ERROR] Details:", {
       bucket: resolution.bucket,
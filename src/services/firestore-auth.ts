@@ -1,5 +1,7 @@
 import * as jose from "jose";
 import type { Env } from "@/types/env";
+import type { CacheAdapter } from "@/adapters/cache/interface";
+import { getKvCacheAdapter } from "@/adapters/cache/factory";
 
 /**
  * Service account authentication for Firestore REST API
@@ -24,13 +26,15 @@ const FIRESTORE_SCOPE = "https://www.googleapis.com/auth/datastore";
 const TOKEN_REFRESH_BUFFER_MS = 60 * 1000;
 
 /**
- * Get a valid Firestore access token, using KV cache when available
+ * Get a valid Firestore access token, using the cache when available
  *
  * @param env - Worker environment with secrets and KV
+ * @param cache - Token cache; defaults to the KV binding
  * @returns Access token string or null if auth is not configured
  */
 export async function getFirestoreAccessToken(
   env: Env,
+  cache: CacheAdapter | undefined = getKvCacheAdapter(env),
 ): Promise<string | null> {
   const clientEmail = env.FIREBASE_CLIENT_EMAIL;
   const privateKey = env.FIREBASE_PRIVATE_KEY;
@@ -44,13 +48,10 @@ export async function getFirestoreAccessToken(
   const now = Date.now();
   const cacheKey = "firestore:access_token";
 
-  // Check KV cache first
-  if (env.CDN_CACHE) {
+  // Check the cache first
+  if (cache) {
     try {
-      const cached = (await env.CDN_CACHE.get(
-        cacheKey,
-        "json",
-      )) as TokenCache | null;
+      const cached = await cache.getJson<TokenCache>(cacheKey);
 
       if (cached && cached.expiresAt > now + TOKEN_REFRESH_BUFFER_MS) {
         return cached.accessToken;
@@ -66,18 +67,20 @@ export async function getFirestoreAccessToken(
     const tokenResponse = await exchangeJWTForAccessToken(jwt);
 
     // Cache the token
-    if (env.CDN_CACHE) {
+    if (cache) {
       const cacheValue: TokenCache = {
         accessToken: tokenResponse.access_token,
         expiresAt: now + tokenResponse.expires_in * 1000,
       };
 
-      // KV TTL should be slightly less than token expiry
-      const kvTtl = Math.max(60, tokenResponse.expires_in - 120);
+      // Cache TTL should be slightly less than token expiry
+      const ttl = Math.max(60, tokenResponse.expires_in - 120);
 
-      await env.CDN_CACHE.put(cacheKey, JSON.stringify(cacheValue), {
-        expirationTtl: kvTtl,
-      });
+      try {
+        await cache.set(cacheKey, JSON.stringify(cacheValue), ttl);
+      } catch (error) {
+        console.error("[FIRESTORE_AUTH] Failed to write token cache:", error);
+      }
     }
 
     return tokenResponse.access_token;
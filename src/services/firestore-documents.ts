@@ -0,0 +1,242 @@
+import type { Env } from "@/types/env";
+import type { CacheAdapter } from "@/adapters/cache/interface";
+import {
+  getFirestoreAccessToken,
+  isServiceAccountConfigured,
+} from "@/services/firestore-auth";
+
+/**
+ * Firestore documents read through the REST API and kept in the shared
+ * cache.
+ *
+ * A cached document is served fresh for `ttlMs`, then stale for up to
+ * `maxStaleMs` while a refresh runs (in the background when the caller
+ * can run one). Missing documents are cached too, so unknown ids do not
+ * query Firestore, but never served stale. When Firestore fails a stale
+ * copy is served; with nothing usable cached the error reaches the
+ * caller, which decides how to fail closed. Cache failures only cost the
+ * caching: a failed read is a miss and a failed write is logged.
+ */
+
+export interface CachedDocumentOptions {
+  cache?: CacheAdapter;
+  /** Runs a stale document's refresh after the response is sent */
+  background?: (task: Promise<unknown>) => void;
+  /** How long a cached document is fresh */
+  ttlMs: number;
+  /** How long past `ttlMs` a cached document may still be served */
+  maxStaleMs: number;
+  /** Log prefix, e.g. "VISIBILITY" */
+  label: string;
+}
+
+/** Cached Firestore 404 */
+interface NotFoundEntry {
+  notFound: true;
+  cachedAt: number;
+}
+
+type CachedEntry<T> = (T & { cachedAt: number }) | NotFoundEntry;
+
+/**
+ * Array of strings as sent by the Firestore REST API
+ */
+export interface FirestoreStringArray {
+  arrayValue?: { values?: Array<{ stringValue?: string }> };
+}
+
+// Refreshes in flight in this isolate, keyed by cache key, so concurrent
+// requests share one
+const refreshes = new Map<string, Promise<unknown>>();
+
+/**
+ * Read a document through the cache; null when it does not exist
+ */
+export async function getCachedDocument<T extends object>(
+  cacheKey: string,
+  load: () => Promise<T | null>,
+  options: CachedDocumentOptions,
+): Promise<T | null> {
+  const { cache, ttlMs, maxStaleMs, label } = options;
+
+  let stale: CachedEntry<T> | null = null;
+  if (cache) {
+    const cached = await readEntry<T>(cache, cacheKey, label);
+    const age = cached ? Date.now() - cached.cachedAt : Infinity;
+
+    if (cached && age < ttlMs) {
+      return toDocument(cached);
+    }
+    // A missing document is never served stale: the caller may treat it
+    // as unrestricted, so only a fresh 404 counts
+    if (cached && !("notFound" in cached) && age < ttlMs + maxStaleMs) {
+      stale = cached;
+    }
+  }
+
+  if (stale && options.background) {
+    options.background(refreshDocument(cacheKey, load, options));
+    return toDocument(stale);
+  }
+
+  try {
+    return await refreshDocument(cacheKey, load, options);
+  } catch (error) {
+    if (stale) {
+      console.warn(`[${label}] Firestore failed, serving stale data:`, {
+        cacheKey,
+        cachedAt: stale.cachedAt,
+        error,
+      });
+      return toDocument(stale);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read a cached entry; a failing cache (e.g. Redis down) counts as a miss
+ */
+async function readEntry<T extends object>(
+  cache: CacheAdapter,
+  cacheKey: string,
+  label: string,
+): Promise<CachedEntry<T> | null> {
+  try {
+    return await cache.getJson<CachedEntry<T>>(cacheKey);
+  } catch (error) {
+    console.warn(`[${label}] Cache read failed, using Firestore:`, {
+      cacheKey,
+      error,
+    });
+    return null;
+  }
+}
+
+function toDocument<T extends object>(entry: CachedEntry<T>): T | null {
+  return "notFound" in entry ? null : entry;
+}
+
+function refreshDocument<T extends object>(
+  cacheKey: string,
+  load: () => Promise<T | null>,
+  options: CachedDocumentOptions,
+): Promise<T | null> {
+  let refresh = refreshes.get(cacheKey) as Promise<T | null> | undefined;
+  if (!refresh) {
+    refresh = loadAndCacheDocument(cacheKey, load, options).finally(() => {
+      refreshes.delete(cacheKey);
+    });
+    refreshes.set(cacheKey, refresh);
+  }
+  return refresh;
+}
+
+async function loadAndCacheDocument<T extends object>(
+  cacheKey: string,
+  load: () => Promise<T | null>,
+  options: CachedDocumentOptions,
+): Promise<T | null> {
+  const result = await load();
+
+  if (options.cache) {
+    const entry: CachedEntry<T> = result
+      ? { ...result, cachedAt: Date.now() }
+      : { notFound: true, cachedAt: Date.now() };
+
+    try {
+      await options.cache.set(
+        cacheKey,
+        JSON.stringify(entry),
+        // Kept for as long as it may be served stale
+        (result ? options.ttlMs + options.maxStaleMs : options.ttlMs) / 1000,
+      );
+    } catch (error) {
+      console.warn(`[${options.label}] Cache write failed:`, {
+        cacheKey,
+        error,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Request headers for the Firestore REST API: a bearer token when a
+ * service account is configured, otherwise none (requires public rules)
+ */
+export async function getFirestoreHeaders(
+  env: Env,
+  cache: CacheAdapter | undefined,
+): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {};
+
+  if (isServiceAccountConfigured(env)) {
+    const accessToken = await getFirestoreAccessToken(env, cache);
+    if (!accessToken) {
+      throw new Error("Failed to authenticate with Firestore");
+    }
+    headers["Authorization"] = `Bearer ${accessToken}`;
+  }
+
+  return headers;
+}
+
+/**
+ * REST URL of a document, e.g. `projects/{id}`; null without
+ * FIREBASE_PROJECT_ID
+ */
+export function getFirestoreDocumentUrl(env: Env, path: string): string | null {
+  const firebaseProjectId = env.FIREBASE_PROJECT_ID;
+  if (!firebaseProjectId) {
+    return null;
+  }
+  return `https://firestore.googleapis.com/v1/projects/${firebaseProjectId}/databases/(default)/documents/${path}`;
+}
+
+/**
+ * Fetch a document's fields; null when it does not exist or
+ * FIREBASE_PROJECT_ID is not set. Other failures throw.
+ */
+export async function fetchFirestoreDocument<F>(
+  path: string,
+  env: Env,
+  cache: CacheAdapter | undefined,
+): Promise<{ fields?: F } | null> {
+  const url = getFirestoreDocumentUrl(env, path);
+  if (!url) {
+    console.error("[FIRESTORE] FIREBASE_PROJECT_ID not configured");
+    return null;
+  }
+
+  const response = await fetch(url, {
+    headers: await getFirestoreHeaders(env, cache),
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return null;
+    }
+    const errorText = await response.text();
+    console.error("[FIRESTORE] Request failed:", {
+      path,
+      status: response.status,
+      error: errorText,
+    });
+    throw new Error(`Firestore request failed: ${response.status}`);
+  }
+
+  return (await response.json()) as { fields?: F };
+}
+
+/**
+ * Strings of a Firestore array field; other values are dropped
+ */
+export function parseStringArray(
+  field: FirestoreStringArray | undefined,
+): string[] {
+  return (field?.arrayValue?.values ?? [])
+    .map((value) => value.stringValue)
+    .filter((value): value is string => typeof value === "string");
+}
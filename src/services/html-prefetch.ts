@@ -0,0 +1,232 @@
+import type { Env } from "@/types/env";
+import type { ZipFileEntry } from "@/types/zip";
+import { LruCache } from "@/utils/lru-cache";
+
+/**
+ * Preload hints for the assets an HTML document loads first.
+ *
+ * When a Storybook's `index.html` or `iframe.html` is served, its
+ * `<script src>`, `<link rel=stylesheet>` and `<link rel=modulepreload>`
+ * references are listed in a `Link` header. Browsers start fetching them
+ * before the HTML is parsed, and Cloudflare turns the header into 103
+ * Early Hints for later visitors. In "warm" mode the referenced entries are
+ * also put into the response cache, read from the archive with one range
+ * request per group of neighbouring entries.
+ */
+
+export type HtmlPrefetchMode = "off" | "link" | "warm";
+
+export interface PrefetchHint {
+  /** Reference as written in the document */
+  href: string;
+  /** Archive path the reference resolves to */
+  path: string;
+  rel: "preload" | "modulepreload";
+  /** Destination for rel=preload */
+  as?: "script" | "style" | "font" | "image" | "fetch";
+}
+
+export type PrefetchHintCache = LruCache<PrefetchHint[]>;
+
+/** Documents larger than this are served without hints */
+export const MAX_PREFETCH_DOCUMENT_BYTES = 512 * 1024;
+
+/** Hints kept per document, in document order */
+export const MAX_PREFETCH_HINTS = 20;
+
+const PRELOAD_DESTINATIONS = new Set([
+  "script",
+  "style",
+  "font",
+  "image",
+  "fetch",
+]);
+
+// Reads of neighbouring entries are merged while the gap between them is
+// at most MAX_WARM_GAP bytes and the merged read at most MAX_WARM_SPAN
+const MAX_WARM_GAP = 64 * 1024;
+const MAX_WARM_SPAN = 4 * 1024 * 1024;
+
+/**
+ * Hint mode for the deployment: `HTML_PREFETCH` = off | link (default) | warm
+ */
+export function resolveHtmlPrefetchMode(env: Env): HtmlPrefetchMode {
+  const value = env.HTML_PREFETCH?.trim().toLowerCase();
+  return value === "off" || value === "warm" ? value : "link";
+}
+
+export function createPrefetchHintCache(): PrefetchHintCache {
+  return new LruCache<PrefetchHint[]>({
+    maxEntries: 100,
+    ttlMs: 10 * 60 * 1000,
+  });
+}
+
+function parseAttributes(tag: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  const pattern =
+    /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  // Skip the tag name
+  const body = tag.replace(/^<\s*[a-z]+/i, "").replace(/\/?>$/, "");
+
+  for (const match of body.matchAll(pattern)) {
+    const name = match[1].toLowerCase();
+    if (!attributes.has(name)) {
+      attributes.set(name, match[2] ?? match[3] ?? match[4] ?? "");
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Resolve a reference against the document's archive path; null for
+ * references outside the project (other origins, root-relative paths,
+ * data: URLs)
+ */
+export function resolveReferencePath(
+  href: string,
+  documentPath: string,
+): string | null {
+  if (!href || href.startsWith("/") || /^[a-z][a-z0-9+.-]*:/i.test(href)) {
+    return null;
+  }
+
+  const base = "https://archive.invalid/";
+  let url: URL;
+  try {
+    url = new URL(href, base + documentPath);
+  } catch {
+    return null;
+  }
+
+  if (url.origin !== new URL(base).origin) {
+    return null;
+  }
+
+  try {
+    return decodeURIComponent(url.pathname.slice(1)) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the scripts and stylesheets a document loads, in document order
+ */
+export function extractPrefetchHints(
+  html: string,
+  documentPath: string,
+): PrefetchHint[] {
+  const hints: PrefetchHint[] = [];
+  const seen = new Set<string>();
+
+  // Comments may hold commented-out tags
+  const source = html.replace(/<!--[\s\S]*?-->/g, "");
+
+  for (const [tag, name] of source.matchAll(/<(script|link)\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    let hint: Omit<PrefetchHint, "path"> | null = null;
+
+    if (name.toLowerCase() === "script") {
+      const src = attributes.get("src");
+      if (src) {
+        hint =
+          attributes.get("type")?.toLowerCase() === "module"
+            ? { href: src, rel: "modulepreload" }
+            : { href: src, rel: "preload", as: "script" };
+      }
+    } else {
+      const href = attributes.get("href");
+      const rels = (attributes.get("rel") ?? "").toLowerCase().split(/\s+/);
+      const as = attributes.get("as")?.toLowerCase();
+
+      if (href && rels.includes("stylesheet")) {
+        hint = { href, rel: "preload", as: "style" };
+      } else if (href && rels.includes("modulepreload")) {
+        hint = { href, rel: "modulepreload" };
+      } else if (
+        href &&
+        rels.includes("preload") &&
+        as &&
+        PRELOAD_DESTINATIONS.has(as)
+      ) {
+        hint = { href, rel: "preload", as: as as PrefetchHint["as"] };
+      }
+    }
+
+    if (!hint) continue;
+
+    const path = resolveReferencePath(hint.href, documentPath);
+    if (!path || seen.has(path)) continue;
+
+    seen.add(path);
+    hints.push({ ...hint, path });
+    if (hints.length >= MAX_PREFETCH_HINTS) break;
+  }
+
+  return hints;
+}
+
+/**
+ * Format hints as a Link header value
+ */
+export function formatLinkHeader(hints: PrefetchHint[]): string {
+  return hints
+    .map((hint) => {
+      const target = hint.href.replace(/[<>\s]/g, encodeURIComponent);
+      const params = [`<${target}>`, `rel=${hint.rel}`];
+      if (hint.as) {
+        params.push(`as=${hint.as}`);
+        // Fonts are always fetched in CORS mode
+        if (hint.as === "font") params.push("crossorigin");
+      }
+      return params.join("; ");
+    })
+    .join(", ");
+}
+
+/**
+ * Group entries so neighbours in the archive can be read with one request.
+ *
+ * Entries are sorted by offset; a group ends where the next entry is more
+ * than MAX_WARM_GAP bytes away or would grow the read past MAX_WARM_SPAN.
+ * Entries over MAX_WARM_SPAN on their own are left out.
+ */
+export function groupNeighbouringEntries(
+  entries: ZipFileEntry[],
+  getEnd: (entry: ZipFileEntry) => number,
+): ZipFileEntry[][] {
+  const sorted = entries
+    .filter((entry) => getEnd(entry) - entry.offset <= MAX_WARM_SPAN)
+    .sort((a, b) => a.offset - b.offset);
+
+  const groups: ZipFileEntry[][] = [];
+  let group: ZipFileEntry[] = [];
+  let start = 0;
+  let end = 0;
+
+  for (const entry of sorted) {
+    const entryEnd = getEnd(entry);
+    if (
+      group.length > 0 &&
+      (entry.offset - end > MAX_WARM_GAP ||
+        Math.max(end, entryEnd) - start > MAX_WARM_SPAN)
+    ) {
+      groups.push(group);
+      group = [];
+    }
+    if (group.length === 0) {
+      start = entry.offset;
+      end = entryEnd;
+    }
+    group.push(entry);
+    end = Math.max(end, entryEnd);
+  }
+
+  if (group.length > 0) {
+    groups.push(group);
+  }
+
+  return groups;
+}
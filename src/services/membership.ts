@@ -0,0 +1,175 @@
+import type { Env } from "@/types/env";
+import { getKvCacheAdapter } from "@/adapters/cache/factory";
+import {
+  fetchFirestoreDocument,
+  getCachedDocument,
+  parseStringArray,
+  type FirestoreStringArray,
+} from "@/services/firestore-documents";
+import {
+  isProjectMember,
+  resolveMaxStaleSeconds,
+  type ProjectAccess,
+  type VisibilityOptions,
+} from "@/services/visibility";
+
+/**
+ * Access to private projects through organizations, teams and verified
+ * email domains, besides the project's own `memberIds`.
+ *
+ * A project document may name an `orgId`, `teamIds` and
+ * `allowedEmailDomains`. Organization and team documents
+ * (`organizations/{id}`, `teams/{id}`) hold `memberIds` and
+ * `allowedEmailDomains` of their own. Group documents are cached like
+ * project visibility: fresh for CACHE_TTL_MS, then served stale while
+ * refreshed, and a missing group admits nobody.
+ */
+
+export type GroupKind = "organizations" | "teams";
+
+export interface GroupMembership {
+  memberIds: string[];
+  allowedEmailDomains: string[];
+}
+
+export interface Viewer {
+  uid: string;
+  email?: string;
+  emailVerified?: boolean;
+}
+
+/** What admitted a viewer, for logging */
+export type MembershipGrant =
+  | "member"
+  | "email-domain"
+  | "organization"
+  | "team";
+
+const CACHE_TTL_MS = 60 * 1000;
+
+const EMPTY_GROUP: GroupMembership = { memberIds: [], allowedEmailDomains: [] };
+
+/**
+ * Lower-cased domain of a verified email; null when unverified
+ */
+function getVerifiedDomain(viewer: Viewer): string | null {
+  if (!viewer.email || viewer.emailVerified !== true) {
+    return null;
+  }
+  const at = viewer.email.lastIndexOf("@");
+  return at === -1 ? null : viewer.email.slice(at + 1).toLowerCase();
+}
+
+/**
+ * Whether a verified email matches one of the domains ("example.com" or
+ * "@example.com"); subdomains do not match
+ */
+export function matchesEmailDomain(viewer: Viewer, domains: string[]): boolean {
+  const domain = getVerifiedDomain(viewer);
+  return (
+    domain !== null &&
+    domains.some((rule) => rule.replace(/^@/, "").toLowerCase() === domain)
+  );
+}
+
+function isGroupMember(group: GroupMembership, viewer: Viewer): boolean {
+  return (
+    group.memberIds.includes(viewer.uid) ||
+    matchesEmailDomain(viewer, group.allowedEmailDomains)
+  );
+}
+
+/**
+ * Find what grants a signed-in viewer access to a private project, or
+ * null when nothing does. Project rules are checked first; groups are only
+ * fetched when those fail.
+ */
+export async function resolveProjectMembership(
+  project: ProjectAccess,
+  viewer: Viewer,
+  env: Env,
+  options: VisibilityOptions = {},
+): Promise<MembershipGrant | null> {
+  if (isProjectMember(project.memberIds, viewer.uid)) {
+    return "member";
+  }
+  if (matchesEmailDomain(viewer, project.allowedEmailDomains ?? [])) {
+    return "email-domain";
+  }
+
+  const groups: Array<[GroupKind, string]> = [
+    ...(project.orgId
+      ? [["organizations", project.orgId] as [GroupKind, string]]
+      : []),
+    ...(project.teamIds ?? []).map(
+      (teamId) => ["teams", teamId] as [GroupKind, string],
+    ),
+  ];
+  const memberships = await Promise.all(
+    groups.map(([kind, id]) => getGroupMembership(kind, id, env, options)),
+  );
+
+  const index = memberships.findIndex((group) => isGroupMember(group, viewer));
+  if (index === -1) {
+    return null;
+  }
+  return groups[index][0] === "organizations" ? "organization" : "team";
+}
+
+/**
+ * Look up the members of an organization or team, cached like project
+ * visibility. Without anything usable cached, a Firestore failure admits
+ * nobody.
+ */
+export async function getGroupMembership(
+  kind: GroupKind,
+  id: string,
+  env: Env,
+  options: VisibilityOptions = {},
+): Promise<GroupMembership> {
+  const cache = options.cache ?? getKvCacheAdapter(env);
+
+  try {
+    const group = await getCachedDocument(
+      `membership:${kind}:${id}`,
+      async () => {
+        const doc = await fetchFirestoreDocument<FirestoreGroupFields>(
+          `${kind}/${encodeURIComponent(id)}`,
+          env,
+          cache,
+        );
+        return (
+          doc && {
+            memberIds: parseStringArray(doc.fields?.memberIds),
+            allowedEmailDomains: parseStringArray(
+              doc.fields?.allowedEmailDomains,
+            ),
+          }
+        );
+      },
+      {
+        cache,
+        background: options.background,
+        ttlMs: CACHE_TTL_MS,
+        maxStaleMs: resolveMaxStaleSeconds(env) * 1000,
+        label: "MEMBERSHIP",
+      },
+    );
+    if (!group) {
+      console.info("[MEMBERSHIP] Group not found in Firestore:", { kind, id });
+      return EMPTY_GROUP;
+    }
+    return {
+      memberIds: group.memberIds,
+      allowedEmailDomains: group.allowedEmailDomains,
+    };
+  } catch (error) {
+    console.error("[MEMBERSHIP] Failed to fetch group:", { kind, id, error });
+    return EMPTY_GROUP;
+  }
+}
+
+interface FirestoreGroupFields {
+  memberIds?: FirestoreStringArray;
+  allowedEmailDomains?: FirestoreStringArray;
+}
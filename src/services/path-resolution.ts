@@ -0,0 +1,125 @@
+import type { Env } from "@/types/env";
+import type { ProjectSettings } from "@/types/project";
+import { getPossiblePaths, hasFileExtension } from "@/utils/zip-utils";
+
+/**
+ * Request path resolution shared by ZIP and exploded serving.
+ *
+ * A path below the project root is tried, in order, as the exact file,
+ * `dir/index.html`, `name.html` and finally the SPA fallback file. A
+ * directory matched without its trailing slash is redirected instead of
+ * served, so relative asset URLs in its index.html resolve against the
+ * directory rather than its parent.
+ */
+
+export const DEFAULT_SPA_FALLBACK_FILE = "index.html";
+
+export interface PathResolutionOptions {
+  /** File served for unmatched extensionless paths; null disables it */
+  spaFallback: string | null;
+}
+
+export type PathResolution<T> =
+  | {
+      type: "file";
+      /** Path of the file that matched */
+      path: string;
+      target: T;
+      /** Served as the SPA fallback rather than a real match */
+      fallback: boolean;
+    }
+  | { type: "redirect" }
+  | { type: "not-found" };
+
+/**
+ * SPA fallback file for a request, or null when disabled.
+ *
+ * The project setting wins over the deployment default (`SPA_FALLBACK`,
+ * enabled unless set to "false").
+ */
+export function resolveSpaFallback(
+  env: Env,
+  settings?: ProjectSettings,
+): string | null {
+  const enabled =
+    settings?.spaFallback ?? env.SPA_FALLBACK?.trim().toLowerCase() !== "false";
+
+  if (!enabled) {
+    return null;
+  }
+
+  return env.SPA_FALLBACK_FILE?.trim() || DEFAULT_SPA_FALLBACK_FILE;
+}
+
+function getCandidates(requestPath: string) {
+  const trailingSlash = requestPath.endsWith("/");
+  const base = requestPath.replace(/^\/+|\/+$/g, "");
+  const indexPath = base ? `${base}/index.html` : "index.html";
+  const candidates =
+    trailingSlash || !base ? [indexPath] : getPossiblePaths(base);
+
+  return { trailingSlash, base, indexPath, candidates };
+}
+
+/**
+ * Every path resolvePath may look up for a request, in lookup order
+ */
+export function getCandidatePaths(
+  requestPath: string,
+  options: PathResolutionOptions,
+): string[] {
+  const { base, candidates } = getCandidates(requestPath);
+
+  return options.spaFallback && !hasFileExtension(base)
+    ? [...candidates, options.spaFallback]
+    : candidates;
+}
+
+/**
+ * Resolve a request path against a source of files.
+ *
+ * `requestPath` is the path below the project root as written in the URL:
+ * "" for the bare root, with any trailing slash kept ("docs/"). `lookup`
+ * returns the file stored at a path, or null.
+ */
+export async function resolvePath<T>(
+  requestPath: string,
+  lookup: (path: string) => T | null | Promise<T | null>,
+  options: PathResolutionOptions,
+): Promise<PathResolution<T>> {
+  const { trailingSlash, base, indexPath, candidates } =
+    getCandidates(requestPath);
+
+  for (const path of candidates) {
+    const target = await lookup(path);
+    if (target) {
+      if (path === indexPath && !trailingSlash) {
+        return { type: "redirect" };
+      }
+      return { type: "file", path, target, fallback: false };
+    }
+  }
+
+  // Paths with an extension are asset requests; never mask them as HTML
+  if (options.spaFallback && !hasFileExtension(base)) {
+    const target = await lookup(options.spaFallback);
+    if (target) {
+      return {
+        type: "file",
+        path: options.spaFallback,
+        target,
+        fallback: true,
+      };
+    }
+  }
+
+  return { type: "not-found" };
+}
+
+/**
+ * Location that adds the missing trailing slash to a directory URL,
+ * keeping the query string
+ */
+export function getDirectoryRedirectLocation(url: URL): string {
+  return `${url.pathname}/${url.search}`;
+}
@@ -0,0 +1,39 @@
+import type { ProjectSettings } from "@/types/project";
+import { parseServingStrategy } from "@/services/serving-strategy";
+
+/**
+ * Settings fields on the Firestore project document
+ */
+export interface ProjectSettingsFields {
+  servingStrategy?: { stringValue: string };
+  spaFallback?: { booleanValue: boolean };
+}
+
+/**
+ * Read project settings from Firestore document fields, dropping unknown
+ * or invalid values so deployment defaults apply
+ */
+export function parseProjectSettings(
+  fields: ProjectSettingsFields | undefined,
+): ProjectSettings {
+  return getProjectSettings({
+    servingStrategy: parseServingStrategy(fields?.servingStrategy?.stringValue),
+    spaFallback: fields?.spaFallback?.booleanValue,
+  });
+}
+
+/**
+ * Pick the settings carried alongside visibility, omitting unset ones
+ */
+export function getProjectSettings(project: ProjectSettings): ProjectSettings {
+  const settings: ProjectSettings = {};
+
+  if (project.servingStrategy) {
+    settings.servingStrategy = project.servingStrategy;
+  }
+  if (typeof project.spaFallback === "boolean") {
+    settings.spaFallback = project.spaFallback;
+  }
+
+  return settings;
+}
@@ -0,0 +1,266 @@
+import type { Context } from "hono";
+import type { AppEnv } from "@/types/context";
+import type { ResponseCacheAdapter } from "@/adapters/response-cache/interface";
+import { parseAcceptEncoding } from "@/utils/accept-encoding";
+import { isNotModified, parseHttpDate } from "@/utils/http-conditional";
+import { runInBackground } from "@/utils/execution-context";
+
+/**
+ * Response cache in front of ZIP extraction and exploded serving.
+ *
+ * Full 200 responses are stored per bucket, archive (and its R2 etag, so
+ * a re-upload starts afresh), request path and negotiated encoding, for as
+ * long as the Cache-Control from getCacheControl allows (HTML, with
+ * max-age=0, is never stored). On a hit only the central directory is
+ * looked up (normally in memory) for that etag; no entry is read from R2.
+ *
+ * Private projects are keyed per viewer as well, so a cached file is only
+ * ever returned to the user it was first served to, and are sent to
+ * clients as `Cache-Control: private` so shared caches downstream do not
+ * keep them either.
+ */
+
+const CACHE_KEY_PATH = "/__response-cache";
+
+// Codings the route can produce besides identity
+const SERVED_ENCODINGS = ["br", "gzip"];
+
+export interface ResponseCacheScope {
+  /** Bucket binding the archive lives in */
+  bucket: string;
+  zipKey: string;
+  /** Path below the project root as requested */
+  path: string;
+  /** R2 etag of the archive's central directory, when served from one */
+  archiveEtag?: string;
+}
+
+/**
+ * Encoding part of the cache key: the codings the route could serve that
+ * the client accepts, most preferred first ("identity" when none)
+ */
+export function getEncodingKey(acceptEncoding: string | null | undefined) {
+  const codings = parseAcceptEncoding(acceptEncoding);
+  const accepted = SERVED_ENCODINGS.map((encoding, index) => ({
+    encoding,
+    index,
+    quality: codings.get(encoding) ?? codings.get("*") ?? 0,
+  }))
+    .filter(({ quality }) => quality > 0)
+    // Highest q-value first; ties keep brotli ahead of gzip
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ encoding }) => encoding);
+
+  return accepted.length > 0 ? accepted.join(",") : "identity";
+}
+
+/**
+ * Build the cache key URL. The Cache API needs an http(s) URL; the key
+ * lives on the request's own origin under a path the app never serves.
+ */
+export function buildResponseCacheKey(
+  origin: string,
+  scope: ResponseCacheScope,
+  encoding: string,
+  viewer?: string,
+): string {
+  const params = new URLSearchParams({
+    bucket: scope.bucket,
+    zip: scope.zipKey,
+    path: scope.path,
+    encoding,
+  });
+  if (scope.archiveEtag) {
+    params.set("etag", scope.archiveEtag);
+  }
+  if (viewer) {
+    params.set("viewer", viewer);
+  }
+  return `${origin}${CACHE_KEY_PATH}?${params}`;
+}
+
+/**
+ * Swap `public` for `private` in a Cache-Control value
+ */
+export function toPrivateCacheControl(cacheControl: string): string {
+  const directives = cacheControl
+    .split(",")
+    .map((directive) => directive.trim())
+    .filter((directive) => directive && directive.toLowerCase() !== "public");
+  return ["private", ...directives].join(", ");
+}
+
+function isPrivateProject(c: Context<AppEnv>): boolean {
+  return c.get("projectVisibility") === "private";
+}
+
+/**
+ * Cache key for the current request, or null when it must bypass the cache
+ */
+function getRequestCacheKey(
+  c: Context<AppEnv>,
+  scope: ResponseCacheScope,
+): string | null {
+  if (c.req.method !== "GET" && c.req.method !== "HEAD") {
+    return null;
+  }
+
+  // Partial content is always assembled from the archive
+  if (c.req.header("Range")) {
+    return null;
+  }
+
+  let viewer: string | undefined;
+  if (isPrivateProject(c)) {
+    const auth = c.get("auth");
+    viewer =
+      auth?.uid ?? (auth?.apiTokenId ? `token:${auth.apiTokenId}` : undefined);
+    if (!viewer) {
+      return null;
+    }
+  }
+
+  return buildResponseCacheKey(
+    new URL(c.req.url).origin,
+    scope,
+    getEncodingKey(c.req.header("Accept-Encoding")),
+    viewer,
+  );
+}
+
+/**
+ * Rebuild a response for the client: private projects get a private
+ * Cache-Control, and pre-encoded bodies are sent as-is
+ */
+function finalizeResponse(
+  c: Context<AppEnv>,
+  response: Response,
+  cacheStatus?: "HIT" | "MISS",
+): Response {
+  if (!isPrivateProject(c) && !cacheStatus) {
+    return response;
+  }
+
+  const headers = new Headers(response.headers);
+  const cacheControl = headers.get("Cache-Control");
+  if (isPrivateProject(c) && cacheControl) {
+    headers.set("Cache-Control", toPrivateCacheControl(cacheControl));
+  }
+  if (cacheStatus) {
+    headers.set("X-Cache", cacheStatus);
+  }
+
+  return new Response(c.req.method === "HEAD" ? null : response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    // Content-Encoding bodies are already encoded; do not encode them again
+    encodeBody: headers.has("Content-Encoding") ? "manual" : "automatic",
+  });
+}
+
+/**
+ * Answer a request from a cached response, honoring conditional requests
+ */
+function serveCachedResponse(c: Context<AppEnv>, cached: Response): Response {
+  const etag = cached.headers.get("ETag");
+
+  if (
+    etag &&
+    isNotModified(
+      {
+        ifNoneMatch: c.req.header("If-None-Match"),
+        ifModifiedSince: c.req.header("If-Modified-Since"),
+      },
+      {
+        etag,
+        lastModified: parseHttpDate(cached.headers.get("Last-Modified")),
+      },
+    )
+  ) {
+    const headers = new Headers(cached.headers);
+    headers.delete("Content-Type");
+    headers.delete("Content-Length");
+    return finalizeResponse(
+      c,
+      new Response(null, { status: 304, headers }),
+      "HIT",
+    );
+  }
+
+  return finalizeResponse(c, cached, "HIT");
+}
+
+/**
+ * Serve a request through the response cache.
+ *
+ * `produce` builds the response on a miss; cacheable results are stored
+ * in the background after being sent.
+ */
+export async function withResponseCache(
+  c: Context<AppEnv>,
+  scope: ResponseCacheScope,
+  produce: () => Promise<Response>,
+): Promise<Response> {
+  const cache: ResponseCacheAdapter | undefined = c.get("responseCache");
+  const key = cache ? getRequestCacheKey(c, scope) : null;
+
+  if (!cache || !key) {
+    return finalizeResponse(c, await produce());
+  }
+
+  try {
+    const cached = await cache.match(key);
+    if (cached) {
+      return serveCachedResponse(c, cached);
+    }
+  } catch (error) {
+    console.error("[ERROR] Response cache lookup failed:", error);
+  }
+
+  const response = await produce();
+
+  // Only complete GET responses are worth keeping; HEAD and 304 have no body
+  if (c.req.method !== "GET" || response.status !== 200 || !response.body) {
+    return finalizeResponse(c, response);
+  }
+
+  runInBackground(c, cache.put(key, response.clone()), "response cache put");
+
+  return finalizeResponse(c, response, "MISS");
+}
+
+/**
+ * Whether another path of the archive, requested like the current request
+ * (same viewer and encoding), is missing from the cache
+ */
+export async function needsWarming(
+  c: Context<AppEnv>,
+  scope: ResponseCacheScope,
+): Promise<boolean> {
+  const cache = c.get("responseCache");
+  const key = cache ? getRequestCacheKey(c, scope) : null;
+  if (!cache || !key) {
+    return false;
+  }
+
+  return !(await cache.match(key));
+}
+
+/**
+ * Store a response for another path of the archive ahead of its request,
+ * keyed as the current request would key it
+ */
+export async function warmResponseCache(
+  c: Context<AppEnv>,
+  scope: ResponseCacheScope,
+  response: Response,
+): Promise<void> {
+  const cache = c.get("responseCache");
+  const key = cache ? getRequestCacheKey(c, scope) : null;
+  if (!cache || !key || response.status !== 200 || !response.body) {
+    return;
+  }
+
+  await cache.put(key, response);
+}
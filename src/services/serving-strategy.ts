@@ -0,0 +1,65 @@
+import type { Env } from "@/types/env";
+import type { ProjectSettings, ServingStrategy } from "@/types/project";
+import { getSidecarKey } from "@/services/zip/central-directory-sidecar";
+
+const STRATEGIES: readonly ServingStrategy[] = [
+  "zip",
+  "exploded",
+  "zip-then-exploded",
+];
+
+/**
+ * Validate a serving strategy from config or Firestore
+ */
+export function parseServingStrategy(
+  value: string | null | undefined,
+): ServingStrategy | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return STRATEGIES.find((strategy) => strategy === normalized);
+}
+
+/**
+ * Pick the serving strategy for a request.
+ *
+ * `ZIP_EXTRACTION_ENABLED=false` is a deployment-wide kill switch that
+ * forces exploded serving. Otherwise the project setting wins over the
+ * deployment default (`SERVING_STRATEGY`, falling back to `zip`).
+ */
+export function resolveServingStrategy(
+  env: Env,
+  settings?: ProjectSettings,
+): ServingStrategy {
+  if (env.ZIP_EXTRACTION_ENABLED?.trim().toLowerCase() === "false") {
+    return "exploded";
+  }
+
+  return (
+    settings?.servingStrategy ??
+    parseServingStrategy(env.SERVING_STRATEGY) ??
+    "zip"
+  );
+}
+
+/**
+ * Object key prefix for the exploded build that sits next to an archive:
+ *   {project}/{version}/storybook.zip -> {project}/{version}/
+ *   {uuid}.zip                        -> {uuid}/
+ */
+export function getExplodedPrefix(zipKey: string): string {
+  if (zipKey.endsWith("/storybook.zip")) {
+    return zipKey.slice(0, -"storybook.zip".length);
+  }
+  return zipKey.replace(/\.zip$/, "") + "/";
+}
+
+/**
+ * Keys that may sit under the exploded prefix but are not part of the
+ * build: the archive itself and its central directory sidecars
+ */
+export function getInternalObjectKeys(zipKey: string): string[] {
+  return [
+    zipKey,
+    getSidecarKey(zipKey, "json"),
+    getSidecarKey(zipKey, "binary"),
+  ];
+}
@@ -1,61 +1,104 @@
 import type { Env } from "@/types/env";
+import type { CacheAdapter } from "@/adapters/cache/interface";
+import { getKvCacheAdapter } from "@/adapters/cache/factory";
+import type { ProjectSettings } from "@/types/project";
 import {
-  getFirestoreAccessToken,
-  isServiceAccountConfigured,
-} from "@/services/firestore-auth";
+  fetchFirestoreDocument,
+  getCachedDocument,
+  parseStringArray,
+  type FirestoreStringArray,
+} from "@/services/firestore-documents";
+import {
+  getProjectSettings,
+  parseProjectSettings,
+  type ProjectSettingsFields,
+} from "@/services/project-settings";
 
 export type ProjectVisibility = "public" | "private";
 
-interface VisibilityCache {
+export interface ProjectAccess extends ProjectSettings {
   visibility: ProjectVisibility;
   memberIds: string[];
-  cachedAt: number;
+  /** Per-version overrides of `visibility`, keyed by version id */
+  versionVisibility?: Record<string, ProjectVisibility>;
+  /** Organization whose members may view the project */
+  orgId?: string;
+  /** Teams whose members may view the project */
+  teamIds?: string[];
+  /** Domains whose verified emails may view the project */
+  allowedEmailDomains?: string[];
+}
+
+export interface VisibilityOptions {
+  /** Cache for project entries; defaults to the KV binding */
+  cache?: CacheAdapter;
+  /**
+   * Runs a stale entry's refresh after the response is sent (e.g. through
+   * runInBackground). Without it stale entries are refreshed inline.
+   */
+  background?: (task: Promise<unknown>) => void;
 }
 
 const CACHE_TTL_MS = 60 * 1000;
-const KV_EXPIRATION_TTL = 300;
+const DEFAULT_MAX_STALE_SECONDS = 3600;
+
+/**
+ * How long past CACHE_TTL_MS a cached entry may still be served, in
+ * seconds: `VISIBILITY_MAX_STALE_SECONDS` (default 3600, 0 disables)
+ */
+export function resolveMaxStaleSeconds(env: Env): number {
+  const value = Number.parseInt(env.VISIBILITY_MAX_STALE_SECONDS ?? "", 10);
+  return Number.isNaN(value) || value < 0 ? DEFAULT_MAX_STALE_SECONDS : value;
+}
+
+function toProjectAccess(cached: ProjectAccess): ProjectAccess {
+  const project: ProjectAccess = {
+    visibility: cached.visibility,
+    memberIds: cached.memberIds,
+    ...getProjectSettings(cached),
+  };
+  if (cached.versionVisibility) {
+    project.versionVisibility = cached.versionVisibility;
+  }
+  if (cached.orgId) project.orgId = cached.orgId;
+  if (cached.teamIds?.length) project.teamIds = cached.teamIds;
+  if (cached.allowedEmailDomains?.length) {
+    project.allowedEmailDomains = cached.allowedEmailDomains;
+  }
+  return project;
+}
 
+/**
+ * Look up a project's visibility, members and settings.
+ *
+ * Entries are cached (including Firestore 404s). Fresh entries are
+ * served for CACHE_TTL_MS; after that they are served stale while a
+ * refresh runs in the background, for up to the configured maximum
+ * staleness. When Firestore fails, a stale entry is served rather than
+ * failing closed; only with nothing usable cached is access denied. A
+ * cached 404 is never served stale, since a project without a document is
+ * not restricted.
+ */
 export async function getProjectVisibility(
   projectId: string,
   env: Env,
-): Promise<{ visibility: ProjectVisibility; memberIds: string[] } | null> {
-  const cacheKey = `visibility:${projectId}`;
-
-  if (env.CDN_CACHE) {
-    const cached = (await env.CDN_CACHE.get(
-      cacheKey,
-      "json",
-    )) as VisibilityCache | null;
-
-    if (cached && Date.now() - cached.cachedAt < CACHE_TTL_MS) {
-      return {
-        visibility: cached.visibility,
-        memberIds: cached.memberIds,
-      };
-    }
-  }
+  options: VisibilityOptions = {},
+): Promise<ProjectAccess | null> {
+  const cache = options.cache ?? getKvCacheAdapter(env);
 
   try {
-    const result = await fetchProjectFromFirestore(projectId, env);
-
-    if (!result) {
-      return null;
-    }
-
-    if (env.CDN_CACHE) {
-      const cacheValue: VisibilityCache = {
-        visibility: result.visibility,
-        memberIds: result.memberIds,
-        cachedAt: Date.now(),
-      };
-
-      await env.CDN_CACHE.put(cacheKey, JSON.stringify(cacheValue), {
-        // KV TTL intentionally longer than CACHE_TTL_MS for stale-while-revalidate fallback.
-        expirationTtl: KV_EXPIRATION_TTL,
-      });
-    }
-
-    return result;
+    const project = await getCachedDocument(
+      `visibility:${projectId}`,
+      () => fetchProjectFromFirestore(projectId, env, cache),
+      {
+        cache,
+        background: options.background,
+        ttlMs: CACHE_TTL_MS,
+        maxStaleMs: resolveMaxStaleSeconds(env) * 1000,
+        label: "VISIBILITY",
+      },
+    );
+    return project && toProjectAccess(project);
   } catch (error) {
     console.error("[VISIBILITY] Failed to fetch project:", error);
     return { visibility: "private", memberIds: [] };
@@ -65,62 +108,20 @@ export async function getProjectVisibility(
 async function fetchProjectFromFirestore(
   projectId: string,
   env: Env,
-): Promise<{ visibility: ProjectVisibility; memberIds: string[] } | null> {
-  const firebaseProjectId = env.FIREBASE_PROJECT_ID;
-
-  if (!firebaseProjectId) {
-    console.error("[VISIBILITY] FIREBASE_PROJECT_ID not configured");
+  cache: CacheAdapter | undefined,
+): Promise<ProjectAccess | null> {
+  console.info("[VISIBILITY] Fetching project from Firestore:", projectId);
+
+  const doc = await fetchFirestoreDocument<FirestoreProjectFields>(
+    `projects/${projectId}`,
+    env,
+    cache,
+  );
+  if (!doc) {
+    console.info("[VISIBILITY] Project not found in Firestore:", projectId);
     return null;
   }
 
-  const url = `https://firestore.googleapis.com/v1/projects/${firebaseProjectId}/databases/(default)/documents/projects/${projectId}`;
-
-  console.info("[VISIBILITY] Fetching project from Firestore:", {
-    projectId,
-    firebaseProjectId,
-    url,
-  });
-
-  // Build request headers - use service account auth if configured
-  const headers: Record<string, string> = {};
-
-  if (isServiceAccountConfigured(env)) {
-    const accessToken = await getFirestoreAccessToken(env);
-
-    if (!accessToken) {
-      console.error(
-        "[VISIBILITY] Service account configured but failed to get access token",
-      );
-      throw new Error("Failed to authenticate with Firestore");
-    }
-
-    headers["Authorization"] = `Bearer ${accessToken}`;
-    console.info("[VISIBILITY] Using service account authentication");
-  } else {
-    console.info(
-      "[VISIBILITY] Using unauthenticated Firestore access (requires public rules)",
-    );
-  }
-
-  const response = await fetch(url, { headers });
-
-  console.info("[VISIBILITY] Firestore response status:", response.status);
-
-  if (!response.ok) {
-    if (response.status === 404) {
-      console.info("[VISIBILITY] Project not found in Firestore:", projectId);
-      return null;
-    }
-    const errorText = await response.text();
-    console.error("[VISIBILITY] Firestore request failed:", {
-      status: response.status,
-      error: errorText,
-    });
-    throw new Error(`Firestore request failed: ${response.status}`);
-  }
-
-  const doc = (await response.json()) as FirestoreDocument;
-
   console.info("[VISIBILITY] Raw Firestore document fields:", {
     hasVisibility: !!doc.fields?.visibility,
     hasMemberIds: !!doc.fields?.memberIds,
@@ -130,25 +131,79 @@ async function fetchProjectFromFirestore(
 
   const visibility =
     (doc.fields?.visibility?.stringValue as ProjectVisibility) || "public";
-  const memberIds =
-    doc.fields?.memberIds?.arrayValue?.values?.map(
-      (value: { stringValue: string }) => value.stringValue,
-    ) || [];
+  const memberIds = parseStringArray(doc.fields?.memberIds);
+
+  const orgId = doc.fields?.orgId?.stringValue;
+  const teamIds = parseStringArray(doc.fields?.teamIds);
+  const allowedEmailDomains = parseStringArray(doc.fields?.allowedEmailDomains);
+
+  const settings = parseProjectSettings(doc.fields);
+  const versionVisibility = parseVersionVisibility(
+    doc.fields?.versionVisibility?.mapValue?.fields,
+  );
 
   console.info("[VISIBILITY] Parsed project data:", {
     projectId,
     visibility,
     memberIds,
+    versionVisibility,
+    orgId,
+    teamIds,
+    allowedEmailDomains,
+    ...settings,
   });
 
-  return { visibility, memberIds };
+  return {
+    visibility,
+    memberIds,
+    ...(versionVisibility && { versionVisibility }),
+    ...(orgId && { orgId }),
+    ...(teamIds.length > 0 && { teamIds }),
+    ...(allowedEmailDomains.length > 0 && { allowedEmailDomains }),
+    ...settings,
+  };
 }
 
-interface FirestoreDocument {
-  fields?: {
-    visibility?: { stringValue: string };
-    memberIds?: { arrayValue: { values: Array<{ stringValue: string }> } };
+type FirestoreProjectFields = ProjectSettingsFields & {
+  visibility?: { stringValue: string };
+  memberIds?: FirestoreStringArray;
+  versionVisibility?: {
+    mapValue: { fields?: Record<string, { stringValue?: string }> };
   };
+  orgId?: { stringValue: string };
+  teamIds?: FirestoreStringArray;
+  allowedEmailDomains?: FirestoreStringArray;
+};
+
+/**
+ * Read the `versionVisibility` map field, dropping values other than
+ * "public" and "private"; undefined when no version is overridden
+ */
+function parseVersionVisibility(
+  fields: Record<string, { stringValue?: string }> | undefined,
+): Record<string, ProjectVisibility> | undefined {
+  const overrides: Record<string, ProjectVisibility> = {};
+
+  for (const [versionId, value] of Object.entries(fields ?? {})) {
+    if (value.stringValue === "public" || value.stringValue === "private") {
+      overrides[versionId] = value.stringValue;
+    }
+  }
+
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+}
+
+/**
+ * Visibility of one version of a project: its override if it has one,
+ * otherwise the project's. `versionId` is "" for unversioned paths.
+ */
+export function resolveVersionVisibility(
+  project: ProjectAccess,
+  versionId: string,
+): ProjectVisibility {
+  return (
+    (versionId && project.versionVisibility?.[versionId]) || project.visibility
+  );
 }
 
 export function isProjectMember(memberIds: string[], uid: string): boolean {
@@ -0,0 +1,114 @@
+import type { ZipCentralDirectory } from "@/types/zip";
+import { LruCache } from "@/utils/lru-cache";
+import { ZipArchiveChangedError } from "./errors";
+
+/**
+ * Guard against serving a re-uploaded archive with a stale central
+ * directory.
+ *
+ * Every range read of an entry returns the archive's current R2 etag and
+ * size at no extra cost. Reads through a pinned bucket compare them with
+ * the values recorded in the directory and throw ZipArchiveChangedError
+ * on a mismatch, before any bytes reach the client.
+ *
+ * Responses built without reading entry bytes (304, HEAD, response cache
+ * hits) check the archive with a HEAD instead, remembered per isolate for
+ * a few seconds.
+ */
+
+export interface ArchiveVersion {
+  /** R2 etag the directory was read from; absent for older cache entries */
+  etag?: string;
+  /** Archive size the directory was read from */
+  size: number;
+}
+
+interface ObjectVersion {
+  etag?: string;
+  size?: number;
+}
+
+interface RangeReadableBucket {
+  get(key: string, options?: unknown): Promise<ObjectVersion | null>;
+}
+
+interface HeadableBucket {
+  head(key: string): Promise<ObjectVersion | null>;
+}
+
+/** Archive versions seen by HEAD, per isolate */
+export type ArchiveVersionCache = LruCache<ObjectVersion>;
+
+export function createArchiveVersionCache(): ArchiveVersionCache {
+  return new LruCache<ObjectVersion>({ maxEntries: 100, ttlMs: 5_000 });
+}
+
+/**
+ * Current etag and size of an archive, from `cache` when it was HEADed in
+ * the last few seconds. Null when the archive is missing.
+ */
+export async function getCurrentArchiveVersion(
+  bucket: HeadableBucket,
+  zipKey: string,
+  cache?: ArchiveVersionCache,
+): Promise<ObjectVersion | null> {
+  const cached = cache?.get(zipKey);
+  if (cached) {
+    return cached;
+  }
+
+  const object = await bucket.head(zipKey);
+  if (!object) {
+    return null;
+  }
+
+  const version = { etag: object.etag, size: object.size };
+  cache?.set(zipKey, version);
+  return version;
+}
+
+export function getArchiveVersion(
+  centralDir: ZipCentralDirectory,
+): ArchiveVersion {
+  return { etag: centralDir.etag, size: centralDir.totalSize };
+}
+
+/**
+ * Whether an R2 object is the archive version a directory describes.
+ * Directories cached before etags were recorded fall back to the size.
+ */
+export function matchesArchiveVersion(
+  object: ObjectVersion,
+  version: ArchiveVersion,
+): boolean {
+  if (version.etag && object.etag) {
+    return object.etag === version.etag;
+  }
+  return object.size === undefined || object.size === version.size;
+}
+
+/**
+ * Wrap a bucket so reads fail fast when the archive no longer matches
+ * `version`
+ */
+export function pinArchiveVersion<B extends RangeReadableBucket>(
+  bucket: B,
+  zipKey: string,
+  version: ArchiveVersion,
+): B {
+  // Only `get` is overridden; everything else resolves to the bucket
+  const pinned = Object.create(bucket) as B;
+  pinned.get = async (key: string, options?: unknown) => {
+    const object = await bucket.get(key, options);
+
+    if (object && key === zipKey && !matchesArchiveVersion(object, version)) {
+      throw new ZipArchiveChangedError(
+        `ZIP changed since its central directory was read: ${zipKey}`,
+        object.etag,
+      );
+    }
+
+    return object;
+  };
+  return pinned;
+}
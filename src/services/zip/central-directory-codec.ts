@@ -0,0 +1,310 @@
+import type { Env } from "@/types/env";
+import type { ZipCentralDirectory, ZipFileEntry } from "@/types/zip";
+
+/**
+ * Compact binary serialization of a ZipCentralDirectory for KV.
+ *
+ * JSON repeats every field name for every entry and has to be parsed in
+ * full before a single lookup. The binary form stores entry names once in
+ * a sorted string table and the numeric fields as packed columns, so
+ * decoding is a constant-time wrap of the buffer and each lookup is a
+ * binary search over the names.
+ *
+ * Layout (little endian), format version 1:
+ *
+ *   magic "ZCD" + version byte                       4 bytes
+ *   entry count (u32), metadata length (u32),
+ *   names length (u32)                               12 bytes
+ *   metadata: UTF-8 JSON (totalSize, cachedAt, etag, comment,
+ *             per-entry comments)
+ *   name offsets: u32 x (count + 1), into the names blob
+ *   names blob: UTF-8 names sorted by byte order
+ *   columns, count values each:
+ *     offset, size, compressedSize, lastModified (f64; NaN = unset)
+ *     crc32, externalAttributes (u32)
+ *     compressionMethod, flags (u16)
+ *     presence bits (u8: lastModified, flags, externalAttributes)
+ */
+
+export type CentralDirectoryEncoding = "json" | "binary";
+
+export const BINARY_FORMAT_VERSION = 1;
+
+const MAGIC = [0x5a, 0x43, 0x44]; // "ZCD"
+const HEADER_LENGTH = 16;
+
+const HAS_LAST_MODIFIED = 1;
+const HAS_FLAGS = 2;
+const HAS_EXTERNAL_ATTRIBUTES = 4;
+
+interface BinaryMetadata {
+  totalSize: number;
+  cachedAt: string;
+  etag?: string;
+  comment?: string;
+  /** Entry comments by name; rare enough not to need a column */
+  comments?: Record<string, string>;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Encoding for newly cached directories: `ZIP_CD_ENCODING=binary`, else JSON
+ */
+export function resolveCentralDirectoryEncoding(
+  env: Env,
+): CentralDirectoryEncoding {
+  return env.ZIP_CD_ENCODING?.trim().toLowerCase() === "binary"
+    ? "binary"
+    : "json";
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Whether a KV value is in the binary format (rather than legacy JSON)
+ */
+export function isBinaryCentralDirectory(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= HEADER_LENGTH &&
+    bytes[0] === MAGIC[0] &&
+    bytes[1] === MAGIC[1] &&
+    bytes[2] === MAGIC[2]
+  );
+}
+
+export function encodeCentralDirectory(
+  centralDir: ZipCentralDirectory,
+): Uint8Array {
+  const names = Object.keys(centralDir.entries)
+    .map((name) => ({ name, bytes: encoder.encode(name) }))
+    .sort((a, b) => compareBytes(a.bytes, b.bytes));
+  const count = names.length;
+
+  const metadata: BinaryMetadata = {
+    totalSize: centralDir.totalSize,
+    cachedAt: centralDir.cachedAt,
+  };
+  if (centralDir.etag) metadata.etag = centralDir.etag;
+  if (centralDir.comment) metadata.comment = centralDir.comment;
+
+  const comments: Record<string, string> = {};
+  for (const { name } of names) {
+    const comment = centralDir.entries[name].comment;
+    if (comment) comments[name] = comment;
+  }
+  if (Object.keys(comments).length > 0) metadata.comments = comments;
+
+  const metadataBytes = encoder.encode(JSON.stringify(metadata));
+  const namesLength = names.reduce((sum, { bytes }) => sum + bytes.length, 0);
+
+  const layout = getLayout(count, metadataBytes.length, namesLength);
+  const buffer = new Uint8Array(layout.totalLength);
+  const view = new DataView(buffer.buffer);
+
+  buffer.set(MAGIC, 0);
+  buffer[3] = BINARY_FORMAT_VERSION;
+  view.setUint32(4, count, true);
+  view.setUint32(8, metadataBytes.length, true);
+  view.setUint32(12, namesLength, true);
+  buffer.set(metadataBytes, HEADER_LENGTH);
+
+  let nameOffset = 0;
+  names.forEach(({ name, bytes }, i) => {
+    view.setUint32(layout.nameOffsets + i * 4, nameOffset, true);
+    buffer.set(bytes, layout.names + nameOffset);
+    nameOffset += bytes.length;
+
+    const entry = centralDir.entries[name];
+    let presence = 0;
+    if (entry.lastModified !== undefined) presence |= HAS_LAST_MODIFIED;
+    if (entry.flags !== undefined) presence |= HAS_FLAGS;
+    if (entry.externalAttributes !== undefined)
+      presence |= HAS_EXTERNAL_ATTRIBUTES;
+
+    view.setFloat64(layout.offsets + i * 8, entry.offset, true);
+    view.setFloat64(layout.sizes + i * 8, entry.size, true);
+    view.setFloat64(layout.compressedSizes + i * 8, entry.compressedSize, true);
+    view.setFloat64(
+      layout.lastModified + i * 8,
+      entry.lastModified ?? Number.NaN,
+      true,
+    );
+    view.setUint32(layout.crc32 + i * 4, entry.crc32 >>> 0, true);
+    view.setUint32(
+      layout.externalAttributes + i * 4,
+      (entry.externalAttributes ?? 0) >>> 0,
+      true,
+    );
+    view.setUint16(layout.methods + i * 2, entry.compressionMethod, true);
+    view.setUint16(layout.flags + i * 2, entry.flags ?? 0, true);
+    buffer[layout.presence + i] = presence;
+  });
+  view.setUint32(layout.nameOffsets + count * 4, nameOffset, true);
+
+  return buffer;
+}
+
+function getLayout(count: number, metadataLength: number, namesLength: number) {
+  const nameOffsets = HEADER_LENGTH + metadataLength;
+  const names = nameOffsets + (count + 1) * 4;
+  const offsets = names + namesLength;
+  const sizes = offsets + count * 8;
+  const compressedSizes = sizes + count * 8;
+  const lastModified = compressedSizes + count * 8;
+  const crc32 = lastModified + count * 8;
+  const externalAttributes = crc32 + count * 4;
+  const methods = externalAttributes + count * 4;
+  const flags = methods + count * 2;
+  const presence = flags + count * 2;
+
+  return {
+    nameOffsets,
+    names,
+    offsets,
+    sizes,
+    compressedSizes,
+    lastModified,
+    crc32,
+    externalAttributes,
+    methods,
+    flags,
+    presence,
+    totalLength: presence + count,
+  };
+}
+
+/**
+ * Wrap a binary directory without decoding its entries.
+ *
+ * `entries` behaves like the plain record of the JSON form, but looking a
+ * name up binary-searches the string table and only that entry is decoded
+ * (and memoized when found). Enumerating the keys decodes the names once.
+ */
+export function decodeCentralDirectory(bytes: Uint8Array): ZipCentralDirectory {
+  if (!isBinaryCentralDirectory(bytes)) {
+    throw new Error("Not a binary central directory");
+  }
+  if (bytes[3] !== BINARY_FORMAT_VERSION) {
+    throw new Error(`Unsupported central directory format version ${bytes[3]}`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const count = view.getUint32(4, true);
+  const metadataLength = view.getUint32(8, true);
+  const namesLength = view.getUint32(12, true);
+  const layout = getLayout(count, metadataLength, namesLength);
+
+  if (layout.totalLength > bytes.length) {
+    throw new Error("Truncated binary central directory");
+  }
+
+  const metadata = JSON.parse(
+    decoder.decode(
+      bytes.subarray(HEADER_LENGTH, HEADER_LENGTH + metadataLength),
+    ),
+  ) as BinaryMetadata;
+
+  const nameBytes = (i: number) =>
+    bytes.subarray(
+      layout.names + view.getUint32(layout.nameOffsets + i * 4, true),
+      layout.names + view.getUint32(layout.nameOffsets + (i + 1) * 4, true),
+    );
+
+  const findIndex = (name: string): number => {
+    const target = encoder.encode(name);
+    let low = 0;
+    let high = count - 1;
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      const order = compareBytes(nameBytes(mid), target);
+      if (order === 0) return mid;
+      if (order < 0) low = mid + 1;
+      else high = mid - 1;
+    }
+    return -1;
+  };
+
+  const readEntry = (i: number, name: string): ZipFileEntry => {
+    const presence = bytes[layout.presence + i];
+    const entry: ZipFileEntry = {
+      name,
+      size: view.getFloat64(layout.sizes + i * 8, true),
+      compressedSize: view.getFloat64(layout.compressedSizes + i * 8, true),
+      offset: view.getFloat64(layout.offsets + i * 8, true),
+      crc32: view.getUint32(layout.crc32 + i * 4, true),
+      compressionMethod: view.getUint16(layout.methods + i * 2, true),
+    };
+    if (presence & HAS_LAST_MODIFIED) {
+      entry.lastModified = view.getFloat64(layout.lastModified + i * 8, true);
+    }
+    if (presence & HAS_FLAGS) {
+      entry.flags = view.getUint16(layout.flags + i * 2, true);
+    }
+    if (presence & HAS_EXTERNAL_ATTRIBUTES) {
+      entry.externalAttributes = view.getUint32(
+        layout.externalAttributes + i * 4,
+        true,
+      );
+    }
+    const comment = metadata.comments?.[name];
+    if (comment) {
+      entry.comment = comment;
+    }
+    return entry;
+  };
+
+  // Only hits are memoized: misses come from arbitrary request paths and
+  // would grow without bound while the directory stays cached
+  const decoded = new Map<string, ZipFileEntry>();
+  const lookup = (name: string): ZipFileEntry | undefined => {
+    const cached = decoded.get(name);
+    if (cached) return cached;
+
+    const index = findIndex(name);
+    if (index === -1) return undefined;
+
+    const entry = readEntry(index, name);
+    decoded.set(name, entry);
+    return entry;
+  };
+
+  let allNames: string[] | undefined;
+  const names = () =>
+    (allNames ??= Array.from({ length: count }, (_, i) =>
+      decoder.decode(nameBytes(i)),
+    ));
+
+  const entries = new Proxy({} as Record<string, ZipFileEntry>, {
+    get: (_target, property) =>
+      typeof property === "string" ? lookup(property) : undefined,
+    has: (_target, property) =>
+      typeof property === "string" && lookup(property) !== undefined,
+    ownKeys: () => names(),
+    getOwnPropertyDescriptor: (_target, property) => {
+      const value = typeof property === "string" ? lookup(property) : undefined;
+      return value === undefined
+        ? undefined
+        : { value, enumerable: true, configurable: true, writable: false };
+    },
+  });
+
+  const centralDir: ZipCentralDirectory = {
+    entries,
+    totalSize: metadata.totalSize,
+    cachedAt: metadata.cachedAt,
+  };
+  if (metadata.etag) centralDir.etag = metadata.etag;
+  if (metadata.comment) centralDir.comment = metadata.comment;
+
+  return centralDir;
+}
@@ -0,0 +1,350 @@
+import type { ZipFileEntry, ZipRangeReader } from "@/types/zip";
+import { dosDateTimeToTimestamp } from "@/utils/zip-utils";
+import { ZipFormatError, ZipUnsupportedError } from "./errors";
+import { checkEntryCount, type ZipLimits } from "./limits";
+import {
+  parseExtraFields,
+  readUint64LE,
+  resolveZip64Values,
+  ZIP32_SENTINEL,
+} from "./zip64";
+
+/**
+ * Minimal ZIP central directory parser (APPNOTE 4.3.12 - 4.3.16).
+ *
+ * Locates the end of central directory record with a single read of the
+ * archive tail, follows the ZIP64 locator when present, then decodes every
+ * central directory record. Only what serving needs is implemented: no
+ * multi-disk archives, no encryption. Any structural problem is reported as
+ * a `ZipFormatError`; errors from the reader itself are passed through.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_LENGTH = 22;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_LOCATOR_LENGTH = 20;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_EOCD_LENGTH = 56;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const CENTRAL_HEADER_LENGTH = 46;
+const LOCAL_HEADER_LENGTH = 30;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+// EOCD + longest possible archive comment + the ZIP64 locator before it
+const TAIL_READ_LENGTH =
+  EOCD_LENGTH + MAX_COMMENT_LENGTH + ZIP64_LOCATOR_LENGTH;
+
+// General purpose bit flags (APPNOTE 4.4.4)
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_STRONG_ENCRYPTION = 0x0040;
+
+export interface ParseOptions {
+  /** Reject archives over `maxEntries` before reading the directory */
+  limits?: ZipLimits;
+}
+
+export interface ParsedCentralDirectory {
+  entries: ZipFileEntry[];
+  /** Archive comment from the EOCD record */
+  comment: string;
+  /** Total archive size in bytes */
+  totalSize: number;
+}
+
+interface DirectoryLocation {
+  entryCount: number;
+  size: number;
+  offset: number;
+  comment: string;
+}
+
+const utf8 = new TextDecoder("utf-8");
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Decode a name or comment; bytes without the UTF-8 flag are CP437 in the
+ * spec, but in practice every zipper we see writes ASCII or UTF-8 there
+ */
+function decodeText(bytes: Uint8Array): string {
+  return utf8.decode(bytes);
+}
+
+/**
+ * Find the EOCD record in the archive tail, scanning backwards so a
+ * signature inside the comment is not mistaken for the record
+ */
+function findEocd(tail: Uint8Array): number {
+  const data = view(tail);
+
+  for (let i = tail.length - EOCD_LENGTH; i >= 0; i--) {
+    if (data.getUint32(i, true) !== EOCD_SIGNATURE) continue;
+
+    const commentLength = data.getUint16(i + 20, true);
+    if (i + EOCD_LENGTH + commentLength <= tail.length) {
+      return i;
+    }
+  }
+
+  throw new ZipFormatError("End of central directory record not found");
+}
+
+/**
+ * Read the ZIP64 end of central directory record the locator points at.
+ * It usually sits inside the tail we already have.
+ */
+async function readZip64Location(
+  reader: ZipRangeReader,
+  tail: Uint8Array,
+  tailOffset: number,
+  locatorIndex: number,
+  comment: string,
+): Promise<DirectoryLocation> {
+  const locator = view(tail.subarray(locatorIndex));
+  if (locator.getUint32(16, true) !== 1) {
+    throw new ZipUnsupportedError(
+      "Multi-disk ZIP64 archives are not supported",
+    );
+  }
+
+  const recordOffset = readUint64LE(tail, locatorIndex + 8);
+  if (recordOffset + ZIP64_EOCD_LENGTH > tailOffset + locatorIndex) {
+    throw new ZipFormatError(
+      "ZIP64 end of central directory offset out of range",
+    );
+  }
+
+  const record =
+    recordOffset >= tailOffset
+      ? tail.subarray(
+          recordOffset - tailOffset,
+          recordOffset - tailOffset + ZIP64_EOCD_LENGTH,
+        )
+      : await reader.read(recordOffset, ZIP64_EOCD_LENGTH);
+
+  if (
+    record.length < ZIP64_EOCD_LENGTH ||
+    view(record).getUint32(0, true) !== ZIP64_EOCD_SIGNATURE
+  ) {
+    throw new ZipFormatError("Invalid ZIP64 end of central directory record");
+  }
+
+  return {
+    entryCount: readUint64LE(record, 32),
+    size: readUint64LE(record, 40),
+    offset: readUint64LE(record, 48),
+    comment,
+  };
+}
+
+/**
+ * Locate the central directory from the EOCD (and ZIP64 EOCD if needed)
+ */
+async function locateCentralDirectory(
+  reader: ZipRangeReader,
+  tail: Uint8Array,
+  tailOffset: number,
+): Promise<DirectoryLocation> {
+  const index = findEocd(tail);
+  const eocd = view(tail.subarray(index));
+
+  const diskNumber = eocd.getUint16(4, true);
+  const directoryDisk = eocd.getUint16(6, true);
+  const entriesOnDisk = eocd.getUint16(8, true);
+  const entryCount = eocd.getUint16(10, true);
+  const size = eocd.getUint32(12, true);
+  const offset = eocd.getUint32(16, true);
+  const commentLength = eocd.getUint16(20, true);
+  const comment = decodeText(
+    tail.subarray(index + EOCD_LENGTH, index + EOCD_LENGTH + commentLength),
+  );
+
+  const locatorIndex = index - ZIP64_LOCATOR_LENGTH;
+  if (
+    locatorIndex >= 0 &&
+    view(tail).getUint32(locatorIndex, true) === ZIP64_LOCATOR_SIGNATURE
+  ) {
+    return readZip64Location(reader, tail, tailOffset, locatorIndex, comment);
+  }
+
+  if (
+    entryCount === 0xffff ||
+    size === ZIP32_SENTINEL ||
+    offset === ZIP32_SENTINEL
+  ) {
+    throw new ZipFormatError(
+      "ZIP64 end of central directory locator not found",
+    );
+  }
+
+  if (diskNumber !== 0 || directoryDisk !== 0 || entriesOnDisk !== entryCount) {
+    throw new ZipUnsupportedError("Multi-disk archives are not supported");
+  }
+
+  return { entryCount, size, offset, comment };
+}
+
+/**
+ * Decode all central directory records
+ */
+function parseRecords(
+  directory: Uint8Array,
+  location: DirectoryLocation,
+  totalSize: number,
+): ZipFileEntry[] {
+  const data = view(directory);
+  const entries: ZipFileEntry[] = [];
+  let position = 0;
+
+  for (let i = 0; i < location.entryCount; i++) {
+    if (position + CENTRAL_HEADER_LENGTH > directory.length) {
+      throw new ZipFormatError(
+        `Central directory truncated at entry ${i} of ${location.entryCount}`,
+      );
+    }
+    if (data.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError(
+        `Invalid central directory record signature at entry ${i}`,
+      );
+    }
+
+    const flags = data.getUint16(position + 8, true);
+    const compressionMethod = data.getUint16(position + 10, true);
+    const time = data.getUint16(position + 12, true);
+    const date = data.getUint16(position + 14, true);
+    const crc32 = data.getUint32(position + 16, true);
+    const compressedSize32 = data.getUint32(position + 20, true);
+    const size32 = data.getUint32(position + 24, true);
+    const nameLength = data.getUint16(position + 28, true);
+    const extraLength = data.getUint16(position + 30, true);
+    const commentLength = data.getUint16(position + 32, true);
+    const externalAttributes = data.getUint32(position + 38, true);
+    const offset32 = data.getUint32(position + 42, true);
+
+    const nameStart = position + CENTRAL_HEADER_LENGTH;
+    const extraStart = nameStart + nameLength;
+    const commentStart = extraStart + extraLength;
+    const recordEnd = commentStart + commentLength;
+
+    if (recordEnd > directory.length) {
+      throw new ZipFormatError(
+        `Central directory record ${i} overruns the directory`,
+      );
+    }
+
+    const name = decodeText(directory.subarray(nameStart, extraStart));
+    if (!name) {
+      throw new ZipFormatError(
+        `Central directory record ${i} has an empty name`,
+      );
+    }
+
+    if (flags & (FLAG_ENCRYPTED | FLAG_STRONG_ENCRYPTION)) {
+      throw new ZipUnsupportedError(
+        `Encrypted entries are not supported: ${name}`,
+      );
+    }
+
+    const { size, compressedSize, offset } = resolveZip64Values(
+      { size: size32, compressedSize: compressedSize32, offset: offset32 },
+      parseExtraFields(directory.subarray(extraStart, commentStart)),
+      name,
+    );
+
+    // The local header (30 bytes minimum) and the data must lie before the
+    // central directory
+    if (offset + LOCAL_HEADER_LENGTH + compressedSize > totalSize) {
+      throw new ZipFormatError(
+        `Entry ${name} extends past the end of the archive`,
+      );
+    }
+
+    if (compressionMethod === 0 && compressedSize !== size) {
+      throw new ZipFormatError(
+        `Stored entry ${name} has compressed size ${compressedSize} != size ${size}`,
+      );
+    }
+
+    const comment = decodeText(directory.subarray(commentStart, recordEnd));
+
+    entries.push({
+      name,
+      size,
+      compressedSize,
+      offset,
+      crc32,
+      compressionMethod,
+      lastModified: dosDateTimeToTimestamp(date, time),
+      flags,
+      externalAttributes,
+      ...(comment ? { comment } : {}),
+    });
+
+    position = recordEnd;
+  }
+
+  return entries;
+}
+
+/**
+ * Parse the central directory of the archive behind a range reader
+ */
+export async function parseCentralDirectory(
+  reader: ZipRangeReader,
+  options: ParseOptions = {},
+): Promise<ParsedCentralDirectory> {
+  const totalSize = await reader.getLength();
+  if (totalSize < EOCD_LENGTH) {
+    throw new ZipFormatError(`Archive too small: ${totalSize} bytes`);
+  }
+
+  const tailLength = Math.min(totalSize, TAIL_READ_LENGTH);
+  const tailOffset = totalSize - tailLength;
+  const tail = await reader.read(tailOffset, tailLength);
+  if (tail.length !== tailLength) {
+    throw new ZipFormatError("Short read of the archive tail");
+  }
+
+  const location = await locateCentralDirectory(reader, tail, tailOffset);
+
+  if (location.offset + location.size > totalSize) {
+    throw new ZipFormatError(
+      "Central directory extends past the end of the archive",
+    );
+  }
+
+  // Every record is at least 46 bytes; reject counts the directory cannot hold
+  if (location.entryCount * CENTRAL_HEADER_LENGTH > location.size) {
+    throw new ZipFormatError(
+      `Central directory of ${location.size} bytes cannot hold ${location.entryCount} entries`,
+    );
+  }
+
+  if (options.limits) {
+    checkEntryCount(location.entryCount, options.limits);
+  }
+
+  let directory: Uint8Array;
+  if (location.size === 0) {
+    directory = new Uint8Array(0);
+  } else if (location.offset >= tailOffset) {
+    // Small archives: the directory is already in the tail
+    directory = tail.subarray(
+      location.offset - tailOffset,
+      location.offset - tailOffset + location.size,
+    );
+  } else {
+    directory = await reader.read(location.offset, location.size);
+    if (directory.length !== location.size) {
+      throw new ZipFormatError("Short read of the central directory");
+    }
+  }
+
+  return {
+    entries: parseRecords(directory, location, totalSize),
+    comment: location.comment,
+    totalSize,
+  };
+}
@@ -0,0 +1,152 @@
+import type { ZipCentralDirectory, ZipFileEntry } from "@/types/zip";
+
+/**
+ * Sharded KV storage for central directories too large for one value.
+ *
+ * Entries are spread over `count` shards by a hash of their full path, and
+ * a small manifest is stored under the directory's usual key. A lookup only
+ * fetches the shards that can hold the paths it asks for. Shard keys carry
+ * a per-write generation, so a reader never mixes shards of two writes;
+ * shards of replaced manifests are left to expire with their TTL.
+ */
+
+/** Workers KV rejects values over 25 MiB */
+export const KV_VALUE_LIMIT_BYTES = 25 * 1024 * 1024;
+
+export interface CentralDirectoryManifest {
+  shards: {
+    count: number;
+    /** Distinguishes the shards of one write from those of another */
+    generation: string;
+    entryCount: number;
+  };
+  totalSize: number;
+  cachedAt: string;
+  etag?: string;
+  comment?: string;
+}
+
+/**
+ * Whether a cached KV value is a shard manifest rather than a directory
+ */
+export function isCentralDirectoryManifest(
+  value: ZipCentralDirectory | CentralDirectoryManifest,
+): value is CentralDirectoryManifest {
+  return "shards" in value && typeof value.shards === "object";
+}
+
+/**
+ * Shard holding a path (32-bit FNV-1a of its UTF-16 code units)
+ */
+export function getShardIndex(name: string, count: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % count;
+}
+
+export function getShardKey(
+  cacheKey: string,
+  generation: string,
+  index: number,
+): string {
+  return `${cacheKey}:shard:${generation}:${index}`;
+}
+
+export function createManifest(
+  centralDir: ZipCentralDirectory,
+  count: number,
+  generation: string,
+): CentralDirectoryManifest {
+  const manifest: CentralDirectoryManifest = {
+    shards: {
+      count,
+      generation,
+      entryCount: Object.keys(centralDir.entries).length,
+    },
+    totalSize: centralDir.totalSize,
+    cachedAt: centralDir.cachedAt,
+  };
+  if (centralDir.etag) manifest.etag = centralDir.etag;
+  if (centralDir.comment) manifest.comment = centralDir.comment;
+  return manifest;
+}
+
+/**
+ * Split a directory into `count` directories holding a share of its entries
+ */
+export function splitCentralDirectory(
+  centralDir: ZipCentralDirectory,
+  count: number,
+): ZipCentralDirectory[] {
+  const shards = Array.from({ length: count }, () => ({
+    ...centralDir,
+    entries: {} as Record<string, ZipFileEntry>,
+  }));
+
+  for (const [name, entry] of Object.entries(centralDir.entries)) {
+    shards[getShardIndex(name, count)].entries[name] = entry;
+  }
+
+  return shards;
+}
+
+/**
+ * Shards that can hold any of `paths`, or all shards when no paths are given
+ */
+export function getShardIndexes(
+  manifest: CentralDirectoryManifest,
+  paths?: string[],
+): number[] {
+  const { count } = manifest.shards;
+  if (!paths) {
+    return Array.from({ length: count }, (_, i) => i);
+  }
+  return [...new Set(paths.map((path) => getShardIndex(path, count)))];
+}
+
+/**
+ * Present loaded shards as one directory.
+ *
+ * Lookups are routed to the shard the path hashes to, so paths whose
+ * shard was not loaded read as missing. Enumeration lists the entries of
+ * the loaded shards only.
+ */
+export function mergeShards(
+  manifest: CentralDirectoryManifest,
+  shards: Map<number, ZipCentralDirectory>,
+): ZipCentralDirectory {
+  const { count } = manifest.shards;
+  const lookup = (name: string): ZipFileEntry | undefined => {
+    const shard = shards.get(getShardIndex(name, count));
+    return shard && Object.hasOwn(shard.entries, name)
+      ? shard.entries[name]
+      : undefined;
+  };
+
+  const entries = new Proxy({} as Record<string, ZipFileEntry>, {
+    get: (_target, property) =>
+      typeof property === "string" ? lookup(property) : undefined,
+    has: (_target, property) =>
+      typeof property === "string" && lookup(property) !== undefined,
+    ownKeys: () =>
+      [...shards.values()].flatMap((shard) => Object.keys(shard.entries)),
+    getOwnPropertyDescriptor: (_target, property) => {
+      const value = typeof property === "string" ? lookup(property) : undefined;
+      return value === undefined
+        ? undefined
+        : { value, enumerable: true, configurable: true, writable: false };
+    },
+  });
+
+  const centralDir: ZipCentralDirectory = {
+    entries,
+    totalSize: manifest.totalSize,
+    cachedAt: manifest.cachedAt,
+  };
+  if (manifest.etag) centralDir.etag = manifest.etag;
+  if (manifest.comment) centralDir.comment = manifest.comment;
+  return centralDir;
+}
@@ -0,0 +1,100 @@
+import type { R2Bucket } from "@cloudflare/workers-types";
+import type { Env } from "@/types/env";
+import type { ZipCentralDirectory } from "@/types/zip";
+import {
+  decodeCentralDirectory,
+  encodeCentralDirectory,
+  isBinaryCentralDirectory,
+  type CentralDirectoryEncoding,
+} from "./central-directory-codec";
+
+/**
+ * Prebuilt central directory stored in the bucket next to the archive.
+ *
+ * The upload pipeline (or the admin endpoint) writes the directory of
+ * `{project}/{version}/storybook.zip` to `{project}/{version}/index.cd.json`
+ * (`index.cd.bin` in binary encoding), so the first request for a new
+ * version reads one small object instead of parsing the archive. The
+ * sidecar records the archive etag it was built from and is ignored once
+ * the archive is replaced.
+ */
+
+const SIDECAR_EXTENSIONS: Record<CentralDirectoryEncoding, string> = {
+  json: ".json",
+  binary: ".bin",
+};
+
+/**
+ * Sidecars are looked for unless `ZIP_CD_SIDECAR=false`
+ */
+export function isSidecarEnabled(env: Env): boolean {
+  return env.ZIP_CD_SIDECAR?.trim().toLowerCase() !== "false";
+}
+
+/**
+ * Bucket key of the sidecar for an archive:
+ *   {project}/{version}/storybook.zip -> {project}/{version}/index.cd.json
+ *   {uuid}.zip                        -> {uuid}.cd.json
+ */
+export function getSidecarKey(
+  zipKey: string,
+  encoding: CentralDirectoryEncoding = "json",
+): string {
+  const base = /\/storybook\.zip$/.test(zipKey)
+    ? zipKey.replace(/\/storybook\.zip$/, "/index.cd")
+    : `${zipKey.replace(/\.zip$/, "")}.cd`;
+
+  return base + SIDECAR_EXTENSIONS[encoding];
+}
+
+/**
+ * Read an archive's sidecar; null when there is none or it cannot be decoded
+ */
+export async function readSidecar(
+  bucket: R2Bucket,
+  zipKey: string,
+  encoding: CentralDirectoryEncoding = "json",
+): Promise<ZipCentralDirectory | null> {
+  const key = getSidecarKey(zipKey, encoding);
+  const object = await bucket.get(key);
+  if (!object) {
+    return null;
+  }
+
+  try {
+    const bytes = new Uint8Array(await object.arrayBuffer());
+    return isBinaryCentralDirectory(bytes)
+      ? decodeCentralDirectory(bytes)
+      : (JSON.parse(new TextDecoder().decode(bytes)) as ZipCentralDirectory);
+  } catch (error) {
+    console.warn(
+      `Ignoring unreadable central directory sidecar ${key}: ${error}`,
+    );
+    return null;
+  }
+}
+
+/**
+ * Store an archive's directory as its sidecar; returns the sidecar key
+ */
+export async function writeSidecar(
+  bucket: R2Bucket,
+  zipKey: string,
+  centralDir: ZipCentralDirectory,
+  encoding: CentralDirectoryEncoding = "json",
+): Promise<string> {
+  const key = getSidecarKey(zipKey, encoding);
+  const body =
+    encoding === "binary"
+      ? encodeCentralDirectory(centralDir)
+      : JSON.stringify(centralDir);
+
+  await bucket.put(key, body, {
+    httpMetadata: {
+      contentType:
+        encoding === "binary" ? "application/octet-stream" : "application/json",
+    },
+  });
+
+  return key;
+}
@@ -1,26 +1,99 @@
-import { unzip } from 'unzipit';
 import { R2RangeReader } from '@/adapters/zip/r2-range-reader';
-import type { ZipCentralDirectory, ZipFileEntry } from '@/types/zip';
+import type { ZipCentralDirectory } from '@/types/zip';
+import type { CacheAdapter } from '@/adapters/cache/interface';
 import type { R2Bucket } from '@cloudflare/workers-types';
+import { parseCentralDirectory, type ParsedCentralDirectory } from './central-directory-parser';
+import { ZipError } from './errors';
+import { checkEntryCount, type ZipLimits } from './limits';
+import type { DirectoryCache } from './directory-cache';
+import {
+  decodeCentralDirectory,
+  encodeCentralDirectory,
+  isBinaryCentralDirectory,
+  type CentralDirectoryEncoding
+} from './central-directory-codec';
+import {
+  KV_VALUE_LIMIT_BYTES,
+  createManifest,
+  getShardIndexes,
+  getShardKey,
+  isCentralDirectoryManifest,
+  mergeShards,
+  splitCentralDirectory,
+  type CentralDirectoryManifest
+} from './central-directory-shards';
+import { readSidecar } from './central-directory-sidecar';
+
+export interface CentralDirectoryOptions {
+  /**
+   * Safety limits; the entry count is enforced when reading the directory,
+   * so an archive over the limit is never cached
+   */
+  limits?: ZipLimits;
+  /** In-isolate cache of parsed directories, checked before the shared cache */
+  memoryCache?: DirectoryCache;
+  /** Current R2 etag of the archive, when the caller knows it */
+  etag?: string;
+  /**
+   * KV format for directories written by this call (default JSON). Binary
+   * mode still reads JSON entries written before it was turned on.
+   */
+  encoding?: CentralDirectoryEncoding;
+  /**
+   * Paths the caller is going to look up. When the cached directory is
+   * sharded only the shards holding them are read, and lookups of any
+   * other path on the result miss. Without it every shard is read.
+   */
+  paths?: string[];
+  /** Largest KV value written before the directory is sharded (default 25 MiB) */
+  maxValueBytes?: number;
+  /**
+   * Look for a prebuilt sidecar next to the archive (see
+   * central-directory-sidecar) before parsing the archive itself
+   */
+  sidecar?: boolean;
+}
+
+const CACHE_TTL_SECONDS = 86400;
 
 /**
  * Get central directory from cache or read from R2.
  *
- * In some local-dev modes KV may not be bound; caching is optional.
+ * The shared cache is KV on Workers and Redis or memory on Docker (see
+ * adapters/cache); caching is optional.
  */
 export async function getCentralDirectory(
   bucket: R2Bucket,
-  kv: KVNamespace | undefined,
-  zipKey: string
+  kv: CacheAdapter | undefined,
+  zipKey: string,
+  options: CentralDirectoryOptions = {}
 ): Promise<ZipCentralDirectory> {
   const cacheKey = `cd:${zipKey}`;
+  const { memoryCache } = options;
+
+  // Try the in-isolate cache first: no KV read, no JSON parse
+  if (memoryCache) {
+    const cached = memoryCache.get(zipKey);
+    if (cached && isCurrent(cached, options.etag)) {
+      return cached;
+    }
+    // Read from another version of the archive: lookups that do not know
+    // the etag must not get it either
+    if (cached) {
+      memoryCache.delete(zipKey);
+    }
+  }
 
-  // Try KV cache first (if available)
+  // Then KV (if available)
   if (kv) {
     try {
-      const cached = await kv.get<ZipCentralDirectory>(cacheKey, 'json');
-      if (cached) {
-        return cached;
+      const cached = await readFromKV(kv, cacheKey, options);
+      if (cached && isCurrent(cached.centralDir, options.etag)) {
+        // Directories assembled from some of their shards are partial
+        if (cached.complete) {
+          memoryCache?.set(zipKey, cached.centralDir);
+        }
+        return cached.centralDir;
       }
     } catch (error) {
       console.warn(`Failed to read central directory from KV cache: ${error}`);
@@ -28,75 +101,277 @@ export async function getCentralDirectory(
     }
   }
 
+  // Then a sidecar written next to the archive, if it was built from it
+  if (options.sidecar) {
+    const sidecar = await readCurrentSidecar(bucket, zipKey, options);
+    if (sidecar) {
+      memoryCache?.set(zipKey, sidecar);
+      await cacheInKV(kv, cacheKey, sidecar, options);
+      return sidecar;
+    }
+  }
+
   // Read from R2 using range requests
-  const centralDir = await readCentralDirectoryFromR2(bucket, zipKey);
+  const centralDir = await readCentralDirectoryFromR2(bucket, zipKey, options);
+  memoryCache?.set(zipKey, centralDir);
+  await cacheInKV(kv, cacheKey, centralDir, options);
 
-  // Cache for 24 hours (best-effort)
-  if (kv) {
-    try {
-      await kv.put(cacheKey, JSON.stringify(centralDir), {
-        expirationTtl: 86400,
-      });
-    } catch (error) {
-      console.warn(`Failed to cache central directory in KV: ${error}`);
-      // Continue even if caching fails
+  return centralDir;
+}
+
+/**
+ * Read a cached directory, or the shards of one, from KV.
+ *
+ * Returns null when nothing is cached or a needed shard has expired.
+ */
+async function readFromKV(
+  kv: CacheAdapter,
+  cacheKey: string,
+  options: CentralDirectoryOptions
+): Promise<{ centralDir: ZipCentralDirectory; complete: boolean } | null> {
+  const cached = await readValue(kv, cacheKey, options.encoding);
+  if (!cached) {
+    return null;
+  }
+  if (!isCentralDirectoryManifest(cached)) {
+    return { centralDir: cached, complete: true };
+  }
+
+  const indexes = getShardIndexes(cached, options.paths);
+  const shards = new Map<number, ZipCentralDirectory>();
+  await Promise.all(
+    indexes.map(async (index) => {
+      const shard = await readValue(kv, getShardKey(cacheKey, cached.shards.generation, index), options.encoding);
+      if (shard && !isCentralDirectoryManifest(shard)) {
+        shards.set(index, shard);
+      }
+    })
+  );
+
+  if (shards.size < indexes.length) {
+    return null;
+  }
+
+  return {
+    centralDir: mergeShards(cached, shards),
+    complete: indexes.length === cached.shards.count
+  };
+}
+
+/**
+ * Read one KV value in either format.
+ *
+ * JSON mode keeps the plain JSON read; a binary value found there fails to
+ * parse and is rebuilt from R2 (and rewritten as JSON) like any bad entry.
+ */
+async function readValue(
+  kv: CacheAdapter,
+  key: string,
+  encoding: CentralDirectoryEncoding | undefined
+): Promise<ZipCentralDirectory | CentralDirectoryManifest | null> {
+  if (encoding !== 'binary') {
+    return kv.getJson<ZipCentralDirectory | CentralDirectoryManifest>(key);
+  }
+
+  const buffer = await kv.getArrayBuffer(key);
+  if (!buffer) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(buffer);
+  return isBinaryCentralDirectory(bytes) ? decodeCentralDirectory(bytes) : (JSON.parse(new TextDecoder().decode(bytes)) as ZipCentralDirectory | CentralDirectoryManifest);
+}
+
+/**
+ * Cache for 24 hours (best-effort)
+ */
+async function cacheInKV(
+  kv: CacheAdapter | undefined,
+  cacheKey: string,
+  centralDir: ZipCentralDirectory,
+  options: CentralDirectoryOptions
+): Promise<void> {
+  if (!kv) {
+    return;
+  }
+
+  try {
+    await writeToKV(kv, cacheKey, centralDir, options);
+  } catch (error) {
+    console.warn(`Failed to cache central directory in KV: ${error}`);
+    // Continue even if caching fails
+  }
+}
+
+/**
+ * Write a directory to KV, as one value when it fits and as shards plus a
+ * manifest otherwise.
+ *
+ * The shard count starts at twice the minimum and doubles until every
+ * shard fits. Shards are written before the manifest that points at them.
+ */
+async function writeToKV(
+  kv: CacheAdapter,
+  cacheKey: string,
+  centralDir: ZipCentralDirectory,
+  options: CentralDirectoryOptions
+): Promise<void> {
+  const maxValueBytes = options.maxValueBytes ?? KV_VALUE_LIMIT_BYTES;
+  const value = serialize(centralDir, options.encoding);
+  const size = getByteLength(value);
+
+  if (size <= maxValueBytes) {
+    await kv.set(cacheKey, value, CACHE_TTL_SECONDS);
+    return;
+  }
+
+  const entryCount = Object.keys(centralDir.entries).length;
+  let count = Math.ceil(size / maxValueBytes) * 2;
+  let shards: Array<string | ArrayBuffer>;
+  for (;;) {
+    shards = splitCentralDirectory(centralDir, count).map((shard) => serialize(shard, options.encoding));
+    if (shards.every((shard) => getByteLength(shard) <= maxValueBytes)) {
+      break;
+    }
+    if (count >= entryCount) {
+      throw new Error(`Central directory does not fit in ${count} KV values`);
     }
+    count = Math.min(count * 2, entryCount);
   }
 
-  return centralDir;
+  const generation = Date.now().toString(36);
+  await Promise.all(
+    shards.map((shard, index) =>
+      kv.set(getShardKey(cacheKey, generation, index), shard, CACHE_TTL_SECONDS)
+    )
+  );
+  await kv.set(cacheKey, JSON.stringify(createManifest(centralDir, count, generation)), CACHE_TTL_SECONDS);
+}
+
+function serialize(centralDir: ZipCentralDirectory, encoding: CentralDirectoryEncoding | undefined): string | ArrayBuffer {
+  return encoding === 'binary' ? toArrayBuffer(encodeCentralDirectory(centralDir)) : JSON.stringify(centralDir);
+}
+
+function getByteLength(value: string | ArrayBuffer): number {
+  return typeof value === 'string' ? new TextEncoder().encode(value).length : value.byteLength;
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+/**
+ * A cached directory is usable unless the caller knows the archive's
+ * current etag and the directory was not read from that version
+ */
+function isCurrent(centralDir: ZipCentralDirectory, etag: string | undefined): boolean {
+  return etag === undefined || centralDir.etag === etag;
+}
+
+/**
+ * The archive's sidecar, if there is one and it records the archive's
+ * current etag. The archive is only HEADed once a sidecar was found.
+ */
+async function readCurrentSidecar(
+  bucket: R2Bucket,
+  zipKey: string,
+  options: CentralDirectoryOptions
+): Promise<ZipCentralDirectory | null> {
+  let sidecar: ZipCentralDirectory | null;
+  let etag: string | undefined;
+  try {
+    sidecar = await readSidecar(bucket, zipKey, options.encoding);
+    if (!sidecar) {
+      return null;
+    }
+    etag = options.etag ?? (await bucket.head(zipKey))?.etag;
+  } catch (error) {
+    console.warn(`Failed to read central directory sidecar: ${error}`);
+    return null;
+  }
+
+  if (!etag || sidecar.etag !== etag) {
+    console.warn(`Ignoring stale central directory sidecar for ${zipKey}`, {
+      sidecarEtag: sidecar.etag,
+      currentEtag: etag
+    });
+    return null;
+  }
+
+  if (options.limits) {
+    checkEntryCount(Object.keys(sidecar.entries).length, options.limits);
+  }
+
+  return sidecar;
 }
 
 /**
- * Read central directory from R2 using unzipit
+ * Read central directory from R2 using range requests
+ *
+ * Sizes and the local header offset are taken from each record, or from
+ * its ZIP64 extra field when the 32-bit value is saturated. Entries written
+ * with a data descriptor (flag bit 3) carry zeros in their local header, so
+ * the central directory is the only trusted source for them.
  */
-async function readCentralDirectoryFromR2(
+export async function readCentralDirectoryFromR2(
   bucket: R2Bucket,
-  zipKey: string
+  zipKey: string,
+  options: CentralDirectoryOptions
 ): Promise<ZipCentralDirectory> {
   const reader = new R2RangeReader(bucket, zipKey);
 
+  let parsed: ParsedCentralDirectory;
   try {
-    const { entries } = await unzip(reader);
-
-    const centralDir: ZipCentralDirectory = {
-      entries: {},
-      totalSize: await reader.getLength(),
-      cachedAt: new Date().toISOString()
-    };
-
-    // Convert unzipit entries to our format
-    for (const [name, entry] of Object.entries(entries)) {
-      // Get offset from the raw entry
-      const offset = (entry as any)._rawEntry?.relativeOffsetOfLocalHeader || 0;
-        
-      centralDir.entries[name] = {
-        name,
-        size: (entry as any).size,
-        compressedSize: (entry as any).compressedSize,
-        offset,
-        crc32: (entry as any).crc32 || (entry as any)._rawEntry?.crc32,
-        compressionMethod: (entry as any).compressionMethod
-      };
-    }
-
-    return centralDir;
+    parsed = await parseCentralDirectory(reader, { limits: options.limits });
   } catch (error) {
+    if (error instanceof ZipError) {
+      throw error;
+    }
     throw new Error(`Failed to read central directory from ZIP: ${error}`);
   }
+
+  const centralDir: ZipCentralDirectory = {
+    entries: {},
+    totalSize: parsed.totalSize,
+    cachedAt: new Date().toISOString()
+  };
+
+  if (parsed.comment) {
+    centralDir.comment = parsed.comment;
+  }
+
+  const etag = await reader.getEtag();
+  if (etag) {
+    centralDir.etag = etag;
+  }
+
+  for (const entry of parsed.entries) {
+    centralDir.entries[entry.name] = entry;
+  }
+
+  return centralDir;
 }
 
 /**
  * Clear central directory cache for a specific ZIP
- * Useful when ZIP is updated
+ * Called when a range read shows the ZIP was re-uploaded. For a sharded
+ * directory only the manifest is deleted; its shards expire on their own.
  */
 export async function clearCentralDirectoryCache(
-  kv: KVNamespace,
-  zipKey: string
+  kv: CacheAdapter | undefined,
+  zipKey: string,
+  memoryCache?: DirectoryCache
 ): Promise<void> {
+  memoryCache?.delete(zipKey);
+
+  if (!kv) {
+    return;
+  }
+
   const cacheKey = `cd:${zipKey}`;
   try {
     await kv.delete(cacheKey);
   } catch (error) {
     console.warn(`Failed to clear central directory cache: ${error}`);
   }
-}
\ No newline at end of file
+}
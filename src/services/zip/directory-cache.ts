@@ -0,0 +1,47 @@
+import type { Env } from "@/types/env";
+import type { ZipCentralDirectory } from "@/types/zip";
+import { LruCache, type LruCacheOptions } from "@/utils/lru-cache";
+
+/**
+ * In-isolate cache of parsed central directories.
+ *
+ * Sits in front of KV so repeat requests for the same archive skip both
+ * the KV read and the JSON parse of thousands of entries. Entries are
+ * keyed by zipKey and remember the R2 etag of the archive they were read
+ * from; a lookup that knows the current etag only hits on a match, and
+ * drops an entry of another version.
+ */
+
+export type DirectoryCache = LruCache<ZipCentralDirectory>;
+
+export const DEFAULT_DIRECTORY_CACHE_OPTIONS: LruCacheOptions = {
+  maxEntries: 20,
+  ttlMs: 5 * 60 * 1000,
+};
+
+function parseNonNegativeInt(value: string | undefined): number | undefined {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+/**
+ * Read cache size and TTL from the environment.
+ *
+ * `ZIP_CD_MEMORY_CACHE_SIZE=0` disables the cache.
+ */
+export function resolveDirectoryCacheOptions(env: Env): LruCacheOptions {
+  const maxEntries = parseNonNegativeInt(env.ZIP_CD_MEMORY_CACHE_SIZE);
+  const ttlSeconds = parseNonNegativeInt(env.ZIP_CD_MEMORY_CACHE_TTL);
+
+  return {
+    maxEntries: maxEntries ?? DEFAULT_DIRECTORY_CACHE_OPTIONS.maxEntries,
+    ttlMs:
+      ttlSeconds !== undefined
+        ? ttlSeconds * 1000
+        : DEFAULT_DIRECTORY_CACHE_OPTIONS.ttlMs,
+  };
+}
+
+export function createDirectoryCache(env: Env): DirectoryCache {
+  return new LruCache<ZipCentralDirectory>(resolveDirectoryCacheOptions(env));
+}
@@ -0,0 +1,76 @@
+/**
+ * Typed errors for archives that cannot be served.
+ *
+ * Each error carries a stable `code` for the JSON error body and the HTTP
+ * status the route should answer with; anything that is not a `ZipError`
+ * (R2 outages, bugs) still surfaces as a 500.
+ */
+export class ZipError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "ZipError";
+  }
+}
+
+/**
+ * The archive object does not exist in storage
+ */
+export class ZipNotFoundError extends ZipError {
+  constructor(message: string) {
+    super(message, "ZIP_NOT_FOUND", 404);
+    this.name = "ZipNotFoundError";
+  }
+}
+
+/**
+ * The archive is corrupt or uses a structure we cannot read safely
+ * (bad signatures, truncated records, missing ZIP64 fields).
+ */
+export class ZipFormatError extends ZipError {
+  constructor(message: string) {
+    super(message, "ZIP_INVALID_ARCHIVE", 422);
+    this.name = "ZipFormatError";
+  }
+}
+
+/**
+ * The archive is well-formed but uses a feature we do not implement
+ * (encryption, multi-disk archives, unknown compression methods).
+ */
+export class ZipUnsupportedError extends ZipError {
+  constructor(message: string) {
+    super(message, "ZIP_UNSUPPORTED", 422);
+    this.name = "ZipUnsupportedError";
+  }
+}
+
+/**
+ * The archive or entry exceeds a configured safety limit (size cap,
+ * compression ratio, entry count) or inflates to a different length than
+ * it declares. Guards the Worker against zip bombs.
+ */
+export class ZipLimitError extends ZipError {
+  constructor(message: string, code: string, status: 413 | 422) {
+    super(message, code, status);
+    this.name = "ZipLimitError";
+  }
+}
+
+/**
+ * The archive was replaced after its central directory was cached, so the
+ * cached offsets no longer apply. The route rebuilds the directory and
+ * retries; it only reaches clients if the archive keeps changing.
+ */
+export class ZipArchiveChangedError extends ZipError {
+  constructor(
+    message: string,
+    readonly currentEtag?: string,
+  ) {
+    super(message, "ZIP_ARCHIVE_CHANGED", 503);
+    this.name = "ZipArchiveChangedError";
+  }
+}
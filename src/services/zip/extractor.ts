@@ -1,17 +1,38 @@
 import pako from 'pako';
 import type { ZipFileEntry } from '@/types/zip';
 import type { R2Bucket } from '@cloudflare/workers-types';
+import { getRangeLength, type ByteRange } from '@/utils/http-range';
+import { createInflateRawStream, createCrc32VerifyStream, createRangeSliceStream } from './streams';
+import { ZipFormatError, ZipUnsupportedError } from './errors';
+import { createSizeMismatchError } from './limits';
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const LOCAL_FILE_HEADER_LENGTH = 30;
+
+// Extra field bytes fetched on top of the name when the local header is read
+// together with the data. Local extra fields are usually small (Info-ZIP
+// timestamps and Unix ids, ZIP64 sizes), and the central directory always
+// follows the data, so the over-read stays inside the archive.
+const LOCAL_EXTRA_ALLOWANCE = 64;
+
+const textEncoder = new TextEncoder();
+
+// Size of the compressed chunks fed to the inflater when buffered extraction
+// is capped at the declared size
+const INFLATE_CHUNK_SIZE = 16 * 1024;
 
 /**
- * Extract a single file from a ZIP using range requests
- * Only fetches the compressed bytes needed for this specific file
+ * Resolve the absolute offset of an entry's compressed data.
+ *
+ * The central directory only records where the local file header starts;
+ * the local header carries its own filename and extra field lengths, which
+ * may differ from the central directory copy.
  */
-export async function extractFile(
+export async function getEntryDataOffset(
   bucket: R2Bucket | any,
   zipKey: string,
   entry: ZipFileEntry
-): Promise<ArrayBuffer> {
-  // First, fetch the local file header to get the exact offset to compressed data
+): Promise<number> {
   // Local file header structure:
   // - Signature (4 bytes): 0x04034b50
   // - Version needed (2 bytes)
@@ -25,7 +46,11 @@ export async function extractFile(
   // - Filename length (2 bytes)
   // - Extra field length (2 bytes)
   // Total: 30 bytes, followed by filename and extra field
-  
+  //
+  // Only the two lengths are used. CRC and sizes come from the central
+  // directory: entries written with a data descriptor (flag bit 3) leave
+  // them zero here, and ZIP64 entries saturate them to 0xFFFFFFFF.
+
   const headerObject = await (bucket as any).get(zipKey, {
     range: {
       offset: entry.offset,
@@ -38,48 +63,301 @@ export async function extractFile(
   }
 
   const headerBytes = new Uint8Array(await headerObject.arrayBuffer());
-  
+
+  const signature =
+    (headerBytes[0] | (headerBytes[1] << 8) | (headerBytes[2] << 16) | (headerBytes[3] << 24)) >>> 0;
+  if (headerBytes.length < 30 || signature !== LOCAL_FILE_HEADER_SIGNATURE) {
+    // A bad offset would otherwise serve arbitrary bytes of the archive
+    throw new ZipFormatError(
+      `Invalid local file header for ${entry.name} at offset ${entry.offset}`
+    );
+  }
+
   // Read filename length and extra field length (bytes 26-27 and 28-29)
   const filenameLength = headerBytes[26] | (headerBytes[27] << 8);
   const extraFieldLength = headerBytes[28] | (headerBytes[29] << 8);
-  
-  // Calculate actual data offset
-  const dataOffset = entry.offset + 30 + filenameLength + extraFieldLength;
-  
-  // Fetch only the compressed bytes for this file using range request
+
+  return entry.offset + 30 + filenameLength + extraFieldLength;
+}
+
+/**
+ * Length of the range openEntryData reads for an entry, starting at its
+ * local header
+ */
+export function getEntryReadLength(entry: ZipFileEntry): number {
+  return LOCAL_FILE_HEADER_LENGTH + textEncoder.encode(entry.name).length + LOCAL_EXTRA_ALLOWANCE + entry.compressedSize;
+}
+
+/**
+ * Open an entry's compressed data in a single R2 round trip.
+ *
+ * The local header, the name and a guess at the extra field are fetched
+ * together with the data, and the header bytes are skipped once their real
+ * length is known. If the extra field is longer than the guess, the data
+ * the first request fell short of is fetched with a second one.
+ */
+export async function openEntryData(
+  bucket: R2Bucket | any,
+  zipKey: string,
+  entry: ZipFileEntry
+): Promise<ReadableStream<Uint8Array>> {
   const object = await (bucket as any).get(zipKey, {
     range: {
-      offset: dataOffset,
-      length: entry.compressedSize
+      offset: entry.offset,
+      length: getEntryReadLength(entry)
     }
   });
 
   if (!object || !object.body) {
-    throw new Error(`Failed to extract file: ${entry.name}`);
+    throw new Error(`Failed to read local header for: ${entry.name}`);
   }
 
-  const compressed = await object.arrayBuffer();
+  let reader = (object.body as ReadableStream<Uint8Array>).getReader();
+  let buffered: Uint8Array = new Uint8Array(0);
+  const fill = async (length: number) => {
+    while (buffered.length < length) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffered = concatBytes(buffered, value);
+    }
+  };
+
+  await fill(LOCAL_FILE_HEADER_LENGTH);
+  const view = new DataView(buffered.buffer, buffered.byteOffset, buffered.byteLength);
+  if (buffered.length < LOCAL_FILE_HEADER_LENGTH || view.getUint32(0, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+    await reader.cancel();
+    // A bad offset would otherwise serve arbitrary bytes of the archive
+    throw new ZipFormatError(
+      `Invalid local file header for ${entry.name} at offset ${entry.offset}`
+    );
+  }
+
+  const headerLength = LOCAL_FILE_HEADER_LENGTH + view.getUint16(26, true) + view.getUint16(28, true);
+  const dataOffset = entry.offset + headerLength;
+  await fill(headerLength);
+
+  // Bytes past the header already read; whatever is missing of the header
+  // (an unexpectedly long extra field) also shortens the data read so far
+  let chunk: Uint8Array | null = buffered.length > headerLength ? buffered.subarray(headerLength) : null;
+  let emitted = 0;
+  let refetched = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      for (;;) {
+        if (emitted >= entry.compressedSize) {
+          await reader.cancel();
+          controller.close();
+          return;
+        }
+
+        if (chunk) {
+          const part = chunk.subarray(0, entry.compressedSize - emitted);
+          chunk = null;
+          emitted += part.length;
+          controller.enqueue(part);
+          return;
+        }
+
+        const { done, value } = await reader.read();
+        if (!done) {
+          chunk = value;
+          continue;
+        }
+
+        if (refetched) {
+          throw new Error(`Failed to extract file: ${entry.name}`);
+        }
+
+        const rest = await (bucket as any).get(zipKey, {
+          range: {
+            offset: dataOffset + emitted,
+            length: entry.compressedSize - emitted
+          }
+        });
+        if (!rest || !rest.body) {
+          throw new Error(`Failed to extract file: ${entry.name}`);
+        }
+        reader = (rest.body as ReadableStream<Uint8Array>).getReader();
+        refetched = true;
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+}
+
+/**
+ * Read an entry's compressed data into a buffer (see openEntryData)
+ */
+async function readEntryData(
+  bucket: R2Bucket | any,
+  zipKey: string,
+  entry: ZipFileEntry
+): Promise<Uint8Array> {
+  const stream = await openEntryData(bucket, zipKey, entry);
+  const reader = stream.getReader();
+  const data = new Uint8Array(entry.compressedSize);
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    data.set(value, length);
+    length += value.length;
+  }
+
+  return data;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a, 0);
+  result.set(b, a.length);
+  return result;
+}
+
+/**
+ * Extract a single file from a ZIP using range requests
+ * Only fetches the compressed bytes needed for this specific file
+ */
+export async function extractFile(
+  bucket: R2Bucket | any,
+  zipKey: string,
+  entry: ZipFileEntry
+): Promise<ArrayBuffer> {
+  // Fetch the local header and the compressed bytes in one range request
+  const compressed = await readEntryData(bucket, zipKey, entry);
 
   // Decompress based on compression method
   if (entry.compressionMethod === 0) {
     // Stored (no compression)
-    return compressed;
+    return compressed.buffer as ArrayBuffer;
   } else if (entry.compressionMethod === 8) {
     // Deflate compression
-    try {
-      const compressedData = new Uint8Array(compressed);
-      const decompressed = pako.inflateRaw(compressedData);
-      return decompressed.buffer;
-    } catch (error) {
-      throw new Error(`Failed to decompress file ${entry.name}: ${error}`);
-    }
+    return inflateToDeclaredSize(compressed, entry);
   } else {
-    throw new Error(
+    throw new ZipUnsupportedError(
       `Unsupported compression method ${entry.compressionMethod} for file ${entry.name}`
     );
   }
 }
 
+/**
+ * Inflate a whole entry into a buffer of exactly its declared size.
+ *
+ * Input is fed in chunks so inflation stops as soon as the output would
+ * overflow the declared size, instead of materialising a zip bomb.
+ */
+function inflateToDeclaredSize(compressed: Uint8Array, entry: ZipFileEntry): ArrayBuffer {
+  const output = new Uint8Array(entry.size);
+  let produced = 0;
+  let overflow = false;
+
+  const inflator = new pako.Inflate({ raw: true });
+  inflator.onData = (chunk) => {
+    const data = chunk as Uint8Array;
+    if (overflow || produced + data.length > entry.size) {
+      overflow = true;
+      return;
+    }
+    output.set(data, produced);
+    produced += data.length;
+  };
+
+  for (let offset = 0; offset < compressed.length && !overflow; offset += INFLATE_CHUNK_SIZE) {
+    const chunk = compressed.subarray(offset, offset + INFLATE_CHUNK_SIZE);
+    inflator.push(chunk, offset + INFLATE_CHUNK_SIZE >= compressed.length);
+
+    if (inflator.err) {
+      throw new Error(`Failed to decompress file ${entry.name}: ${inflator.msg}`);
+    }
+  }
+
+  if (overflow) {
+    throw createSizeMismatchError(entry.name, entry.size, `more than ${entry.size}`);
+  }
+  if (produced !== entry.size) {
+    throw createSizeMismatchError(entry.name, entry.size, produced);
+  }
+
+  return output.buffer;
+}
+
+/**
+ * Extract a single file as a stream.
+ *
+ * The R2 range body is piped through a raw-deflate decompressor instead of
+ * being buffered, so memory use stays flat and the first bytes reach the
+ * client before the whole entry has been read. The CRC-32 from the central
+ * directory is verified incrementally; a mismatch errors the stream.
+ */
+export async function extractFileStream(
+  bucket: R2Bucket | any,
+  zipKey: string,
+  entry: ZipFileEntry
+): Promise<ReadableStream<Uint8Array>> {
+  if (entry.compressionMethod !== 0 && entry.compressionMethod !== 8) {
+    throw new ZipUnsupportedError(
+      `Unsupported compression method ${entry.compressionMethod} for file ${entry.name}`
+    );
+  }
+
+  let stream = await openEntryData(bucket, zipKey, entry);
+
+  if (entry.compressionMethod === 8) {
+    stream = stream.pipeThrough(createInflateRawStream());
+  }
+
+  return stream.pipeThrough(
+    createCrc32VerifyStream(entry.crc32, entry.size, entry.name)
+  );
+}
+
+/**
+ * Stream an inclusive byte range of a file's uncompressed content.
+ *
+ * Stored entries map directly onto an R2 range read, whose body is
+ * returned as-is. Deflated entries are inflated as a stream and sliced to
+ * the range; once its end has been produced the inflater and the R2 read
+ * are cancelled, so a range near the start of a large file never pays for
+ * the rest of it. A range past the inflated data errors the stream.
+ */
+export async function extractFileRange(
+  bucket: R2Bucket | any,
+  zipKey: string,
+  entry: ZipFileEntry,
+  range: ByteRange
+): Promise<ReadableStream<Uint8Array>> {
+  if (entry.compressionMethod === 0) {
+    // Resolve the data offset first rather than over-reading the entry up
+    // to the range, which may start deep inside a large file
+    const dataOffset = await getEntryDataOffset(bucket, zipKey, entry);
+    const object = await (bucket as any).get(zipKey, {
+      range: {
+        offset: dataOffset + range.start,
+        length: getRangeLength(range)
+      }
+    });
+
+    if (!object || !object.body) {
+      throw new Error(`Failed to extract range of file: ${entry.name}`);
+    }
+
+    return object.body as ReadableStream<Uint8Array>;
+  }
+
+  if (entry.compressionMethod !== 8) {
+    throw new ZipUnsupportedError(
+      `Unsupported compression method ${entry.compressionMethod} for file ${entry.name}`
+    );
+  }
+
+  const compressed = await openEntryData(bucket, zipKey, entry);
+  return compressed.pipeThrough(createInflateRawStream()).pipeThrough(createRangeSliceStream(range, entry.name));
+}
+
 /**
  * Extract multiple files from a ZIP
  */
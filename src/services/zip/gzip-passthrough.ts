@@ -0,0 +1,87 @@
+import type { R2Bucket } from "@cloudflare/workers-types";
+import type { ZipFileEntry } from "@/types/zip";
+import { openEntryData } from "./extractor";
+
+/**
+ * Serve deflated ZIP entries to clients as gzip without recompressing.
+ *
+ * A ZIP method-8 entry is a raw deflate stream, which is exactly the payload
+ * of a gzip member. Wrapping it in the fixed 10-byte gzip header and an
+ * 8-byte trailer (CRC-32 and size, both already in the central directory)
+ * yields a valid `Content-Encoding: gzip` body straight from R2.
+ */
+
+const GZIP_HEADER_LENGTH = 10;
+const GZIP_TRAILER_LENGTH = 8;
+
+/**
+ * Whether an entry can be served as gzip by wrapping its compressed bytes
+ */
+export function canPassthroughGzip(entry: ZipFileEntry): boolean {
+  return entry.compressionMethod === 8;
+}
+
+/**
+ * Total length of the gzip body produced for an entry
+ */
+export function getGzipPassthroughLength(entry: ZipFileEntry): number {
+  return GZIP_HEADER_LENGTH + entry.compressedSize + GZIP_TRAILER_LENGTH;
+}
+
+function buildGzipHeader(entry: ZipFileEntry): Uint8Array {
+  const header = new Uint8Array(GZIP_HEADER_LENGTH);
+  const view = new DataView(header.buffer);
+  header[0] = 0x1f; // ID1
+  header[1] = 0x8b; // ID2
+  header[2] = 0x08; // CM = deflate
+  header[3] = 0x00; // FLG: no name, comment or extra
+  // MTIME (0 = unknown)
+  const mtime = entry.lastModified ? Math.floor(entry.lastModified / 1000) : 0;
+  view.setUint32(4, mtime >>> 0, true);
+  header[8] = 0x00; // XFL
+  header[9] = 0xff; // OS = unknown
+  return header;
+}
+
+function buildGzipTrailer(entry: ZipFileEntry): Uint8Array {
+  const trailer = new Uint8Array(GZIP_TRAILER_LENGTH);
+  const view = new DataView(trailer.buffer);
+  view.setUint32(0, entry.crc32 >>> 0, true);
+  // ISIZE is the uncompressed size modulo 2^32
+  view.setUint32(4, entry.size % 0x100000000, true);
+  return trailer;
+}
+
+/**
+ * Stream an entry's compressed bytes from R2 wrapped in a gzip envelope
+ */
+export async function createGzipPassthroughStream(
+  bucket: R2Bucket | any,
+  zipKey: string,
+  entry: ZipFileEntry,
+): Promise<ReadableStream<Uint8Array>> {
+  if (!canPassthroughGzip(entry)) {
+    throw new Error(
+      `Cannot serve ${entry.name} as gzip: compression method ${entry.compressionMethod}`,
+    );
+  }
+
+  const data = await openEntryData(bucket, zipKey, entry);
+
+  const header = buildGzipHeader(entry);
+  const trailer = buildGzipTrailer(entry);
+
+  return data.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      start(controller) {
+        controller.enqueue(header);
+      },
+      transform(chunk, controller) {
+        controller.enqueue(chunk);
+      },
+      flush(controller) {
+        controller.enqueue(trailer);
+      },
+    }),
+  );
+}
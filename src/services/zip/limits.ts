@@ -0,0 +1,111 @@
+import type { Env } from "@/types/env";
+import type { ZipFileEntry } from "@/types/zip";
+import { ZipLimitError } from "./errors";
+
+/**
+ * Safety limits for serving entries out of uploaded archives.
+ *
+ * Archives are user uploads, so their metadata is untrusted: a small entry
+ * can declare (or secretly inflate to) gigabytes. Limits are checked against
+ * the central directory before any entry data is read, and the inflated
+ * length is checked against the declared size while extracting.
+ */
+
+export interface ZipLimits {
+  /** Maximum uncompressed size of a single entry, in bytes */
+  maxFileSize: number;
+  /** Maximum uncompressed:compressed ratio for deflated entries */
+  maxCompressionRatio: number;
+  /** Maximum number of entries in an archive */
+  maxEntries: number;
+}
+
+export const DEFAULT_ZIP_LIMITS: ZipLimits = {
+  maxFileSize: 10 * 1024 * 1024,
+  maxCompressionRatio: 200,
+  maxEntries: 250_000,
+};
+
+// Small entries legitimately compress extremely well (runs of whitespace,
+// zero-filled buffers) and cannot hurt us, so the ratio check starts here
+const RATIO_CHECK_MIN_SIZE = 1024 * 1024;
+
+function parsePositive(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Resolve limits from the environment.
+ *
+ * `ZIP_MAX_FILE_SIZE` caps entries served from archives and falls back to
+ * the general `MAX_FILE_SIZE`.
+ */
+export function resolveZipLimits(env: Env): ZipLimits {
+  return {
+    maxFileSize:
+      parsePositive(env.ZIP_MAX_FILE_SIZE) ??
+      parsePositive(env.MAX_FILE_SIZE) ??
+      DEFAULT_ZIP_LIMITS.maxFileSize,
+    maxCompressionRatio:
+      parsePositive(env.ZIP_MAX_COMPRESSION_RATIO) ??
+      DEFAULT_ZIP_LIMITS.maxCompressionRatio,
+    maxEntries:
+      parsePositive(env.ZIP_MAX_ENTRIES) ?? DEFAULT_ZIP_LIMITS.maxEntries,
+  };
+}
+
+/**
+ * Reject archives with more entries than allowed
+ */
+export function checkEntryCount(count: number, limits: ZipLimits): void {
+  if (count > limits.maxEntries) {
+    throw new ZipLimitError(
+      `Archive has ${count} entries, limit is ${limits.maxEntries}`,
+      "ZIP_TOO_MANY_ENTRIES",
+      422,
+    );
+  }
+}
+
+/**
+ * Reject an entry whose declared size or compression ratio is over the limits
+ */
+export function checkEntryLimits(entry: ZipFileEntry, limits: ZipLimits): void {
+  if (entry.size > limits.maxFileSize) {
+    throw new ZipLimitError(
+      `Entry ${entry.name} is ${entry.size} bytes, limit is ${limits.maxFileSize}`,
+      "ZIP_ENTRY_TOO_LARGE",
+      413,
+    );
+  }
+
+  if (entry.compressionMethod === 0 || entry.size < RATIO_CHECK_MIN_SIZE) {
+    return;
+  }
+
+  const ratio = entry.size / Math.max(entry.compressedSize, 1);
+  if (ratio > limits.maxCompressionRatio) {
+    throw new ZipLimitError(
+      `Entry ${entry.name} has compression ratio ${Math.round(ratio)}:1, limit is ${limits.maxCompressionRatio}:1`,
+      "ZIP_COMPRESSION_RATIO_EXCEEDED",
+      422,
+    );
+  }
+}
+
+/**
+ * Error for an entry that inflates to more or fewer bytes than it declares
+ */
+export function createSizeMismatchError(
+  name: string,
+  expected: number,
+  actual: number | string,
+): ZipLimitError {
+  return new ZipLimitError(
+    `Size mismatch for ${name}: expected ${expected} bytes, got ${actual}`,
+    "ZIP_SIZE_MISMATCH",
+    422,
+  );
+}
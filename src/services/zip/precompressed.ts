@@ -0,0 +1,74 @@
+import type { ZipFileEntry } from "@/types/zip";
+import { parseAcceptEncoding } from "@/utils/accept-encoding";
+
+/**
+ * Precompressed sibling lookup.
+ *
+ * Storybook and Vite builds can ship `main.js.br` / `main.js.gz` next to
+ * `main.js`. When the client accepts the coding, the sibling entry is served
+ * as-is with the matching Content-Encoding, so brotli reaches the browser
+ * without any compression work at the edge.
+ */
+
+export type PrecompressedEncoding = "br" | "gzip";
+
+export interface PrecompressedVariant {
+  entry: ZipFileEntry;
+  encoding: PrecompressedEncoding;
+}
+
+// In order of preference when the client weights codings equally
+const SIBLING_EXTENSIONS: Array<{
+  encoding: PrecompressedEncoding;
+  extension: string;
+}> = [
+  { encoding: "br", extension: ".br" },
+  { encoding: "gzip", extension: ".gz" },
+];
+
+/**
+ * Paths a precompressed sibling of `path` would be stored at
+ */
+export function getPrecompressedSiblingPaths(path: string): string[] {
+  return SIBLING_EXTENSIONS.map(({ extension }) => path + extension);
+}
+
+/**
+ * Whether any precompressed sibling exists for a path
+ */
+export function hasPrecompressedVariants(
+  entries: Record<string, ZipFileEntry>,
+  path: string,
+): boolean {
+  return SIBLING_EXTENSIONS.some(({ extension }) =>
+    Boolean(entries[path + extension]),
+  );
+}
+
+/**
+ * Pick the best precompressed sibling the client accepts, if any.
+ *
+ * Highest q-value wins; ties go to brotli.
+ */
+export function selectPrecompressedVariant(
+  entries: Record<string, ZipFileEntry>,
+  path: string,
+  acceptEncoding: string | null | undefined,
+): PrecompressedVariant | null {
+  const codings = parseAcceptEncoding(acceptEncoding);
+  let best: PrecompressedVariant | null = null;
+  let bestQuality = 0;
+
+  for (const { encoding, extension } of SIBLING_EXTENSIONS) {
+    const entry = entries[path + extension];
+    if (!entry) continue;
+
+    const quality = codings.get(encoding) ?? codings.get("*") ?? 0;
+    if (quality > bestQuality) {
+      best = { entry, encoding };
+      bestQuality = quality;
+    }
+  }
+
+  return best;
+}
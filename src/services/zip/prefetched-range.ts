@@ -0,0 +1,63 @@
+/**
+ * Serve range reads of an archive from bytes already fetched.
+ *
+ * Used when several neighbouring entries are read with one merged request:
+ * entry reads that fall inside the merged range are answered from memory,
+ * anything else goes to the bucket.
+ */
+
+export interface PrefetchedRange {
+  offset: number;
+  bytes: Uint8Array;
+  /** Etag of the object the bytes were read from */
+  etag?: string;
+}
+
+interface RangeReadableBucket {
+  get(key: string, options?: unknown): Promise<unknown>;
+}
+
+interface RangeOptions {
+  range?: { offset?: number; length?: number };
+}
+
+/**
+ * Wrap a bucket so reads of `zipKey` inside `prefetched` need no request
+ */
+export function withPrefetchedRange<B extends RangeReadableBucket>(
+  bucket: B,
+  zipKey: string,
+  prefetched: PrefetchedRange,
+): B {
+  const end = prefetched.offset + prefetched.bytes.length;
+
+  // Only `get` is overridden; everything else resolves to the bucket
+  const wrapped = Object.create(bucket) as B;
+  wrapped.get = async (key: string, options?: unknown) => {
+    const range = (options as RangeOptions | undefined)?.range;
+    const offset = range?.offset;
+    const length = range?.length;
+
+    if (
+      key !== zipKey ||
+      offset === undefined ||
+      length === undefined ||
+      offset < prefetched.offset ||
+      offset + length > end
+    ) {
+      return bucket.get(key, options);
+    }
+
+    const bytes = prefetched.bytes.slice(
+      offset - prefetched.offset,
+      offset - prefetched.offset + length,
+    );
+    return {
+      key,
+      etag: prefetched.etag,
+      body: new Response(bytes).body,
+      arrayBuffer: async () => bytes.buffer,
+    };
+  };
+  return wrapped;
+}
@@ -0,0 +1,151 @@
+import pako from "pako";
+import { updateCrc32 } from "@/utils/crc32";
+import type { ByteRange } from "@/utils/http-range";
+import { createSizeMismatchError } from "./limits";
+
+/**
+ * Create a raw-deflate decompressing TransformStream.
+ *
+ * Prefers the runtime's native `DecompressionStream('deflate-raw')`
+ * (Workers, Node >= 21.2) and falls back to pako's streaming inflater where
+ * the format is not supported.
+ */
+export function createInflateRawStream(): TransformStream<
+  Uint8Array,
+  Uint8Array
+> {
+  if (typeof DecompressionStream !== "undefined") {
+    try {
+      return new DecompressionStream(
+        "deflate-raw",
+      ) as unknown as TransformStream<Uint8Array, Uint8Array>;
+    } catch {
+      // Format not supported by this runtime; use pako below
+    }
+  }
+
+  return createPakoInflateRawStream();
+}
+
+/**
+ * Streaming raw-deflate inflater backed by pako
+ */
+export function createPakoInflateRawStream(): TransformStream<
+  Uint8Array,
+  Uint8Array
+> {
+  const inflator = new pako.Inflate({ raw: true });
+  let pending: Uint8Array[] = [];
+
+  inflator.onData = (chunk) => {
+    pending.push(chunk as Uint8Array);
+  };
+
+  const drain = (controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (inflator.err) {
+      controller.error(new Error(`Inflate failed: ${inflator.msg}`));
+      return;
+    }
+    for (const chunk of pending) {
+      controller.enqueue(chunk);
+    }
+    pending = [];
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      inflator.push(chunk, false);
+      drain(controller);
+    },
+    flush(controller) {
+      inflator.push(new Uint8Array(0), true);
+      drain(controller);
+    },
+  });
+}
+
+/**
+ * Pass-through stream that checks the CRC-32 of everything flowing through it.
+ *
+ * Data is forwarded as it arrives; a CRC mismatch or a short entry errors
+ * the stream at the end, which aborts the response instead of letting the
+ * client cache a silently corrupted file. Output beyond `expectedSize`
+ * errors the stream as soon as it appears.
+ */
+export function createCrc32VerifyStream(
+  expectedCrc32: number,
+  expectedSize: number,
+  name: string,
+): TransformStream<Uint8Array, Uint8Array> {
+  let crc = 0;
+  let length = 0;
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      length += chunk.length;
+      // Stop an entry that inflates past its declared size right away
+      // instead of streaming a zip bomb to the end
+      if (length > expectedSize) {
+        controller.error(
+          createSizeMismatchError(
+            name,
+            expectedSize,
+            `more than ${expectedSize}`,
+          ),
+        );
+        return;
+      }
+      crc = updateCrc32(crc, chunk);
+      controller.enqueue(chunk);
+    },
+    flush(controller) {
+      if (length !== expectedSize) {
+        controller.error(createSizeMismatchError(name, expectedSize, length));
+        return;
+      }
+      if (crc !== expectedCrc32 >>> 0) {
+        controller.error(new Error(`CRC32 mismatch for ${name}`));
+      }
+    },
+  });
+}
+
+/**
+ * Pass on only an inclusive byte range of the data flowing through.
+ *
+ * The stream terminates once the end of the range has gone out, which
+ * cancels everything upstream: a range near the start of a large entry
+ * never pays for inflating or reading the rest of it. Data that ends
+ * before the range does errors the stream.
+ */
+export function createRangeSliceStream(
+  range: ByteRange,
+  name: string,
+): TransformStream<Uint8Array, Uint8Array> {
+  let position = 0;
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      const chunkStart = position;
+      position += chunk.length;
+
+      // Overlap between this chunk and the requested range
+      const from = Math.max(range.start, chunkStart);
+      const to = Math.min(range.end + 1, position);
+      if (from < to) {
+        controller.enqueue(chunk.subarray(from - chunkStart, to - chunkStart));
+      }
+      if (position > range.end) {
+        controller.terminate();
+      }
+    },
+    // Only reached when the data ended before the range did
+    flush(controller) {
+      controller.error(
+        new Error(
+          `Failed to decompress file ${name}: range ${range.start}-${range.end} exceeds inflated data`,
+        ),
+      );
+    },
+  });
+}
@@ -0,0 +1,117 @@
+import { ZipFormatError } from "./errors";
+
+/**
+ * ZIP64 extended information (APPNOTE 4.5.3).
+ *
+ * When a central directory field does not fit in 32 bits it is set to
+ * 0xFFFFFFFF and the real value is stored, as a 64-bit integer, in the
+ * ZIP64 extra field (header ID 0x0001). Only the saturated fields are
+ * present, always in the order: uncompressed size, compressed size,
+ * local header offset, disk start number.
+ */
+
+export const ZIP64_EXTRA_FIELD_ID = 0x0001;
+export const ZIP32_SENTINEL = 0xffffffff;
+
+export interface ExtraField {
+  id: number;
+  data: Uint8Array;
+}
+
+/**
+ * Values from a central directory record that ZIP64 may override
+ */
+export interface Zip64Values {
+  size: number;
+  compressedSize: number;
+  offset: number;
+}
+
+/**
+ * Read a little-endian unsigned 64-bit integer as a JS number.
+ *
+ * Offsets and sizes above 2^53 cannot be represented exactly and are
+ * rejected rather than silently rounded.
+ */
+export function readUint64LE(data: Uint8Array, offset: number): number {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const low = view.getUint32(offset, true);
+  const high = view.getUint32(offset + 4, true);
+  const value = high * 0x100000000 + low;
+
+  if (!Number.isSafeInteger(value)) {
+    throw new ZipFormatError(`64-bit value ${high}:${low} exceeds safe range`);
+  }
+
+  return value;
+}
+
+/**
+ * Split a raw extra field block into its (id, data) records
+ */
+export function parseExtraFields(block: Uint8Array): ExtraField[] {
+  const fields: ExtraField[] = [];
+  const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+  let position = 0;
+
+  while (position + 4 <= block.length) {
+    const id = view.getUint16(position, true);
+    const size = view.getUint16(position + 2, true);
+    const start = position + 4;
+    const end = start + size;
+
+    if (end > block.length) {
+      throw new ZipFormatError(
+        `Extra field 0x${id.toString(16)} overruns its block`,
+      );
+    }
+
+    fields.push({ id, data: block.subarray(start, end) });
+    position = end;
+  }
+
+  return fields;
+}
+
+/**
+ * Replace saturated 32-bit values with the ones from the ZIP64 extra field.
+ *
+ * Throws a `ZipFormatError` when a field is saturated but the extra field
+ * is missing or too short, instead of serving from a bogus offset.
+ */
+export function resolveZip64Values(
+  values: Zip64Values,
+  extraFields: ExtraField[] | undefined,
+  name: string,
+): Zip64Values {
+  const needsSize = values.size === ZIP32_SENTINEL;
+  const needsCompressedSize = values.compressedSize === ZIP32_SENTINEL;
+  const needsOffset = values.offset === ZIP32_SENTINEL;
+
+  if (!needsSize && !needsCompressedSize && !needsOffset) {
+    return values;
+  }
+
+  const field = extraFields?.find((f) => f.id === ZIP64_EXTRA_FIELD_ID);
+  if (!field) {
+    throw new ZipFormatError(`Missing ZIP64 extra field for ${name}`);
+  }
+
+  const resolved = { ...values };
+  let position = 0;
+
+  const next = (label: string): number => {
+    if (position + 8 > field.data.length) {
+      throw new ZipFormatError(`ZIP64 extra field for ${name} lacks ${label}`);
+    }
+    const value = readUint64LE(field.data, position);
+    position += 8;
+    return value;
+  };
+
+  if (needsSize) resolved.size = next("uncompressed size");
+  if (needsCompressedSize) resolved.compressedSize = next("compressed size");
+  if (needsOffset) resolved.offset = next("local header offset");
+
+  return resolved;
+}
@@ -0,0 +1,42 @@
+import type { Env } from "./env";
+import type { ProjectSettings } from "./project";
+import type { ProjectVisibility } from "@/services/visibility";
+import type { ResponseCacheAdapter } from "@/adapters/response-cache/interface";
+import type { DirectoryCache } from "@/services/zip/directory-cache";
+import type { PrefetchHintCache } from "@/services/html-prefetch";
+import type { ArchiveVersionCache } from "@/services/zip/archive-version";
+import type { CacheAdapter } from "@/adapters/cache/interface";
+
+export interface AuthContext {
+  uid?: string;
+  email?: string;
+  isAuthenticated: boolean;
+  /** Id of the share link that admitted an anonymous viewer */
+  shareLinkId?: string;
+  /** Id of the API token that admitted a headless viewer */
+  apiTokenId?: string;
+}
+
+/**
+ * Request-scoped values shared between middleware and routes
+ */
+export interface AppVariables {
+  /** Settings of the requested project, set by the auth middleware */
+  projectSettings?: ProjectSettings;
+  /** Visibility of the requested project, set by the auth middleware */
+  projectVisibility?: ProjectVisibility;
+  /** Viewer of a private project, set once the auth middleware admits them */
+  auth?: AuthContext;
+  /** Shared cache for directories, visibility and auth (KV, Redis or memory) */
+  cache?: CacheAdapter;
+  /** Response cache for served files; absent when disabled */
+  responseCache?: ResponseCacheAdapter;
+  /** In-isolate cache of parsed central directories */
+  directoryCache?: DirectoryCache;
+  /** In-isolate cache of the preload hints of served HTML documents */
+  prefetchHintCache?: PrefetchHintCache;
+  /** In-isolate cache of recently HEADed archive versions */
+  archiveVersionCache?: ArchiveVersionCache;
+}
+
+export type AppEnv = { Bindings: Env; Variables: AppVariables };
@@ -15,6 +15,14 @@ export interface Env {
   // Service account auth for Firestore (Option B)
   FIREBASE_CLIENT_EMAIL?: string;
   FIREBASE_PRIVATE_KEY?: string;
+  /** HMAC secret for share links to private projects; share links are disabled when unset */
+  SHARE_LINK_SECRET?: string;
+  /** Dashboard login page; browsers without a session are redirected there with a `returnTo` parameter */
+  LOGIN_URL?: string;
+  /** Page where viewers ask for access to a private project, linked from the access denied page with `projectId` and `returnTo` */
+  ACCESS_REQUEST_URL?: string;
+  /** Seconds a cached project visibility may be served past its 60 s freshness while Firestore is refreshed or down (default 3600) */
+  VISIBILITY_MAX_STALE_SECONDS?: string;
 
   // Docker/R2 specific
   STORAGE_TYPE?: "r2" | "filesystem";
@@ -27,6 +35,8 @@ export interface Env {
   // Cache
   REDIS_URL?: string;
   CACHE_TTL?: string;
+  /** Memory budget of the in-memory cache used without KV or Redis, in bytes (default 32 MB) */
+  CACHE_MAX_BYTES?: string;
 
   // Server
   PORT?: string;
@@ -46,10 +56,43 @@ export interface Env {
   BASE_DOMAIN?: string;
   SUBDOMAIN_PATTERN?: string;
 
+  // Response cache (Cache API on Workers, in-memory LRU on Docker)
+  /** Set to "false" to disable the response cache */
+  RESPONSE_CACHE_ENABLED?: string;
+  /** Memory budget of the Docker in-memory response cache in bytes (default 64 MB) */
+  RESPONSE_CACHE_MAX_BYTES?: string;
+  /** Preload hints for assets referenced by served HTML: "off", "link" (default) or "warm" (also fills the response cache) */
+  HTML_PREFETCH?: string;
+
+  // Path resolution
+  /** Set to "false" to answer unmatched extensionless paths with 404 instead of the SPA fallback */
+  SPA_FALLBACK?: string;
+  /** File served as the SPA fallback (default "index.html") */
+  SPA_FALLBACK_FILE?: string;
+
   // ZIP Extraction Configuration
+  /** Set to "false" to serve exploded objects only, regardless of project settings */
   ZIP_EXTRACTION_ENABLED?: string;
+  /** Default serving strategy: "zip" (default), "exploded" or "zip-then-exploded" */
+  SERVING_STRATEGY?: string;
   ZIP_CACHE_TTL?: string;
   ZIP_MAX_FILE_SIZE?: string;
+  /** Maximum uncompressed:compressed ratio for deflated entries (default 200) */
+  ZIP_MAX_COMPRESSION_RATIO?: string;
+  /** Maximum number of entries in an archive (default 250000) */
+  ZIP_MAX_ENTRIES?: string;
+  /** Parsed central directories kept in memory per isolate (default 20, 0 disables) */
+  ZIP_CD_MEMORY_CACHE_SIZE?: string;
+  /** Lifetime of an in-memory central directory in seconds (default 300) */
+  ZIP_CD_MEMORY_CACHE_TTL?: string;
+  /** KV encoding for new central directory entries: "json" (default) or "binary"; binary mode reads both, json mode rebuilds binary entries from R2 */
+  ZIP_CD_ENCODING?: string;
+  /** Set to "false" to skip looking for prebuilt index.cd.json sidecars next to archives */
+  ZIP_CD_SIDECAR?: string;
+
+  // Admin
+  /** Bearer token for /admin endpoints; they answer 404 when unset */
+  ADMIN_TOKEN?: string;
 }
 
 export interface CloudflareEnv extends Env {
@@ -0,0 +1,19 @@
+// Per-project settings stored on the Firestore project document
+
+/**
+ * Where a project's files are served from:
+ * - `zip`: entries of `{project}/{version}/storybook.zip`
+ * - `exploded`: plain objects under `{project}/{version}/`
+ * - `zip-then-exploded`: the archive first, then plain objects
+ */
+export type ServingStrategy = "zip" | "exploded" | "zip-then-exploded";
+
+export interface ProjectSettings {
+  /** Overrides the deployment default serving strategy */
+  servingStrategy?: ServingStrategy;
+  /**
+   * Serve the SPA fallback file for unmatched extensionless paths;
+   * overrides SPA_FALLBACK. Turn off so missing pages stay real 404s.
+   */
+  spaFallback?: boolean;
+}
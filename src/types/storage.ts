@@ -36,7 +36,15 @@ export interface StorageListResult {
 // Cache adapter types
 export interface CacheAdapter {
   get(key: string): Promise<string | null>;
-  set(key: string, value: string, ttl?: number): Promise<void>;
+  /** Value parsed as JSON, or null on a miss */
+  getJson<T = unknown>(key: string): Promise<T | null>;
+  /** Value as raw bytes (binary values such as encoded central directories) */
+  getArrayBuffer(key: string): Promise<ArrayBuffer | null>;
+  /**
+   * Store a value for `ttl` seconds: the adapter's default when omitted,
+   * without expiry when null
+   */
+  set(key: string, value: string | ArrayBuffer, ttl?: number | null): Promise<void>;
   delete(key: string): Promise<void>;
   exists(key: string): Promise<boolean>;
 }
\ No newline at end of file
@@ -9,6 +9,22 @@ export interface ZipCentralDirectory {
   totalSize: number;
   /** ISO timestamp when cached */
   cachedAt: string;
+  /** Archive comment, if any */
+  comment?: string;
+  /** R2 etag of the archive the directory was read from */
+  etag?: string;
+}
+
+/**
+ * Random-access reader over a ZIP archive (e.g. R2RangeReader)
+ */
+export interface ZipRangeReader {
+  /** Total size of the archive in bytes */
+  getLength(): Promise<number>;
+  /** Read `length` bytes starting at `offset` */
+  read(offset: number, length: number): Promise<Uint8Array>;
+  /** Version tag of the archive (e.g. the R2 etag), when the source has one */
+  getEtag?(): Promise<string | undefined>;
 }
 
 /**
@@ -27,6 +43,14 @@ export interface ZipFileEntry {
   crc32: number;
   /** Compression method (0=stored, 8=deflate) */
   compressionMethod: number;
+  /** Last modification time in ms since epoch, from the DOS timestamp (interpreted as UTC) */
+  lastModified?: number;
+  /** General purpose bit flags (bit 3 = data descriptor, bit 11 = UTF-8 names) */
+  flags?: number;
+  /** External file attributes (host-dependent, e.g. Unix mode in the high 16 bits) */
+  externalAttributes?: number;
+  /** Per-entry comment, if any */
+  comment?: string;
 }
 
 /**
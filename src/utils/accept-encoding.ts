@@ -0,0 +1,49 @@
+/**
+ * Accept-Encoding negotiation helpers (RFC 9110 §12.5.3)
+ */
+
+/**
+ * Parse an Accept-Encoding header into a map of coding -> q-value
+ */
+export function parseAcceptEncoding(
+  header: string | null | undefined,
+): Map<string, number> {
+  const codings = new Map<string, number>();
+
+  if (!header) {
+    return codings;
+  }
+
+  for (const part of header.split(",")) {
+    const [rawCoding, ...params] = part.trim().split(";");
+    const coding = rawCoding.trim().toLowerCase();
+    if (!coding) continue;
+
+    let quality = 1;
+    for (const param of params) {
+      const [key, value] = param.trim().split("=");
+      if (key?.trim().toLowerCase() === "q") {
+        const parsed = Number.parseFloat(value);
+        quality = Number.isNaN(parsed) ? 0 : parsed;
+      }
+    }
+
+    codings.set(coding, quality);
+  }
+
+  return codings;
+}
+
+/**
+ * Check whether the client accepts a content coding.
+ *
+ * An explicit entry wins over the `*` wildcard; `q=0` means "not acceptable".
+ */
+export function acceptsEncoding(
+  header: string | null | undefined,
+  encoding: string,
+): boolean {
+  const codings = parseAcceptEncoding(header);
+  const quality = codings.get(encoding) ?? codings.get("*");
+  return quality !== undefined && quality > 0;
+}
@@ -0,0 +1,36 @@
+/**
+ * CRC-32 (IEEE 802.3, as used by ZIP and gzip)
+ */
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Fold a chunk into a running CRC-32.
+ *
+ * Start with 0; feeding chunks one after another yields the same value as
+ * hashing their concatenation, so large files can be checked incrementally.
+ */
+export function updateCrc32(crc: number, chunk: Uint8Array): number {
+  let value = ~crc;
+  for (let i = 0; i < chunk.length; i++) {
+    value = CRC32_TABLE[(value ^ chunk[i]) & 0xff] ^ (value >>> 8);
+  }
+  return ~value >>> 0;
+}
+
+/**
+ * Compute the CRC-32 of a complete buffer
+ */
+export function crc32(data: Uint8Array): number {
+  return updateCrc32(0, data);
+}
@@ -0,0 +1,29 @@
+import type { Context } from "hono";
+
+/**
+ * Run work after the response is sent.
+ *
+ * On Workers the promise is handed to `executionCtx.waitUntil` so the
+ * isolate stays alive for it; elsewhere (Node.js, tests) there is no
+ * execution context and the promise simply runs to completion. Failures
+ * are logged, never surfaced to the request.
+ */
+export function runInBackground(
+  c: Context,
+  promise: Promise<unknown>,
+  label: string,
+): void {
+  const settled = promise.catch((error) => {
+    console.error(`[ERROR] Background task failed (${label}):`, error);
+  });
+
+  let executionCtx: { waitUntil(promise: Promise<unknown>): void } | undefined;
+  try {
+    executionCtx = c.executionCtx;
+  } catch {
+    // Hono throws when the runtime provides no execution context
+    executionCtx = undefined;
+  }
+
+  executionCtx?.waitUntil(settled);
+}
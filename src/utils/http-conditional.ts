@@ -0,0 +1,78 @@
+/**
+ * HTTP conditional request helpers (RFC 9110 §13).
+ */
+
+export interface Validators {
+  /** Strong entity tag, including quotes */
+  etag: string;
+  /** Last modification time in ms since epoch */
+  lastModified?: number;
+}
+
+/**
+ * Format a timestamp as an IMF-fixdate (e.g. for Last-Modified)
+ */
+export function formatHttpDate(timestamp: number): string {
+  return new Date(timestamp).toUTCString();
+}
+
+/**
+ * Parse an HTTP-date header value; returns undefined when invalid
+ */
+export function parseHttpDate(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function stripWeakPrefix(tag: string): string {
+  return tag.startsWith("W/") ? tag.slice(2) : tag;
+}
+
+/**
+ * Weak comparison of an If-None-Match header against the current ETag
+ */
+export function matchesIfNoneMatch(header: string, etag: string): boolean {
+  const value = header.trim();
+  if (value === "*") {
+    return true;
+  }
+
+  const current = stripWeakPrefix(etag);
+
+  return value
+    .split(",")
+    .map((tag) => stripWeakPrefix(tag.trim()))
+    .some((tag) => tag === current);
+}
+
+/**
+ * Decide whether a GET/HEAD request can be answered with 304 Not Modified.
+ *
+ * If-None-Match takes precedence; If-Modified-Since is only evaluated when
+ * If-None-Match is absent, as required by the spec.
+ */
+export function isNotModified(
+  headers: { ifNoneMatch?: string | null; ifModifiedSince?: string | null },
+  validators: Validators,
+): boolean {
+  if (headers.ifNoneMatch) {
+    return matchesIfNoneMatch(headers.ifNoneMatch, validators.etag);
+  }
+
+  if (headers.ifModifiedSince && validators.lastModified !== undefined) {
+    const since = parseHttpDate(headers.ifModifiedSince);
+    if (since === undefined) {
+      return false;
+    }
+
+    // HTTP dates have one-second resolution
+    const lastModifiedSeconds = Math.floor(validators.lastModified / 1000);
+    return lastModifiedSeconds <= Math.floor(since / 1000);
+  }
+
+  return false;
+}
@@ -0,0 +1,128 @@
+/**
+ * HTTP Range request helpers (RFC 9110 §14).
+ *
+ * Only single byte ranges are served. Multi-range requests are treated as
+ * if no Range header was sent, which the spec explicitly allows, so clients
+ * fall back to a regular 200 response instead of multipart/byteranges.
+ */
+
+import { parseHttpDate } from "./http-conditional";
+
+/** Inclusive byte range within a representation */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export type RangeParseResult =
+  | { type: "none" }
+  | { type: "range"; range: ByteRange }
+  | { type: "unsatisfiable" };
+
+/**
+ * Parse a Range header against a representation of `size` bytes.
+ *
+ * Returns `none` for absent, malformed or multi-range headers (serve 200),
+ * `unsatisfiable` when the range lies outside the representation (serve 416).
+ */
+export function parseRangeHeader(
+  header: string | null | undefined,
+  size: number,
+): RangeParseResult {
+  if (!header) {
+    return { type: "none" };
+  }
+
+  const match = header.trim().match(/^bytes\s*=\s*(\d*)\s*-\s*(\d*)$/i);
+  if (!match) {
+    return { type: "none" };
+  }
+
+  const [, rawStart, rawEnd] = match;
+
+  if (!rawStart && !rawEnd) {
+    return { type: "none" };
+  }
+
+  // Suffix range: last N bytes
+  if (!rawStart) {
+    const suffixLength = Number.parseInt(rawEnd, 10);
+    if (suffixLength === 0 || size === 0) {
+      return { type: "unsatisfiable" };
+    }
+    return {
+      type: "range",
+      range: { start: Math.max(0, size - suffixLength), end: size - 1 },
+    };
+  }
+
+  const start = Number.parseInt(rawStart, 10);
+  const end = rawEnd ? Number.parseInt(rawEnd, 10) : size - 1;
+
+  if (rawEnd && end < start) {
+    return { type: "none" };
+  }
+
+  if (start >= size) {
+    return { type: "unsatisfiable" };
+  }
+
+  return {
+    type: "range",
+    range: { start, end: Math.min(end, size - 1) },
+  };
+}
+
+/**
+ * Evaluate an If-Range precondition.
+ *
+ * Returns true when the Range header should be honored. An entity-tag
+ * If-Range must match the current strong ETag exactly (weak validators never
+ * match); an HTTP-date If-Range must equal the Last-Modified time.
+ */
+export function isRangeConditionMet(
+  ifRange: string | null | undefined,
+  etag: string,
+  lastModified?: number,
+): boolean {
+  if (!ifRange) {
+    return true;
+  }
+
+  const value = ifRange.trim();
+  if (value.startsWith("W/")) {
+    return false;
+  }
+
+  if (value.startsWith('"')) {
+    return value === etag;
+  }
+
+  const date = parseHttpDate(value);
+  if (date === undefined || lastModified === undefined) {
+    return false;
+  }
+
+  return Math.floor(date / 1000) === Math.floor(lastModified / 1000);
+}
+
+/**
+ * Format a Content-Range header value
+ */
+export function formatContentRange(range: ByteRange, size: number): string {
+  return `bytes ${range.start}-${range.end}/${size}`;
+}
+
+/**
+ * Format the Content-Range value sent with 416 responses
+ */
+export function formatUnsatisfiedRange(size: number): string {
+  return `bytes */${size}`;
+}
+
+/**
+ * Number of bytes covered by an inclusive range
+ */
+export function getRangeLength(range: ByteRange): number {
+  return range.end - range.start + 1;
+}
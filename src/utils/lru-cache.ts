@@ -0,0 +1,86 @@
+/**
+ * Bounded least-recently-used cache with a per-entry time to live
+ */
+
+export interface LruCacheOptions {
+  /** Maximum number of entries; the least recently used is evicted beyond it */
+  maxEntries: number;
+  /** Lifetime of an entry in ms */
+  ttlMs: number;
+}
+
+export interface LruCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  maxEntries: number;
+}
+
+interface LruEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+export class LruCache<V> {
+  private entries = new Map<string, LruEntry<V>>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private options: LruCacheOptions) {}
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Map iteration order doubles as recency order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    if (this.options.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: Date.now() + this.options.ttlMs,
+    });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  stats(): LruCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+      maxEntries: this.options.maxEntries,
+    };
+  }
+}
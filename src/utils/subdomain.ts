@@ -76,6 +76,12 @@ function isVersionSegment(segment: string): boolean {
 export interface PathInfo {
   uuid: string; // Kept for compatibility, will be projectId-versionId
   filePath: string;
+  /**
+   * Path below the project root as written in the URL, trailing slash kept
+   * ("" for the bare root, "/" for the root with a slash). Unlike filePath
+   * it has no index.html default.
+   */
+  requestPath?: string;
   isValid: boolean;
   resolution?: UUIDResolution;
 }
@@ -163,6 +169,7 @@ export function parsePathForUUID(pathname: string): PathInfo | null {
   return {
     uuid: resolution.uuid,
     filePath: filePath || "index.html", // Default to index.html if no file path
+    requestPath: filePath + (pathname.endsWith("/") ? "/" : ""),
     isValid: true,
     resolution,
   };
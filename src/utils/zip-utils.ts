@@ -22,13 +22,21 @@ export function normalizePath(pathname: string): string {
 }
 
 /**
- * Generate possible file paths for fallback logic
+ * Whether the last segment of a path has a file extension
+ */
+export function hasFileExtension(path: string): boolean {
+  return path.slice(path.lastIndexOf('/') + 1).includes('.');
+}
+
+/**
+ * Generate possible file paths for fallback logic, in resolution order:
+ * the exact path, then `path/index.html`, then `path.html`
  */
 export function getPossiblePaths(path: string): string[] {
   const paths = [path];
 
   // Try with /index.html if no extension
-  if (!path.includes('.')) {
+  if (!hasFileExtension(path)) {
     paths.push(`${path}/index.html`);
     paths.push(`${path}.html`);
   }
@@ -36,6 +44,28 @@ export function getPossiblePaths(path: string): string[] {
   return paths;
 }
 
+/**
+ * Convert an MS-DOS date/time pair (as stored in ZIP headers) to ms since epoch.
+ *
+ * DOS timestamps carry no timezone; they are interpreted as UTC so the
+ * result is stable across isolates. Returns undefined for the all-zero
+ * value some zippers write when no timestamp is known.
+ */
+export function dosDateTimeToTimestamp(date: number, time: number): number | undefined {
+  if (!date) {
+    return undefined;
+  }
+
+  const day = date & 0x1f;
+  const month = (date >> 5) & 0x0f;
+  const year = ((date >> 9) & 0x7f) + 1980;
+  const seconds = (time & 0x1f) * 2;
+  const minutes = (time >> 5) & 0x3f;
+  const hours = (time >> 11) & 0x1f;
+
+  return Date.UTC(year, month - 1, day, hours, minutes, seconds);
+}
+
 /**
  * Get cache control header based on file type
  */
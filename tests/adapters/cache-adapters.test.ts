@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MemoryCacheAdapter } from '@/adapters/cache/memory';
+import { KvCacheAdapter } from '@/adapters/cache/kv';
+import { createCacheAdapter, getKvCacheAdapter } from '@/adapters/cache/factory';
+
+describe('MemoryCacheAdapter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores strings, JSON and bytes', async () => {
+    const cache = new MemoryCacheAdapter({ maxBytes: 1024 });
+
+    await cache.set('text', 'hello');
+    await cache.set('json', JSON.stringify({ a: 1 }));
+    await cache.set('bytes', new Uint8Array([1, 2, 3]).buffer);
+
+    expect(await cache.get('text')).toBe('hello');
+    expect(await cache.getJson('json')).toEqual({ a: 1 });
+    expect([...new Uint8Array((await cache.getArrayBuffer('bytes'))!)]).toEqual([1, 2, 3]);
+    expect(new TextDecoder().decode((await cache.getArrayBuffer('text'))!)).toBe('hello');
+    expect(await cache.get('missing')).toBeNull();
+    expect(await cache.exists('text')).toBe(true);
+    expect(await cache.exists('missing')).toBe(false);
+  });
+
+  it('does not share stored bytes with callers', async () => {
+    const cache = new MemoryCacheAdapter({ maxBytes: 1024 });
+    const bytes = new Uint8Array([1, 2, 3]);
+
+    await cache.set('bytes', bytes.buffer);
+    bytes[0] = 9;
+    new Uint8Array((await cache.getArrayBuffer('bytes'))!)[1] = 9;
+
+    expect([...new Uint8Array((await cache.getArrayBuffer('bytes'))!)]).toEqual([1, 2, 3]);
+  });
+
+  it('expires values after their TTL', async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryCacheAdapter({ maxBytes: 1024, defaultTtl: 60 });
+
+    await cache.set('short', 'a', 10);
+    await cache.set('default', 'b');
+    vi.advanceTimersByTime(11_000);
+
+    expect(await cache.get('short')).toBeNull();
+    expect(await cache.get('default')).toBe('b');
+
+    vi.advanceTimersByTime(50_000);
+    expect(await cache.get('default')).toBeNull();
+  });
+
+  it('keeps values stored without expiry past the default TTL', async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryCacheAdapter({ maxBytes: 1024, defaultTtl: 60 });
+
+    await cache.set('forever', 'a', null);
+    vi.advanceTimersByTime(3_600_000);
+
+    expect(await cache.get('forever')).toBe('a');
+  });
+
+  it('evicts the least recently used values beyond its budget', async () => {
+    // Two-character strings take 4 bytes
+    const cache = new MemoryCacheAdapter({ maxBytes: 8 });
+
+    await cache.set('a', 'aa');
+    await cache.set('b', 'bb');
+    await cache.get('a');
+    await cache.set('c', 'cc');
+
+    expect(await cache.get('a')).toBe('aa');
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).toBe('cc');
+  });
+
+  it('deletes values', async () => {
+    const cache = new MemoryCacheAdapter({ maxBytes: 1024 });
+
+    await cache.set('a', 'aa');
+    await cache.delete('a');
+
+    expect(await cache.get('a')).toBeNull();
+  });
+});
+
+describe('KvCacheAdapter', () => {
+  const createKv = () => ({
+    get: vi.fn(async () => null),
+    put: vi.fn(async () => {}),
+    delete: vi.fn(async () => {})
+  });
+
+  it('reads values with the matching KV type', async () => {
+    const kv = createKv();
+    const cache = new KvCacheAdapter(kv as any);
+
+    await cache.get('a');
+    await cache.getJson('b');
+    await cache.getArrayBuffer('c');
+
+    expect(kv.get.mock.calls).toEqual([
+      ['a', 'text'],
+      ['b', 'json'],
+      ['c', 'arrayBuffer']
+    ]);
+  });
+
+  it('writes TTLs as KV expirations of at least a minute', async () => {
+    const kv = createKv();
+    const cache = new KvCacheAdapter(kv as any, 300);
+
+    await cache.set('a', 'x', 3600);
+    await cache.set('b', 'x', 5);
+    await cache.set('c', 'x');
+    await cache.set('d', 'x', null);
+
+    expect(kv.put.mock.calls).toEqual([
+      ['a', 'x', { expirationTtl: 3600 }],
+      ['b', 'x', { expirationTtl: 60 }],
+      ['c', 'x', { expirationTtl: 300 }],
+      ['d', 'x', undefined]
+    ]);
+  });
+});
+
+describe('createCacheAdapter', () => {
+  it('uses KV when bound', async () => {
+    const env = { CDN_CACHE: {} } as any;
+
+    expect(await createCacheAdapter(env)).toBeInstanceOf(KvCacheAdapter);
+    expect(getKvCacheAdapter(env)).toBeInstanceOf(KvCacheAdapter);
+  });
+
+  it('falls back to memory without KV or Redis', async () => {
+    expect(await createCacheAdapter({} as any)).toBeInstanceOf(MemoryCacheAdapter);
+    expect(getKvCacheAdapter({} as any)).toBeUndefined();
+  });
+
+  it('connects to Redis when REDIS_URL is set', async () => {
+    const cache = await createCacheAdapter({ REDIS_URL: 'redis://localhost:6379' } as any);
+
+    expect(cache.constructor.name).toBe('RedisCacheAdapter');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MemoryResponseCache, getSharedMaxAge } from '@/adapters/response-cache/memory';
+
+describe('MemoryResponseCache', () => {
+  const response = (body: string, cacheControl = 'public, max-age=3600', status = 200) =>
+    new Response(body, { status, headers: { 'Cache-Control': cacheControl, ETag: '"1"' } });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getSharedMaxAge', () => {
+    it('reads max-age and prefers s-maxage', () => {
+      expect(getSharedMaxAge('public, max-age=3600')).toBe(3600);
+      expect(getSharedMaxAge('public, max-age=60, s-maxage=600')).toBe(600);
+    });
+
+    it('returns 0 for responses that must not be stored', () => {
+      expect(getSharedMaxAge(null)).toBe(0);
+      expect(getSharedMaxAge('public, max-age=0, must-revalidate')).toBe(0);
+      expect(getSharedMaxAge('private, max-age=3600')).toBe(0);
+      expect(getSharedMaxAge('no-store')).toBe(0);
+    });
+  });
+
+  it('stores and returns responses with their headers', async () => {
+    const cache = new MemoryResponseCache({ maxBytes: 1024 });
+
+    await cache.put('a', response('hello'));
+    const cached = await cache.match('a');
+
+    expect(cached?.status).toBe(200);
+    expect(cached?.headers.get('ETag')).toBe('"1"');
+    expect(await cached?.text()).toBe('hello');
+    // Each match gets its own body
+    expect(await (await cache.match('a'))?.text()).toBe('hello');
+  });
+
+  it('follows Cache-Control', async () => {
+    const cache = new MemoryResponseCache({ maxBytes: 1024 });
+
+    await cache.put('html', response('<html>', 'public, max-age=0, must-revalidate'));
+    await cache.put('error', response('nope', 'public, max-age=3600', 404));
+
+    expect(await cache.match('html')).toBeUndefined();
+    expect(await cache.match('error')).toBeUndefined();
+  });
+
+  it('expires entries after max-age', async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryResponseCache({ maxBytes: 1024 });
+
+    await cache.put('a', response('hello', 'public, max-age=60'));
+    vi.advanceTimersByTime(59_000);
+    expect(await cache.match('a')).toBeDefined();
+
+    vi.advanceTimersByTime(1_000);
+    expect(await cache.match('a')).toBeUndefined();
+  });
+
+  it('evicts least recently used entries beyond the byte budget', async () => {
+    const cache = new MemoryResponseCache({ maxBytes: 10 });
+
+    await cache.put('a', response('aaaa'));
+    await cache.put('b', response('bbbb'));
+    await cache.match('a');
+    await cache.put('c', response('cccc'));
+
+    expect(await cache.match('a')).toBeDefined();
+    expect(await cache.match('b')).toBeUndefined();
+    expect(await cache.match('c')).toBeDefined();
+  });
+
+  it('skips bodies larger than the whole budget', async () => {
+    const cache = new MemoryResponseCache({ maxBytes: 4 });
+
+    await cache.put('a', response('too large'));
+
+    expect(await cache.match('a')).toBeUndefined();
+  });
+
+  it('deletes entries', async () => {
+    const cache = new MemoryResponseCache({ maxBytes: 1024 });
+
+    await cache.put('a', response('hello'));
+
+    expect(await cache.delete('a')).toBe(true);
+    expect(await cache.delete('a')).toBe(false);
+    expect(await cache.match('a')).toBeUndefined();
+  });
+});
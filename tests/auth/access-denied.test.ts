@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { accessDenied, getLoginRedirectUrl, renderAccessDeniedPage } from '@/auth/access-denied';
+
+describe('access denied responses', () => {
+  const app = new Hono<any>();
+  app.get('/required', (c) => accessDenied(c, 'AUTH_REQUIRED', 'p1'));
+  app.get('/member', (c) => accessDenied(c, 'AUTH_NOT_MEMBER', 'p1'));
+
+  const env = {
+    LOGIN_URL: 'https://dashboard.scrymore.com/login?from=cdn',
+    ACCESS_REQUEST_URL: 'https://dashboard.scrymore.com/request-access'
+  };
+  const html = { Accept: 'text/html', 'Sec-Fetch-Mode': 'navigate' };
+
+  it('adds returnTo to the login URL', () => {
+    expect(getLoginRedirectUrl('https://example.com/login?from=cdn', 'https://view.example.com/p/v/')).toBe(
+      'https://example.com/login?from=cdn&returnTo=https%3A%2F%2Fview.example.com%2Fp%2Fv%2F'
+    );
+    expect(getLoginRedirectUrl(undefined, 'https://view.example.com/')).toBeNull();
+    expect(getLoginRedirectUrl('not a url', 'https://view.example.com/')).toBeNull();
+  });
+
+  it('answers API and asset requests with a JSON code', async () => {
+    const res = await app.fetch(new Request('https://view.example.com/member'), env);
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: 'You are not a member of this project', code: 'AUTH_NOT_MEMBER' });
+  });
+
+  it('does not treat fetches accepting HTML as navigations', async () => {
+    const res = await app.fetch(
+      new Request('https://view.example.com/required', { headers: { Accept: 'text/html', 'Sec-Fetch-Mode': 'cors' } }),
+      env
+    );
+
+    expect(res.status).toBe(401);
+    expect(res.headers.get('Content-Type')).toContain('application/json');
+  });
+
+  it('redirects signed-out navigations to the login page', async () => {
+    const res = await app.fetch(new Request('https://view.example.com/required', { headers: html }), env);
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('Location')).toBe(
+      'https://dashboard.scrymore.com/login?from=cdn&returnTo=https%3A%2F%2Fview.example.com%2Frequired'
+    );
+  });
+
+  it('shows non-members the interstitial instead of a login loop', async () => {
+    const res = await app.fetch(new Request('https://view.example.com/member', { headers: html }), env);
+
+    expect(res.status).toBe(403);
+    const page = await res.text();
+    expect(page).toContain('Request access');
+    expect(page).toContain('Sign in with another account');
+  });
+
+  it('escapes values in the interstitial', () => {
+    const page = renderAccessDeniedPage({
+      code: 'AUTH_REQUIRED',
+      projectId: '<script>',
+      requestAccessUrl: 'https://example.com/?a="b"',
+      loginUrl: null
+    });
+
+    expect(page).not.toContain('<script>');
+    expect(page).toContain('&lt;script&gt;');
+    expect(page).toContain('href="https://example.com/?a=&quot;b&quot;"');
+    expect(page).not.toContain('>Sign in</a>');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createApiToken,
+  deleteApiToken,
+  getApiToken,
+  getBearerToken,
+  hashApiToken,
+  storeApiToken
+} from '@/auth/api-tokens';
+import { MemoryCacheAdapter } from '@/adapters/cache/memory';
+
+vi.mock('@/services/firestore-auth', () => ({
+  getFirestoreAccessToken: vi.fn(),
+  isServiceAccountConfigured: vi.fn()
+}));
+
+import { getFirestoreAccessToken, isServiceAccountConfigured } from '@/services/firestore-auth';
+
+describe('API tokens', () => {
+  const env = { FIREBASE_PROJECT_ID: 'test-project' } as any;
+  const originalFetch = global.fetch;
+  let cache: MemoryCacheAdapter;
+
+  beforeEach(() => {
+    cache = new MemoryCacheAdapter({ maxBytes: 64 * 1024 });
+    (isServiceAccountConfigured as any).mockReturnValue(false);
+    (getFirestoreAccessToken as any).mockResolvedValue(null);
+    global.fetch = vi.fn().mockResolvedValue(new Response('{}', { status: 404 }));
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.useRealTimers();
+  });
+
+  it('reads bearer tokens from the Authorization header', () => {
+    expect(getBearerToken('Bearer scry_abc')).toBe('scry_abc');
+    expect(getBearerToken('bearer scry_abc')).toBe('scry_abc');
+    expect(getBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+    expect(getBearerToken(undefined)).toBeNull();
+  });
+
+  it('stores only the hash of issued tokens', async () => {
+    const { token, record } = await createApiToken({ projectId: 'p1', name: 'ci' });
+
+    expect(token).toMatch(/^scry_[A-Za-z0-9_-]{43}$/);
+    expect(record).toEqual({ id: await hashApiToken(token), projectId: 'p1', name: 'ci', scopes: ['read'] });
+    expect(JSON.stringify(record)).not.toContain(token.slice(5));
+  });
+
+  it('finds tokens stored in the cache and records their use', async () => {
+    const { token, record } = await createApiToken({ projectId: 'p1' });
+    await storeApiToken(cache, record);
+
+    const found = await getApiToken(token, env, { cache });
+
+    expect(found).toMatchObject({ id: record.id, projectId: 'p1', scopes: ['read'], source: 'cache' });
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(Number(await cache.get(`api-token-used:${record.id}`))).toBeGreaterThan(0);
+    expect(await cache.getJson(`api-token:${record.id}`)).toEqual(record);
+    expect((await getApiToken(token, env, { cache }))?.lastUsedAt).toBeTypeOf('number');
+  });
+
+  it('keeps tokens without expiry past the cache default TTL', async () => {
+    vi.useFakeTimers();
+    cache = new MemoryCacheAdapter({ maxBytes: 64 * 1024, defaultTtl: 60 });
+    const { token, record } = await createApiToken({ projectId: 'p1' });
+    await storeApiToken(cache, record);
+    await getApiToken(token, env, { cache });
+
+    vi.advanceTimersByTime(120_000);
+
+    expect(await cache.getJson(`api-token:${record.id}`)).toEqual(record);
+    expect(await cache.exists(`api-token-used:${record.id}`)).toBe(true);
+    expect(await getApiToken(token, env, { cache })).not.toBeNull();
+  });
+
+  it('keeps a token revoked while its use is being recorded', async () => {
+    const { token, record } = await createApiToken({ projectId: 'p1' });
+    await storeApiToken(cache, record);
+    // Hold the last-use write until the token is revoked
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    const set = cache.set.bind(cache);
+    vi.spyOn(cache, 'set').mockImplementationOnce(async (...args) => {
+      await held;
+      return set(...args);
+    });
+    const tasks: Promise<unknown>[] = [];
+
+    expect(await getApiToken(token, env, { cache, background: (task) => tasks.push(task) })).not.toBeNull();
+    expect(await deleteApiToken(cache, record.id)).toBe(true);
+    release();
+    await Promise.all(tasks);
+
+    expect(await cache.exists(`api-token:${record.id}`)).toBe(false);
+    expect(await getApiToken(token, env, { cache })).toBeNull();
+  });
+
+  it('rejects unknown, expired and deleted tokens', async () => {
+    const expired = await createApiToken({ projectId: 'p1', expiresAt: Date.now() - 1000 });
+    await cache.set(`api-token:${expired.record.id}`, JSON.stringify(expired.record));
+    const deleted = await createApiToken({ projectId: 'p1' });
+    await storeApiToken(cache, deleted.record);
+
+    expect(await deleteApiToken(cache, deleted.record.id)).toBe(true);
+    expect(await deleteApiToken(cache, deleted.record.id)).toBe(false);
+    expect(await getApiToken(expired.token, env, { cache })).toBeNull();
+    expect(await getApiToken(deleted.token, env, { cache })).toBeNull();
+    expect(await getApiToken('not-a-token', env, { cache })).toBeNull();
+  });
+
+  it('looks up tokens in Firestore by hash and caches the result', async () => {
+    const token = 'scry_from-firestore';
+    const id = await hashApiToken(token);
+    global.fetch = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          fields: {
+            projectId: { stringValue: 'p1' },
+            scopes: { arrayValue: { values: [{ stringValue: 'read' }, { stringValue: 'write' }] } },
+            expiresAt: { timestampValue: new Date(Date.now() + 60_000).toISOString() },
+            lastUsedAt: { timestampValue: new Date().toISOString() }
+          }
+        })
+      )
+    );
+
+    const found = await getApiToken(token, env, { cache });
+    await getApiToken(token, env, { cache });
+
+    expect(found).toMatchObject({ id, projectId: 'p1', scopes: ['read'], source: 'firestore' });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect((global.fetch as any).mock.calls[0][0]).toContain(`/documents/apiTokens/${id}`);
+  });
+
+  it('caches Firestore misses', async () => {
+    expect(await getApiToken('scry_unknown', env, { cache })).toBeNull();
+    expect(await getApiToken('scry_unknown', env, { cache })).toBeNull();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('patches lastUsedAt in Firestore in the background', async () => {
+    (isServiceAccountConfigured as any).mockReturnValue(true);
+    (getFirestoreAccessToken as any).mockResolvedValue('access-token');
+    global.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ fields: { projectId: { stringValue: 'p1' } } })))
+      .mockResolvedValueOnce(new Response('{}'));
+    const tasks: Promise<unknown>[] = [];
+
+    await getApiToken('scry_ci', env, { cache, background: (task) => tasks.push(task) });
+    await Promise.all(tasks);
+
+    expect(tasks).toHaveLength(1);
+    const [url, init] = (global.fetch as any).mock.calls[1];
+    expect(url).toContain('updateMask.fieldPaths=lastUsedAt');
+    expect(init.method).toBe('PATCH');
+    expect(init.headers.Authorization).toBe('Bearer access-token');
+  });
+});
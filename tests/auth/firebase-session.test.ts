@@ -56,4 +56,34 @@ describe('validateFirebaseSessionCookie', () => {
     expect(result.valid).toBe(false);
     expect(result.error).toContain('key ID');
   });
+
+  it('fetches Google public keys when the cache adapter throws', async () => {
+    const outage = () => Promise.reject(new Error('ECONNREFUSED'));
+    const cache = {
+      get: vi.fn(outage),
+      getJson: vi.fn(outage),
+      getArrayBuffer: vi.fn(outage),
+      set: vi.fn(outage),
+      delete: vi.fn(outage),
+      exists: vi.fn(outage),
+    };
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ 'other-kid': 'pem' }), {
+        headers: { 'Cache-Control': 'max-age=600' },
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const header = btoa(JSON.stringify({ alg: 'RS256', kid: 'k1' }));
+    const payload = btoa(JSON.stringify({ sub: 'user-123' }));
+    const result = await validateFirebaseSessionCookie(`${header}.${payload}.signature`, 'test-project', cache);
+
+    // The keys were fetched despite the outage; only the kid is unknown
+    expect(result.error).toBe('Unknown key ID');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(cache.getJson).toHaveBeenCalled();
+    expect(cache.set).toHaveBeenCalled();
+    vi.unstubAllGlobals();
+  });
 });
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createShareToken,
+  formatShareCookie,
+  getShareCookieTokens,
+  getShareScopePath,
+  isShareLinkRevoked,
+  isWithinShareScope,
+  revokeShareLink,
+  verifyShareToken
+} from '@/auth/share-links';
+import { MemoryCacheAdapter } from '@/adapters/cache/memory';
+
+describe('share links', () => {
+  const secret = 'share-secret';
+  const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('round-trips a signed token', async () => {
+    const { token, link } = await createShareToken(
+      { projectId: 'design-system', versionId: 'pr-123', path: '/docs/', expiresAt: inAnHour() },
+      secret
+    );
+
+    expect(link.path).toBe('docs');
+    expect(await verifyShareToken(token, secret)).toEqual(link);
+  });
+
+  it('rejects tokens with another secret, tampered or expired', async () => {
+    const { token } = await createShareToken({ projectId: 'p1', expiresAt: inAnHour() }, secret);
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ prj: 'p2', exp: inAnHour() })).toString('base64url');
+
+    expect(await verifyShareToken(token, 'other-secret')).toBeNull();
+    expect(await verifyShareToken(`${header}.${forged}.${signature}`, secret)).toBeNull();
+
+    const expired = await createShareToken({ projectId: 'p1', expiresAt: Math.floor(Date.now() / 1000) - 10 }, secret);
+    expect(await verifyShareToken(expired.token, secret)).toBeNull();
+  });
+
+  it('limits links to their project, version and path', () => {
+    const link = { id: 'a', projectId: 'p1', versionId: 'v1', path: 'docs', expiresAt: 0 };
+
+    expect(getShareScopePath(link)).toBe('/p1/v1/docs');
+    expect(isWithinShareScope(link, '/p1/v1/docs')).toBe(true);
+    expect(isWithinShareScope(link, '/p1/v1/docs/intro.html')).toBe(true);
+    expect(isWithinShareScope(link, '/p1/v1/docs-old/intro.html')).toBe(false);
+    expect(isWithinShareScope(link, '/p1/v2/docs/intro.html')).toBe(false);
+    expect(isWithinShareScope({ ...link, versionId: undefined, path: '' }, '/p1/v2/index.html')).toBe(true);
+    expect(isWithinShareScope({ ...link, versionId: undefined, path: '' }, '/p10/index.html')).toBe(false);
+  });
+
+  it('denylists revoked links until they expire', async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryCacheAdapter({ maxBytes: 1024 });
+
+    await revokeShareLink(cache, 'link-1', Math.floor(Date.now() / 1000) + 60);
+
+    expect(await isShareLinkRevoked(cache, 'link-1')).toBe(true);
+    expect(await isShareLinkRevoked(cache, 'link-2')).toBe(false);
+    vi.advanceTimersByTime(61_000);
+    expect(await isShareLinkRevoked(cache, 'link-1')).toBe(false);
+  });
+
+  it('refuses links when the denylist cannot be read', async () => {
+    const cache = new MemoryCacheAdapter({ maxBytes: 1024 });
+    vi.spyOn(cache, 'exists').mockRejectedValue(new Error('ECONNREFUSED'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await isShareLinkRevoked(cache, 'link-1')).toBe(true);
+  });
+
+  it('reads every share cookie', () => {
+    expect(getShareCookieTokens('__session=abc; __share=t1; __share=t2')).toEqual(['t1', 't2']);
+    expect(getShareCookieTokens(undefined)).toEqual([]);
+  });
+
+  it('scopes the cookie to the link and caps its lifetime', () => {
+    const link = { id: 'a', projectId: 'p1', versionId: 'v1', path: '', expiresAt: inAnHour() + 3600 };
+
+    expect(formatShareCookie('tok', link)).toBe('__share=tok; Path=/p1/v1; Max-Age=3600; HttpOnly; Secure; SameSite=Lax');
+    expect(formatShareCookie('tok', { ...link, expiresAt: Math.floor(Date.now() / 1000) + 120 })).toContain('Max-Age=120');
+  });
+});
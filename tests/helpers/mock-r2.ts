@@ -0,0 +1,39 @@
+import { vi } from 'vitest';
+
+/**
+ * In-memory stand-in for an R2 bucket that supports ranged reads.
+ * Every object reports the same etag.
+ */
+export function createMockR2Bucket(objects: Record<string, Uint8Array>, etag = 'etag-1') {
+  const toObject = (key: string, bytes: Uint8Array) => ({
+    key,
+    size: objects[key].length,
+    etag,
+    httpEtag: `"${etag}"`,
+    body: new Response(bytes.slice()).body,
+    arrayBuffer: async () => bytes.slice().buffer
+  });
+
+  return {
+    head: vi.fn(async (key: string) => {
+      const data = objects[key];
+      if (!data) return null;
+      return { key, size: data.length, etag, httpEtag: `"${etag}"` };
+    }),
+    get: vi.fn(async (key: string, options?: { range?: { offset: number; length?: number } }) => {
+      const data = objects[key];
+      if (!data) return null;
+
+      const range = options?.range;
+      const bytes = range
+        ? data.subarray(range.offset, range.length === undefined ? undefined : range.offset + range.length)
+        : data;
+
+      return toObject(key, bytes);
+    }),
+    put: vi.fn(async (key: string, value: string | Uint8Array) => {
+      objects[key] = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+      return { key, size: objects[key].length, etag, httpEtag: `"${etag}"` };
+    })
+  };
+}
@@ -0,0 +1,195 @@
+import pako from 'pako';
+import { crc32 } from '@/utils/crc32';
+
+export { crc32 };
+
+export interface ZipFixtureFile {
+  name: string;
+  data: Uint8Array | string;
+  /** 0 = stored, 8 = deflate (default) */
+  method?: 0 | 8;
+  /** Modification time, encoded as a DOS timestamp (UTC) */
+  modified?: Date;
+  /** Write CRC and sizes in a trailing data descriptor (flag bit 3) */
+  dataDescriptor?: boolean;
+  /** Entry comment in the central directory */
+  comment?: string;
+  /** External file attributes (e.g. Unix mode << 16) */
+  externalAttributes?: number;
+}
+
+export interface ZipFixtureOptions {
+  /**
+   * Saturate every 32-bit size/offset field and store the real values in
+   * ZIP64 extra fields, with a ZIP64 end of central directory record
+   */
+  zip64?: boolean;
+  /** Archive comment after the end of central directory record */
+  comment?: string | Uint8Array;
+}
+
+const SENTINEL32 = 0xffffffff;
+
+function setUint64(view: DataView, offset: number, value: number): void {
+  view.setUint32(offset, value % 0x100000000, true);
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+}
+
+function zip64ExtraField(values: number[]): Uint8Array {
+  const field = new Uint8Array(4 + values.length * 8);
+  const view = new DataView(field.buffer);
+  view.setUint16(0, 0x0001, true);
+  view.setUint16(2, values.length * 8, true);
+  values.forEach((value, i) => setUint64(view, 4 + i * 8, value));
+  return field;
+}
+
+function toDosDateTime(date: Date | undefined): { dosDate: number; dosTime: number } {
+  if (!date) {
+    return { dosDate: 0, dosTime: 0 };
+  }
+  return {
+    dosDate: ((date.getUTCFullYear() - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+    dosTime: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2)
+  };
+}
+
+function toBytes(data: Uint8Array | string): Uint8Array {
+  return typeof data === 'string' ? new TextEncoder().encode(data) : data;
+}
+
+/**
+ * Build a minimal, spec-compliant ZIP archive in memory
+ */
+export function buildZip(files: ZipFixtureFile[], options: ZipFixtureOptions = {}): Uint8Array {
+  const encoder = new TextEncoder();
+  const zip64 = options.zip64 ?? false;
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const method = file.method ?? 8;
+    const nameBytes = encoder.encode(file.name);
+    const raw = toBytes(file.data);
+    const compressed = method === 8 ? pako.deflateRaw(raw) : raw;
+    const crc = crc32(raw);
+    const { dosDate, dosTime } = toDosDateTime(file.modified);
+    const flags = file.dataDescriptor ? 0x0008 : 0;
+
+    const localExtra = zip64 ? zip64ExtraField([raw.length, compressed.length]) : new Uint8Array(0);
+    const local = new Uint8Array(30 + nameBytes.length + localExtra.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, zip64 ? 45 : 20, true);
+    lv.setUint16(6, flags, true);
+    lv.setUint16(8, method, true);
+    lv.setUint16(10, dosTime, true);
+    lv.setUint16(12, dosDate, true);
+    // Data descriptor entries leave CRC and sizes zero in the local header
+    if (!file.dataDescriptor) {
+      lv.setUint32(14, crc, true);
+      lv.setUint32(18, zip64 ? SENTINEL32 : compressed.length, true);
+      lv.setUint32(22, zip64 ? SENTINEL32 : raw.length, true);
+    }
+    lv.setUint16(26, nameBytes.length, true);
+    lv.setUint16(28, localExtra.length, true);
+    local.set(nameBytes, 30);
+    local.set(localExtra, 30 + nameBytes.length);
+
+    let descriptor = new Uint8Array(0);
+    if (file.dataDescriptor) {
+      descriptor = new Uint8Array(zip64 ? 24 : 16);
+      const dv = new DataView(descriptor.buffer);
+      dv.setUint32(0, 0x08074b50, true);
+      dv.setUint32(4, crc, true);
+      if (zip64) {
+        setUint64(dv, 8, compressed.length);
+        setUint64(dv, 16, raw.length);
+      } else {
+        dv.setUint32(8, compressed.length, true);
+        dv.setUint32(12, raw.length, true);
+      }
+    }
+
+    const centralExtra = zip64
+      ? zip64ExtraField([raw.length, compressed.length, offset])
+      : new Uint8Array(0);
+    const commentBytes = encoder.encode(file.comment ?? '');
+    const central = new Uint8Array(46 + nameBytes.length + centralExtra.length + commentBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, zip64 ? 45 : 20, true);
+    cv.setUint16(6, zip64 ? 45 : 20, true);
+    cv.setUint16(8, flags, true);
+    cv.setUint16(10, method, true);
+    cv.setUint16(12, dosTime, true);
+    cv.setUint16(14, dosDate, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, zip64 ? SENTINEL32 : compressed.length, true);
+    cv.setUint32(24, zip64 ? SENTINEL32 : raw.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint16(30, centralExtra.length, true);
+    cv.setUint16(32, commentBytes.length, true);
+    cv.setUint32(38, file.externalAttributes ?? 0, true);
+    cv.setUint32(42, zip64 ? SENTINEL32 : offset, true);
+    central.set(nameBytes, 46);
+    central.set(centralExtra, 46 + nameBytes.length);
+    central.set(commentBytes, 46 + nameBytes.length + centralExtra.length);
+
+    localParts.push(local, compressed, descriptor);
+    centralParts.push(central);
+    offset += local.length + compressed.length + descriptor.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const trailer: Uint8Array[] = [];
+
+  if (zip64) {
+    const record = new Uint8Array(56);
+    const rv = new DataView(record.buffer);
+    rv.setUint32(0, 0x06064b50, true);
+    setUint64(rv, 4, 44);
+    rv.setUint16(12, 45, true);
+    rv.setUint16(14, 45, true);
+    setUint64(rv, 24, files.length);
+    setUint64(rv, 32, files.length);
+    setUint64(rv, 40, centralSize);
+    setUint64(rv, 48, offset);
+
+    const locator = new Uint8Array(20);
+    const lv = new DataView(locator.buffer);
+    lv.setUint32(0, 0x07064b50, true);
+    setUint64(lv, 8, offset + centralSize);
+    lv.setUint32(16, 1, true);
+
+    trailer.push(record, locator);
+  }
+
+  const archiveComment = options.comment ?? '';
+  const archiveCommentBytes =
+    typeof archiveComment === 'string' ? encoder.encode(archiveComment) : archiveComment;
+  const eocd = new Uint8Array(22 + archiveCommentBytes.length);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, zip64 ? 0xffff : files.length, true);
+  ev.setUint16(10, zip64 ? 0xffff : files.length, true);
+  ev.setUint32(12, zip64 ? SENTINEL32 : centralSize, true);
+  ev.setUint32(16, zip64 ? SENTINEL32 : offset, true);
+  ev.setUint16(20, archiveCommentBytes.length, true);
+  eocd.set(archiveCommentBytes, 22);
+  trailer.push(eocd);
+
+  return concat([...localParts, ...centralParts, ...trailer]);
+}
+
+export function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
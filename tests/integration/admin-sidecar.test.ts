@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createApp } from '@/app';
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+describe('Central directory sidecar admin endpoint', () => {
+  const zipKey = 'my-project/v1.0.0/storybook.zip';
+  let env: any;
+  let kvValues: Map<string, string>;
+
+  beforeEach(() => {
+    kvValues = new Map();
+    env = {
+      NODE_ENV: 'production',
+      ADMIN_TOKEN: 'secret-token',
+      UPLOAD_BUCKET: createMockR2Bucket({
+        [zipKey]: buildZip([
+          { name: 'index.html', data: '<html></html>' },
+          { name: 'main.js', data: 'console.log(1);' }
+        ])
+      }),
+      CDN_CACHE: {
+        get: async (key: string, type?: string) => {
+          if (key.startsWith('visibility:')) {
+            return { visibility: 'public', memberIds: [], cachedAt: Date.now() };
+          }
+          const value = kvValues.get(key);
+          return value === undefined ? null : type === 'json' ? JSON.parse(value) : value;
+        },
+        put: async (key: string, value: string) => {
+          kvValues.set(key, value);
+        },
+        delete: async (key: string) => {
+          kvValues.delete(key);
+        }
+      }
+    };
+  });
+
+  const build = (path: string, token?: string) =>
+    createApp().fetch(
+      new Request(`https://view.scrymore.com/admin/central-directory/${path}`, {
+        method: 'POST',
+        headers: token ? { Authorization: `Bearer ${token}` } : {}
+      }),
+      env
+    );
+
+  it('writes the sidecar next to the archive', async () => {
+    const res = await build('my-project/v1.0.0', 'secret-token');
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      zipKey,
+      sidecarKey: 'my-project/v1.0.0/index.cd.json',
+      entries: 2,
+      etag: 'etag-1'
+    });
+    expect(env.UPLOAD_BUCKET.put).toHaveBeenCalledWith(
+      'my-project/v1.0.0/index.cd.json',
+      expect.any(String),
+      expect.anything()
+    );
+  });
+
+  it('lets viewers load the directory from the sidecar', async () => {
+    await build('my-project/v1.0.0', 'secret-token');
+    env.UPLOAD_BUCKET.get.mockClear();
+
+    const res = await createApp().fetch(new Request('https://view.scrymore.com/my-project/v1.0.0/main.js'), env);
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('console.log(1);');
+    // The sidecar, then the file itself; the directory was not parsed from the archive
+    expect(env.UPLOAD_BUCKET.get.mock.calls.map(([key]: [string]) => key)).toEqual([
+      'my-project/v1.0.0/index.cd.json',
+      zipKey
+    ]);
+    expect(kvValues.has(`cd:${zipKey}`)).toBe(true);
+  });
+
+  it('rejects requests without the admin token', async () => {
+    expect((await build('my-project/v1.0.0')).status).toBe(401);
+    expect((await build('my-project/v1.0.0', 'wrong')).status).toBe(401);
+    expect(env.UPLOAD_BUCKET.put).not.toHaveBeenCalled();
+  });
+
+  it('is hidden when no admin token is configured', async () => {
+    delete env.ADMIN_TOKEN;
+
+    expect((await build('my-project/v1.0.0', 'secret-token')).status).toBe(404);
+  });
+
+  it('reports missing archives', async () => {
+    const res = await build('my-project/v9.9.9', 'secret-token');
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toMatchObject({ code: 'ZIP_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createApp } from '@/app';
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+describe('API tokens for private projects', () => {
+  let env: any;
+  let kvValues: Map<string, string>;
+
+  beforeEach(() => {
+    kvValues = new Map();
+    env = {
+      NODE_ENV: 'production',
+      ADMIN_TOKEN: 'admin-token',
+      UPLOAD_BUCKET: createMockR2Bucket({
+        'design-system/pr-123/storybook.zip': buildZip([{ name: 'index.html', data: '<html>pr</html>' }]),
+        'other-project/v1/storybook.zip': buildZip([{ name: 'index.html', data: '<html>other</html>' }])
+      }),
+      CDN_CACHE: {
+        get: async (key: string, type?: string) => {
+          if (key.startsWith('visibility:')) {
+            return { visibility: 'private', memberIds: ['member'], cachedAt: Date.now() };
+          }
+          const value = kvValues.get(key);
+          return value === undefined ? null : type === 'json' ? JSON.parse(value) : value;
+        },
+        put: async (key: string, value: string) => {
+          kvValues.set(key, value);
+        },
+        delete: async (key: string) => {
+          kvValues.delete(key);
+        }
+      }
+    };
+  });
+
+  const admin = (path: string, body: unknown) =>
+    createApp().fetch(
+      new Request(`https://view.scrymore.com/admin/api-tokens${path}`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer admin-token' },
+        body: JSON.stringify(body)
+      }),
+      env
+    );
+
+  const request = (path: string, token: string) =>
+    createApp().fetch(
+      new Request(`https://view.scrymore.com${path}`, { headers: { Authorization: `Bearer ${token}` } }),
+      env
+    );
+
+  const issue = async (body: Record<string, unknown> = {}) => {
+    const res = await admin('', { projectId: 'design-system', name: 'visual tests', ...body });
+    expect(res.status).toBe(200);
+    return (await res.json()) as { id: string; token: string };
+  };
+
+  it('serves the project to a bearer token', async () => {
+    const { token } = await issue();
+
+    const res = await request('/design-system/pr-123/index.html', token);
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('<html>pr</html>');
+  });
+
+  it('rejects unknown tokens and tokens for other projects', async () => {
+    const { token } = await issue();
+
+    const unknown = await request('/design-system/pr-123/index.html', 'scry_unknown');
+    expect(unknown.status).toBe(401);
+    expect(unknown.headers.get('WWW-Authenticate')).toContain('invalid_token');
+
+    const other = await request('/other-project/v1/index.html', token);
+    expect(other.status).toBe(403);
+  });
+
+  it('answers 503 rather than 401 when the token store fails', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { token } = await issue();
+    const get = env.CDN_CACHE.get;
+    env.CDN_CACHE.get = async (key: string, type?: string) => {
+      if (key.startsWith('api-token')) throw new Error('KV unavailable');
+      return get(key, type);
+    };
+
+    const res = await request('/design-system/pr-123/index.html', token);
+
+    expect(res.status).toBe(503);
+    expect(res.headers.get('WWW-Authenticate')).toBeNull();
+    expect(res.headers.get('Cache-Control')).toBe('no-store');
+    expect(await res.json()).toMatchObject({ code: 'AUTH_UNAVAILABLE' });
+    errorSpy.mockRestore();
+  });
+
+  it('stops accepting revoked tokens', async () => {
+    const { id, token } = await issue({ expiresIn: 3600 });
+
+    expect((await admin('/revoke', { id })).status).toBe(200);
+    expect((await request('/design-system/pr-123/index.html', token)).status).toBe(401);
+    expect((await admin('/revoke', { id })).status).toBe(404);
+  });
+
+  it('validates issue requests', async () => {
+    expect((await admin('', { projectId: '../x' })).status).toBe(400);
+    expect((await admin('', { projectId: 'design-system', expiresIn: -1 })).status).toBe(400);
+  });
+});
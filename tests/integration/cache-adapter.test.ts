@@ -0,0 +1,29 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createApp } from '@/app';
+import { createCacheAdapter } from '@/adapters/cache/factory';
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+vi.mock('@/adapters/cache/factory', async (importOriginal) => {
+  const original = await importOriginal<typeof import('@/adapters/cache/factory')>();
+  return { ...original, createCacheAdapter: vi.fn(original.createCacheAdapter) };
+});
+
+describe('Shared cache adapter', () => {
+  it('retries creating the adapter after a failure', async () => {
+    vi.mocked(createCacheAdapter).mockRejectedValueOnce(new Error('Redis cache is not available'));
+    const app = createApp();
+    const env = {
+      NODE_ENV: 'production',
+      UPLOAD_BUCKET: createMockR2Bucket({
+        'my-project/v1.0.0/storybook.zip': buildZip([{ name: 'data.json', data: '{}' }])
+      })
+    };
+    const request = () => app.fetch(new Request('https://view.scrymore.com/my-project/v1.0.0/data.json'), env as any);
+
+    expect((await request()).status).toBe(500);
+    expect((await request()).status).toBe(200);
+    expect((await request()).status).toBe(200);
+    expect(createCacheAdapter).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { createApp } from '@/app';
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+describe('Serving strategies', () => {
+  const encode = (text: string) => new TextEncoder().encode(text);
+
+  const createEnv = (objects: Record<string, Uint8Array>, project: Record<string, unknown> = {}, vars = {}) => ({
+    NODE_ENV: 'production',
+    UPLOAD_BUCKET: createMockR2Bucket(objects),
+    CDN_CACHE: {
+      get: async (key: string) =>
+        key.startsWith('visibility:')
+          ? { visibility: 'public', memberIds: [], cachedAt: Date.now(), ...project }
+          : null,
+      put: async () => {}
+    },
+    ...vars
+  });
+
+  const request = (env: any, path: string, headers: Record<string, string> = {}) =>
+    createApp().fetch(new Request(`https://view.scrymore.com/my-project/v1.0.0/${path}`, { headers }), env);
+
+  const archive = buildZip([{ name: 'index.html', data: '<html>zip</html>' }]);
+  const exploded = {
+    'my-project/v1.0.0/index.html': encode('<html>exploded</html>'),
+    'my-project/v1.0.0/extra.js': encode('console.log(1);')
+  };
+
+  it('serves exploded objects when ZIP extraction is disabled', async () => {
+    const env = createEnv(
+      { 'my-project/v1.0.0/storybook.zip': archive, ...exploded },
+      {},
+      { ZIP_EXTRACTION_ENABLED: 'false' }
+    );
+
+    const res = await request(env, 'index.html');
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('<html>exploded</html>');
+    expect(res.headers.get('Content-Type')).toContain('text/html');
+    expect(res.headers.get('Cache-Control')).toBe('public, max-age=0, must-revalidate');
+    expect(res.headers.get('ETag')).toBe('"etag-1"');
+  });
+
+  it('answers conditional requests for exploded objects with 304', async () => {
+    const env = createEnv(exploded, { servingStrategy: 'exploded' });
+
+    const res = await request(env, 'extra.js', { 'If-None-Match': '"etag-1"' });
+
+    expect(res.status).toBe(304);
+  });
+
+  it('uses the per-project strategy', async () => {
+    const env = createEnv({ 'my-project/v1.0.0/storybook.zip': archive, ...exploded }, { servingStrategy: 'exploded' });
+
+    expect(await (await request(env, 'index.html')).text()).toBe('<html>exploded</html>');
+  });
+
+  it('prefers the archive with zip-then-exploded', async () => {
+    const env = createEnv(
+      { 'my-project/v1.0.0/storybook.zip': archive, ...exploded },
+      { servingStrategy: 'zip-then-exploded' }
+    );
+
+    expect(await (await request(env, 'index.html')).text()).toBe('<html>zip</html>');
+    // Not in the archive: falls back to the exploded object
+    expect(await (await request(env, 'extra.js')).text()).toBe('console.log(1);');
+  });
+
+  it('does not serve the archive or its sidecars as exploded files', async () => {
+    const objects = {
+      'my-project/v1.0.0/storybook.zip': archive,
+      'my-project/v1.0.0/index.cd.json': encode('{}'),
+      'my-project/v1.0.0/index.cd.bin': encode('SCD'),
+      ...exploded
+    };
+
+    for (const servingStrategy of ['exploded', 'zip-then-exploded']) {
+      const env = createEnv(objects, { servingStrategy });
+
+      for (const path of ['storybook.zip', 'index.cd.json', 'index.cd.bin']) {
+        expect((await request(env, path)).status).toBe(404);
+      }
+      expect((await request(env, 'extra.js')).status).toBe(200);
+    }
+  });
+
+  it('falls back to exploded objects when the archive is missing', async () => {
+    const env = createEnv(exploded, {}, { SERVING_STRATEGY: 'zip-then-exploded' });
+
+    const res = await request(env, 'index.html');
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('<html>exploded</html>');
+  });
+
+  it('answers 404 when neither the archive nor the object exists', async () => {
+    const env = createEnv({}, {}, { SERVING_STRATEGY: 'zip-then-exploded' });
+
+    expect((await request(env, 'missing.js')).status).toBe(404);
+  });
+
+  it('reports a missing archive as 404 in zip mode', async () => {
+    const env = createEnv(exploded);
+
+    const res = await request(env, 'index.html');
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toMatchObject({ code: 'ZIP_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { createApp } from '@/app';
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+describe('Health metrics', () => {
+  it('reports central directory cache hits and misses', async () => {
+    const app = createApp();
+    const env = {
+      NODE_ENV: 'production',
+      UPLOAD_BUCKET: createMockR2Bucket({
+        'my-project/v1.0.0/storybook.zip': buildZip([{ name: 'data.json', data: '{}' }])
+      }),
+      RESPONSE_CACHE_ENABLED: 'false'
+    };
+
+    for (let i = 0; i < 3; i++) {
+      const res = await app.fetch(new Request('https://view.scrymore.com/my-project/v1.0.0/data.json'), env as any);
+      expect(res.status).toBe(200);
+    }
+
+    const res = await app.fetch(new Request('https://view.scrymore.com/health/metrics'), env as any);
+    const body = (await res.json()) as { centralDirectoryCache: unknown };
+
+    expect(body.centralDirectoryCache).toMatchObject({ hits: 2, misses: 1, size: 1 });
+    // Parsed once from R2, then served from memory
+    expect(env.UPLOAD_BUCKET.head).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { gunzipSync } from 'node:zlib';
+import { createApp } from '@/app';
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+describe('Preload hints for served HTML', () => {
+  const zipKey = 'my-project/v1.0.0/storybook.zip';
+  const html = `<!doctype html><html><head>
+    <link rel="stylesheet" href="./main.a1b2c3d4.css">
+    <script type="module" src="./runtime.a1b2c3d4.js"></script>
+    <script src="./missing.a1b2c3d4.js"></script>
+  </head><body></body></html>`;
+  const archive = buildZip([
+    { name: 'index.html', data: html },
+    { name: 'main.a1b2c3d4.css', data: 'body { margin: 0; }'.repeat(20) },
+    { name: 'runtime.a1b2c3d4.js', data: 'console.log("runtime");'.repeat(50), method: 8 },
+    { name: 'docs/index.html', data: '<script src="../runtime.a1b2c3d4.js"></script>' }
+  ]);
+
+  const setup = (vars: Record<string, string> = {}) => {
+    const app = createApp();
+    const pending: Promise<unknown>[] = [];
+    const ctx = { waitUntil: (promise: Promise<unknown>) => pending.push(promise), passThroughOnException: () => {} };
+    const env = {
+      NODE_ENV: 'production',
+      UPLOAD_BUCKET: createMockR2Bucket({ [zipKey]: archive }),
+      CDN_CACHE: {
+        get: async (key: string) =>
+          key.startsWith('visibility:') ? { visibility: 'public', memberIds: [], cachedAt: Date.now() } : null,
+        put: async () => {}
+      },
+      ...vars
+    };
+
+    const request = async (path: string, init: RequestInit = {}) => {
+      const res = await app.fetch(new Request(`https://view.scrymore.com/my-project/v1.0.0/${path}`, init), env as any, ctx as any);
+      await Promise.all(pending.splice(0));
+      return res;
+    };
+
+    const archiveReads = () => env.UPLOAD_BUCKET.get.mock.calls.filter(([key]) => key === zipKey);
+
+    return { request, archiveReads };
+  };
+
+  it('lists the assets an HTML document loads in a Link header', async () => {
+    const { request } = setup();
+
+    const res = await request('index.html');
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe(html);
+    expect(res.headers.get('Link')).toBe(
+      '<./main.a1b2c3d4.css>; rel=preload; as=style, <./runtime.a1b2c3d4.js>; rel=modulepreload, ' +
+        '<./missing.a1b2c3d4.js>; rel=preload; as=script'
+    );
+  });
+
+  it('resolves references against nested documents', async () => {
+    const { request } = setup();
+
+    const res = await request('docs/');
+
+    expect(res.headers.get('Link')).toBe('<../runtime.a1b2c3d4.js>; rel=preload; as=script');
+  });
+
+  it('reads each document for hints only once', async () => {
+    const { request, archiveReads } = setup();
+
+    await request('index.html');
+    const reads = archiveReads().length;
+    await request('index.html');
+
+    expect(archiveReads().length - reads).toBe(1);
+  });
+
+  it('sends no hints for other content, ranges or the SPA fallback', async () => {
+    const { request } = setup();
+
+    expect((await request('runtime.a1b2c3d4.js')).headers.get('Link')).toBeNull();
+    expect((await request('index.html', { headers: { Range: 'bytes=0-9' } })).headers.get('Link')).toBeNull();
+    expect((await request('some/client/route')).headers.get('Link')).toBeNull();
+  });
+
+  it('can be turned off', async () => {
+    const { request } = setup({ HTML_PREFETCH: 'off' });
+
+    expect((await request('index.html')).headers.get('Link')).toBeNull();
+  });
+
+  it('warms the response cache with one merged read in warm mode', async () => {
+    const { request, archiveReads } = setup({ HTML_PREFETCH: 'warm' });
+
+    const before = archiveReads().length;
+    await request('index.html', { headers: { 'Accept-Encoding': 'gzip' } });
+    // Directory, hint read, document read, then one merged read for both assets
+    expect(archiveReads().length - before).toBe(4);
+
+    const reads = archiveReads().length;
+    const script = await request('runtime.a1b2c3d4.js', { headers: { 'Accept-Encoding': 'gzip' } });
+    const style = await request('main.a1b2c3d4.css', { headers: { 'Accept-Encoding': 'gzip' } });
+
+    expect(script.headers.get('X-Cache')).toBe('HIT');
+    expect(script.headers.get('Content-Encoding')).toBe('gzip');
+    expect(style.headers.get('X-Cache')).toBe('HIT');
+    expect(gunzipSync(Buffer.from(await style.arrayBuffer())).toString()).toBe('body { margin: 0; }'.repeat(20));
+    expect(archiveReads().length).toBe(reads);
+  });
+
+  it('does not warm in link mode', async () => {
+    const { request } = setup();
+
+    await request('index.html');
+    const script = await request('runtime.a1b2c3d4.js');
+
+    expect(script.headers.get('X-Cache')).toBe('MISS');
+  });
+});
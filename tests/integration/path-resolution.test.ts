@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { createApp } from '@/app';
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+describe('Request path resolution', () => {
+  const archive = buildZip([
+    { name: 'index.html', data: '<html>root</html>' },
+    { name: 'about.html', data: '<html>about</html>' },
+    { name: 'docs/index.html', data: '<html>docs</html>' },
+    { name: 'assets/app.js', data: 'console.log(1);' }
+  ]);
+
+  const createEnv = (project: Record<string, unknown> = {}, vars = {}, objects?: Record<string, Uint8Array>) => ({
+    NODE_ENV: 'production',
+    UPLOAD_BUCKET: createMockR2Bucket(objects ?? { 'my-project/v1.0.0/storybook.zip': archive }),
+    CDN_CACHE: {
+      get: async (key: string) =>
+        key.startsWith('visibility:')
+          ? { visibility: 'public', memberIds: [], cachedAt: Date.now(), ...project }
+          : null,
+      put: async () => {}
+    },
+    ...vars
+  });
+
+  const request = (env: any, path: string) =>
+    createApp().fetch(new Request(`https://view.scrymore.com/my-project/v1.0.0${path}`), env);
+
+  it('serves dir/index.html for directory URLs', async () => {
+    const res = await request(createEnv(), '/docs/');
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('<html>docs</html>');
+    expect(res.headers.get('Content-Type')).toContain('text/html');
+  });
+
+  it('redirects directories without a trailing slash', async () => {
+    const res = await request(createEnv(), '/docs?path=/story/button');
+
+    expect(res.status).toBe(301);
+    expect(res.headers.get('Location')).toBe('/my-project/v1.0.0/docs/?path=/story/button');
+  });
+
+  it('redirects the bare version root so relative URLs resolve inside it', async () => {
+    const res = await request(createEnv(), '');
+
+    expect(res.status).toBe(301);
+    expect(res.headers.get('Location')).toBe('/my-project/v1.0.0/');
+    expect(await (await request(createEnv(), '/')).text()).toBe('<html>root</html>');
+  });
+
+  it('serves name.html for clean URLs', async () => {
+    const res = await request(createEnv(), '/about');
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('<html>about</html>');
+  });
+
+  it('falls back to index.html for client-side routes', async () => {
+    const res = await request(createEnv(), '/settings/profile');
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('<html>root</html>');
+  });
+
+  it('returns 404 for missing assets even with SPA fallback', async () => {
+    expect((await request(createEnv(), '/assets/missing.js')).status).toBe(404);
+  });
+
+  it('returns 404 for unmatched routes when the project disables SPA fallback', async () => {
+    const env = createEnv({ spaFallback: false });
+
+    expect((await request(env, '/settings/profile')).status).toBe(404);
+    expect(await (await request(env, '/about')).text()).toBe('<html>about</html>');
+  });
+
+  it('uses the deployment SPA fallback file', async () => {
+    const env = createEnv({}, { SPA_FALLBACK_FILE: 'about.html' });
+
+    expect(await (await request(env, '/settings/profile')).text()).toBe('<html>about</html>');
+  });
+
+  it('resolves exploded objects the same way', async () => {
+    const encode = (text: string) => new TextEncoder().encode(text);
+    const env = createEnv({ servingStrategy: 'exploded' }, {}, {
+      'my-project/v1.0.0/index.html': encode('<html>root</html>'),
+      'my-project/v1.0.0/about.html': encode('<html>about</html>'),
+      'my-project/v1.0.0/docs/index.html': encode('<html>docs</html>')
+    });
+
+    expect((await request(env, '/docs')).headers.get('Location')).toBe('/my-project/v1.0.0/docs/');
+    expect(await (await request(env, '/docs/')).text()).toBe('<html>docs</html>');
+    expect(await (await request(env, '/about')).text()).toBe('<html>about</html>');
+    expect(await (await request(env, '/settings')).text()).toBe('<html>root</html>');
+  });
+});
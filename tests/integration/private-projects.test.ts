@@ -79,7 +79,10 @@ describe('Private Projects Integration', () => {
       const res = await app.fetch(req, env as any);
 
       expect(res.status).toBe(401);
-      expect(await res.text()).toBe('Unauthorized');
+      expect(await res.json()).toEqual({
+        error: 'Sign in to view this project',
+        code: 'AUTH_REQUIRED',
+      });
     });
 
     it('returns 401 with invalid session cookie', async () => {
@@ -104,6 +107,64 @@ describe('Private Projects Integration', () => {
     });
   });
 
+  describe('Browser navigations', () => {
+    const navigate = (env: any) =>
+      createApp().fetch(
+        new Request('https://view.scrymore.com/private-project/v1/index.html?path=/story/button', {
+          headers: { Accept: 'text/html,application/xhtml+xml', 'Sec-Fetch-Mode': 'navigate' },
+        }),
+        env
+      );
+
+    const privateEnv = (overrides = {}) => {
+      const env = createMockEnv(overrides);
+      env.CDN_CACHE.get.mockResolvedValue({
+        visibility: 'private',
+        memberIds: ['user-123'],
+        cachedAt: Date.now(),
+      });
+      return env;
+    };
+
+    it('redirects to the login page with returnTo', async () => {
+      const res = await navigate(privateEnv({ LOGIN_URL: 'https://dashboard.scrymore.com/login' }));
+
+      expect(res.status).toBe(302);
+      const location = new URL(res.headers.get('Location')!);
+      expect(location.origin + location.pathname).toBe('https://dashboard.scrymore.com/login');
+      expect(location.searchParams.get('returnTo')).toBe(
+        'https://view.scrymore.com/private-project/v1/index.html?path=/story/button'
+      );
+    });
+
+    it('shows the interstitial without a login URL', async () => {
+      const res = await navigate(
+        privateEnv({ ACCESS_REQUEST_URL: 'https://dashboard.scrymore.com/request-access' })
+      );
+
+      expect(res.status).toBe(401);
+      expect(res.headers.get('Content-Type')).toContain('text/html');
+      expect(res.headers.get('Cache-Control')).toBe('no-store');
+      const html = await res.text();
+      expect(html).toContain('This Storybook is private');
+      expect(html).toContain(
+        'href="https://dashboard.scrymore.com/request-access?projectId=private-project&amp;returnTo='
+      );
+    });
+
+    it('answers asset requests with JSON even when a login URL is set', async () => {
+      const res = await createApp().fetch(
+        new Request('https://view.scrymore.com/private-project/v1/main.js', {
+          headers: { Accept: '*/*', 'Sec-Fetch-Mode': 'no-cors' },
+        }),
+        privateEnv({ LOGIN_URL: 'https://dashboard.scrymore.com/login' }) as any
+      );
+
+      expect(res.status).toBe(401);
+      expect(await res.json()).toMatchObject({ code: 'AUTH_REQUIRED' });
+    });
+  });
+
   describe('CORS with Private Projects', () => {
     it('handles OPTIONS preflight for private projects', async () => {
       const app = createApp();
@@ -153,7 +214,7 @@ describe('Private Projects Integration', () => {
       expect(env.CDN_CACHE.put).toHaveBeenCalledWith(
         'visibility:project',
         expect.any(String),
-        expect.objectContaining({ expirationTtl: 300 })
+        expect.objectContaining({ expirationTtl: 3660 })
       );
     });
   });
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createApp } from '@/app';
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+vi.mock('@/auth/firebase-session', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/auth/firebase-session')>()),
+  // Session cookie value doubles as the uid
+  validateFirebaseSessionCookie: vi.fn(async (cookie: string) => ({ valid: true, uid: cookie }))
+}));
+
+describe('Response cache', () => {
+  const hashed = 'assets/app.a1b2c3d4.js';
+  const archive = buildZip([
+    { name: 'index.html', data: '<html>root</html>' },
+    { name: hashed, data: 'console.log("app");'.repeat(50), method: 8 },
+    { name: 'data.json', data: '{"a":1}' }
+  ]);
+
+  const createEnv = (project: Record<string, unknown> = {}, vars = {}) => ({
+    NODE_ENV: 'production',
+    FIREBASE_PROJECT_ID: 'test-project',
+    UPLOAD_BUCKET: createMockR2Bucket({ 'my-project/v1.0.0/storybook.zip': archive }),
+    CDN_CACHE: {
+      get: async (key: string) =>
+        key.startsWith('visibility:')
+          ? { visibility: 'public', memberIds: ['user-a', 'user-b'], cachedAt: Date.now(), ...project }
+          : null,
+      put: async () => {}
+    },
+    ...vars
+  });
+
+  // Collects background work so tests can wait for cache writes
+  const createExecutionContext = () => {
+    const pending: Promise<unknown>[] = [];
+    return {
+      ctx: { waitUntil: (promise: Promise<unknown>) => pending.push(promise), passThroughOnException: () => {} },
+      settle: () => Promise.all(pending.splice(0))
+    };
+  };
+
+  const setup = (project: Record<string, unknown> = {}, vars = {}) => {
+    const app = createApp();
+    const env = createEnv(project, vars);
+    const { ctx, settle } = createExecutionContext();
+
+    const request = async (path: string, headers: Record<string, string> = {}, method = 'GET') => {
+      const res = await app.fetch(
+        new Request(`https://view.scrymore.com/my-project/v1.0.0/${path}`, { headers, method }),
+        env as any,
+        ctx as any
+      );
+      await settle();
+      return res;
+    };
+
+    return { env, request };
+  };
+
+  it('serves repeated requests without touching R2', async () => {
+    const { env, request } = setup();
+
+    const first = await request(hashed);
+    expect(first.headers.get('X-Cache')).toBe('MISS');
+    const body = await first.text();
+    const reads = env.UPLOAD_BUCKET.get.mock.calls.length;
+
+    const second = await request(hashed);
+
+    expect(second.status).toBe(200);
+    expect(second.headers.get('X-Cache')).toBe('HIT');
+    expect(second.headers.get('Cache-Control')).toBe('public, max-age=31536000, immutable');
+    expect(await second.text()).toBe(body);
+    expect(env.UPLOAD_BUCKET.get.mock.calls.length).toBe(reads);
+  });
+
+  it('keys entries by negotiated encoding', async () => {
+    const { request } = setup();
+
+    await request(hashed, { 'Accept-Encoding': 'gzip' });
+    const identity = await request(hashed);
+    const gzip = await request(hashed, { 'Accept-Encoding': 'gzip' });
+
+    expect(identity.headers.get('X-Cache')).toBe('MISS');
+    expect(identity.headers.get('Content-Encoding')).toBeNull();
+    expect(gzip.headers.get('X-Cache')).toBe('HIT');
+    expect(gzip.headers.get('Content-Encoding')).toBe('gzip');
+  });
+
+  it('does not store HTML, which must revalidate', async () => {
+    const { request } = setup();
+
+    await request('index.html');
+    const res = await request('index.html');
+
+    expect(res.headers.get('X-Cache')).toBe('MISS');
+  });
+
+  it('answers conditional requests and HEAD from the cache', async () => {
+    const { request } = setup();
+
+    const first = await request('data.json');
+    const etag = first.headers.get('ETag')!;
+
+    const notModified = await request('data.json', { 'If-None-Match': etag });
+    expect(notModified.status).toBe(304);
+    expect(notModified.headers.get('X-Cache')).toBe('HIT');
+
+    const head = await request('data.json', {}, 'HEAD');
+    expect(head.status).toBe(200);
+    expect(head.headers.get('X-Cache')).toBe('HIT');
+    expect(await head.text()).toBe('');
+  });
+
+  it('bypasses the cache for range requests', async () => {
+    const { request } = setup();
+
+    await request('data.json');
+    const res = await request('data.json', { Range: 'bytes=0-1' });
+
+    expect(res.status).toBe(206);
+    expect(res.headers.get('X-Cache')).toBeNull();
+  });
+
+  it('never serves a private entry to another user', async () => {
+    const { env, request } = setup({ visibility: 'private' });
+
+    const a = await request(hashed, { Cookie: '__session=user-a' });
+    expect(a.headers.get('Cache-Control')).toBe('private, max-age=31536000, immutable');
+    expect((await request(hashed, { Cookie: '__session=user-a' })).headers.get('X-Cache')).toBe('HIT');
+
+    const reads = env.UPLOAD_BUCKET.get.mock.calls.length;
+    const b = await request(hashed, { Cookie: '__session=user-b' });
+
+    expect(b.status).toBe(200);
+    expect(b.headers.get('X-Cache')).toBe('MISS');
+    expect(b.headers.get('Cache-Control')).toBe('private, max-age=31536000, immutable');
+    expect(env.UPLOAD_BUCKET.get.mock.calls.length).toBeGreaterThan(reads);
+  });
+
+  it('can be disabled', async () => {
+    const { request } = setup({}, { RESPONSE_CACHE_ENABLED: 'false' });
+
+    await request(hashed);
+    const res = await request(hashed);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-Cache')).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createApp } from '@/app';
+import { createShareToken } from '@/auth/share-links';
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+describe('Share links to private projects', () => {
+  const secret = 'share-secret';
+  let env: any;
+  let kvValues: Map<string, string>;
+
+  beforeEach(() => {
+    kvValues = new Map();
+    env = {
+      NODE_ENV: 'production',
+      FIREBASE_PROJECT_ID: 'test-project',
+      SHARE_LINK_SECRET: secret,
+      ADMIN_TOKEN: 'admin-token',
+      UPLOAD_BUCKET: createMockR2Bucket({
+        'design-system/pr-123/storybook.zip': buildZip([
+          { name: 'index.html', data: '<html>pr</html>' },
+          { name: 'docs/intro.html', data: '<html>intro</html>' }
+        ]),
+        'design-system/v1.0.0/storybook.zip': buildZip([{ name: 'index.html', data: '<html>v1</html>' }])
+      }),
+      CDN_CACHE: {
+        get: async (key: string, type?: string) => {
+          if (key.startsWith('visibility:')) {
+            return { visibility: 'private', memberIds: ['member'], cachedAt: Date.now() };
+          }
+          const value = kvValues.get(key);
+          return value === undefined ? null : type === 'json' ? JSON.parse(value) : value;
+        },
+        put: async (key: string, value: string) => {
+          kvValues.set(key, value);
+        },
+        delete: async (key: string) => {
+          kvValues.delete(key);
+        }
+      }
+    };
+  });
+
+  const request = (path: string, headers: Record<string, string> = {}) =>
+    createApp().fetch(new Request(`https://view.scrymore.com${path}`, { headers }), env);
+
+  const issue = (link: { versionId?: string; path?: string; projectId?: string } = {}) =>
+    createShareToken(
+      { projectId: 'design-system', versionId: 'pr-123', expiresAt: Math.floor(Date.now() / 1000) + 3600, ...link },
+      secret
+    );
+
+  it('moves a token from the URL into a scoped cookie', async () => {
+    const { token } = await issue();
+
+    const res = await request(`/design-system/pr-123/?path=/story/button&share=${token}`);
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('Location')).toBe('/design-system/pr-123/?path=%2Fstory%2Fbutton');
+    expect(res.headers.get('Set-Cookie')).toContain(`__share=${token}; Path=/design-system/pr-123;`);
+  });
+
+  it('serves the shared scope to the cookie holder', async () => {
+    const { token } = await issue();
+
+    const res = await request('/design-system/pr-123/docs/intro.html', { Cookie: `__share=${token}` });
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('<html>intro</html>');
+  });
+
+  it('does not admit requests outside the shared scope', async () => {
+    const { token } = await issue({ path: 'docs' });
+    const other = await issue({ projectId: 'other-project' });
+
+    expect((await request('/design-system/pr-123/docs/intro.html', { Cookie: `__share=${token}` })).status).toBe(200);
+    expect((await request('/design-system/pr-123/index.html', { Cookie: `__share=${token}` })).status).toBe(401);
+    expect((await request('/design-system/v1.0.0/index.html', { Cookie: `__share=${token}` })).status).toBe(401);
+    expect((await request('/design-system/pr-123/index.html', { Cookie: `__share=${other.token}` })).status).toBe(401);
+  });
+
+  it('ignores share links when no secret is configured', async () => {
+    const { token } = await issue();
+    delete env.SHARE_LINK_SECRET;
+
+    expect((await request(`/design-system/pr-123/?share=${token}`)).status).toBe(401);
+  });
+
+  it('issues and revokes links through the admin API', async () => {
+    const admin = (path: string, body: unknown) =>
+      createApp().fetch(
+        new Request(`https://view.scrymore.com/admin/share-links${path}`, {
+          method: 'POST',
+          headers: { Authorization: 'Bearer admin-token', 'Content-Type': 'application/json' },
+          body: JSON.stringify(body)
+        }),
+        env
+      );
+
+    const issued = await admin('', { projectId: 'design-system', versionId: 'pr-123', expiresIn: 600 });
+    expect(issued.status).toBe(200);
+    const { token, url } = (await issued.json()) as { token: string; url: string };
+    expect(url).toBe(`/design-system/pr-123/?share=${token}`);
+    expect((await request('/design-system/pr-123/index.html', { Cookie: `__share=${token}` })).status).toBe(200);
+
+    const revoked = await admin('/revoke', { token });
+    expect(revoked.status).toBe(200);
+    expect((await request('/design-system/pr-123/index.html', { Cookie: `__share=${token}` })).status).toBe(401);
+  });
+
+  it('rejects share links that outlive the maximum lifetime', async () => {
+    const res = await createApp().fetch(
+      new Request('https://view.scrymore.com/admin/share-links', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer admin-token' },
+        body: JSON.stringify({ projectId: 'design-system', expiresIn: 365 * 24 * 3600 })
+      }),
+      env
+    );
+
+    expect(res.status).toBe(400);
+  });
+});
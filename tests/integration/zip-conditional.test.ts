@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createApp } from '@/app';
+import { buildZip, crc32 } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+describe('Conditional GET and HEAD for ZIP-served files', () => {
+  const modified = new Date(Date.UTC(2024, 4, 20, 8, 30, 0));
+  const script = new TextEncoder().encode('export const answer = 42;\n'.repeat(20));
+  const etag = `"${crc32(script)}"`;
+
+  let env: any;
+  let kvStore: Map<string, string>;
+
+  beforeEach(() => {
+    kvStore = new Map();
+
+    env = {
+      NODE_ENV: 'production',
+      UPLOAD_BUCKET: createMockR2Bucket({
+        'my-project/v1.0.0/storybook.zip': buildZip([{ name: 'main.js', data: script, modified }])
+      }),
+      CDN_CACHE: {
+        get: async (key: string) => {
+          if (key.startsWith('visibility:')) {
+            return { visibility: 'public', memberIds: [], cachedAt: Date.now() };
+          }
+          const value = kvStore.get(key);
+          return value ? JSON.parse(value) : null;
+        },
+        put: async (key: string, value: string) => {
+          kvStore.set(key, value);
+        }
+      }
+    };
+  });
+
+  const request = (path: string, init: RequestInit = {}) =>
+    createApp().fetch(new Request(`https://view.scrymore.com/my-project/v1.0.0/${path}`, init), env);
+
+  it('sends ETag and Last-Modified from the central directory', async () => {
+    const res = await request('main.js');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('ETag')).toBe(etag);
+    expect(res.headers.get('Last-Modified')).toBe('Mon, 20 May 2024 08:30:00 GMT');
+  });
+
+  it('returns 304 when If-None-Match matches', async () => {
+    const res = await request('main.js', { headers: { 'If-None-Match': etag } });
+
+    expect(res.status).toBe(304);
+    expect(res.headers.get('ETag')).toBe(etag);
+    expect(await res.text()).toBe('');
+  });
+
+  it('returns 200 when If-None-Match does not match', async () => {
+    const res = await request('main.js', { headers: { 'If-None-Match': '"other"' } });
+
+    expect(res.status).toBe(200);
+  });
+
+  it('returns 304 when not modified since If-Modified-Since', async () => {
+    const res = await request('main.js', {
+      headers: { 'If-Modified-Since': 'Mon, 20 May 2024 08:30:00 GMT' }
+    });
+
+    expect(res.status).toBe(304);
+  });
+
+  it('returns 200 when modified after If-Modified-Since', async () => {
+    const res = await request('main.js', {
+      headers: { 'If-Modified-Since': 'Sun, 19 May 2024 08:30:00 GMT' }
+    });
+
+    expect(res.status).toBe(200);
+  });
+
+  it('answers HEAD from the central directory without reading file data', async () => {
+    // Warm the central directory cache
+    await request('main.js');
+    env.UPLOAD_BUCKET.get.mockClear();
+
+    const res = await request('main.js', { method: 'HEAD' });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Length')).toBe(String(script.length));
+    expect(res.headers.get('ETag')).toBe(etag);
+    expect(env.UPLOAD_BUCKET.get).not.toHaveBeenCalled();
+  });
+
+  it('answers 304 without reading file data', async () => {
+    await request('main.js');
+    env.UPLOAD_BUCKET.get.mockClear();
+
+    const res = await request('main.js', { headers: { 'If-None-Match': etag } });
+
+    expect(res.status).toBe(304);
+    expect(env.UPLOAD_BUCKET.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import pako from 'pako';
+import { brotliCompressSync } from 'node:zlib';
+import { createApp } from '@/app';
+import { buildZip, crc32 } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+describe('Content-Encoding passthrough for ZIP-served files', () => {
+  const script = new TextEncoder().encode('export function story() { return "hello"; }\n'.repeat(100));
+  const image = new Uint8Array(256).map((_, i) => i);
+  const wasm = new Uint8Array(512).map((_, i) => (i * 13) % 256);
+  const wasmBrotli = new Uint8Array(brotliCompressSync(wasm));
+  const wasmGzip = pako.gzip(wasm);
+
+  let env: any;
+
+  beforeEach(() => {
+    env = {
+      NODE_ENV: 'production',
+      UPLOAD_BUCKET: createMockR2Bucket({
+        'my-project/v1.0.0/storybook.zip': buildZip([
+          { name: 'main.js', data: script, method: 8 },
+          { name: 'logo.png', data: image, method: 0 },
+          { name: 'app.wasm', data: wasm, method: 0 },
+          { name: 'app.wasm.br', data: wasmBrotli, method: 0 },
+          { name: 'app.wasm.gz', data: wasmGzip, method: 8 }
+        ])
+      }),
+      CDN_CACHE: {
+        get: async (key: string) =>
+          key.startsWith('visibility:') ? { visibility: 'public', memberIds: [], cachedAt: Date.now() } : null,
+        put: async () => {}
+      }
+    };
+  });
+
+  const request = (path: string, headers: Record<string, string> = {}) =>
+    createApp().fetch(new Request(`https://view.scrymore.com/my-project/v1.0.0/${path}`, { headers }), env);
+
+  it('serves deflated entries as gzip when accepted', async () => {
+    const res = await request('main.js', { 'Accept-Encoding': 'gzip, deflate, br' });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Encoding')).toBe('gzip');
+    expect(res.headers.get('Vary')).toContain('Accept-Encoding');
+    expect(res.headers.get('ETag')).toBe(`"${crc32(script)}-gzip"`);
+
+    const body = new Uint8Array(await res.arrayBuffer());
+    expect(Number(res.headers.get('Content-Length'))).toBe(body.length);
+    expect(pako.ungzip(body)).toEqual(script);
+  });
+
+  it('inflates on the server when gzip is not accepted', async () => {
+    const res = await request('main.js', { 'Accept-Encoding': 'identity' });
+
+    expect(res.headers.get('Content-Encoding')).toBeNull();
+    expect(res.headers.get('Vary')).toContain('Accept-Encoding');
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(script);
+  });
+
+  it('serves ranges from the identity representation', async () => {
+    const res = await request('main.js', { 'Accept-Encoding': 'gzip', Range: 'bytes=0-9' });
+
+    expect(res.status).toBe(206);
+    expect(res.headers.get('Content-Encoding')).toBeNull();
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(script.subarray(0, 10));
+  });
+
+  it('does not vary stored entries on Accept-Encoding', async () => {
+    const res = await request('logo.png', { 'Accept-Encoding': 'gzip' });
+
+    expect(res.headers.get('Content-Encoding')).toBeNull();
+    expect(res.headers.get('Vary') ?? '').not.toContain('Accept-Encoding');
+  });
+
+  it('keeps Vary: Origin from CORS alongside Accept-Encoding', async () => {
+    const res = await request('main.js', {
+      'Accept-Encoding': 'gzip',
+      Origin: 'https://dashboard.scrymore.com'
+    });
+
+    expect(res.headers.get('Vary')).toBe('Accept-Encoding, Origin');
+  });
+
+  describe('precompressed siblings', () => {
+    it('serves the .br sibling when brotli is accepted', async () => {
+      const res = await request('app.wasm', { 'Accept-Encoding': 'gzip, br' });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Encoding')).toBe('br');
+      expect(res.headers.get('Content-Type')).toBe('application/wasm');
+      expect(res.headers.get('Vary')).toContain('Accept-Encoding');
+      expect(new Uint8Array(await res.arrayBuffer())).toEqual(wasmBrotli);
+    });
+
+    it('serves the .gz sibling as-is when only gzip is accepted', async () => {
+      const res = await request('app.wasm', { 'Accept-Encoding': 'gzip' });
+
+      expect(res.headers.get('Content-Encoding')).toBe('gzip');
+      expect(res.headers.get('Content-Type')).toBe('application/wasm');
+      expect(pako.ungzip(new Uint8Array(await res.arrayBuffer()))).toEqual(wasm);
+    });
+
+    it('serves the original with Vary when no coding is accepted', async () => {
+      const res = await request('app.wasm');
+
+      expect(res.headers.get('Content-Encoding')).toBeNull();
+      expect(res.headers.get('Vary')).toContain('Accept-Encoding');
+      expect(new Uint8Array(await res.arrayBuffer())).toEqual(wasm);
+    });
+
+    it('serves ranges from the original entry', async () => {
+      const res = await request('app.wasm', { 'Accept-Encoding': 'br', Range: 'bytes=0-3' });
+
+      expect(res.status).toBe(206);
+      expect(res.headers.get('Content-Encoding')).toBeNull();
+      expect(new Uint8Array(await res.arrayBuffer())).toEqual(wasm.subarray(0, 4));
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createApp } from '@/app';
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+describe('Errors for archives that cannot be served', () => {
+  let env: any;
+
+  const createEnv = (zip: Uint8Array) => ({
+    NODE_ENV: 'production',
+    UPLOAD_BUCKET: createMockR2Bucket({ 'my-project/v1.0.0/storybook.zip': zip }),
+    CDN_CACHE: {
+      get: async (key: string) =>
+        key.startsWith('visibility:') ? { visibility: 'public', memberIds: [], cachedAt: Date.now() } : null,
+      put: async () => {}
+    }
+  });
+
+  const request = (path: string) =>
+    createApp().fetch(new Request(`https://view.scrymore.com/my-project/v1.0.0/${path}`), env);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('serves files from ZIP64 archives', async () => {
+    env = createEnv(buildZip([{ name: 'index.html', data: '<html></html>' }], { zip64: true }));
+
+    const res = await request('index.html');
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('<html></html>');
+  });
+
+  it('answers 422 with a JSON error for a corrupt archive', async () => {
+    const zip = buildZip([{ name: 'index.html', data: '<html></html>' }]);
+    env = createEnv(zip.subarray(0, zip.length - 4));
+
+    const res = await request('index.html');
+
+    expect(res.status).toBe(422);
+    expect(res.headers.get('Content-Type')).toBe('application/json');
+    expect(res.headers.get('Cache-Control')).toBe('no-store');
+    expect(await res.json()).toMatchObject({ code: 'ZIP_INVALID_ARCHIVE' });
+  });
+
+  it('answers 422 when an entry uses an unsupported compression method', async () => {
+    const zip = buildZip([{ name: 'index.html', data: '<html></html>', method: 0 }]);
+    // Patch the method in the local header (offset 8) and central directory record
+    const view = new DataView(zip.buffer);
+    const centralOffset = view.getUint32(zip.length - 6, true);
+    view.setUint16(8, 12, true);
+    view.setUint16(centralOffset + 10, 12, true);
+    env = createEnv(zip);
+
+    const res = await request('index.html');
+
+    expect(res.status).toBe(422);
+    expect(await res.json()).toMatchObject({ code: 'ZIP_UNSUPPORTED' });
+  });
+
+  describe('zip-bomb safeguards', () => {
+    it('answers 413 for entries over ZIP_MAX_FILE_SIZE', async () => {
+      env = {
+        ...createEnv(buildZip([{ name: 'video.mp4', data: new Uint8Array(4096), method: 0 }])),
+        ZIP_MAX_FILE_SIZE: '1024'
+      };
+
+      const res = await request('video.mp4');
+
+      expect(res.status).toBe(413);
+      expect(await res.json()).toMatchObject({ code: 'ZIP_ENTRY_TOO_LARGE' });
+      expect(console.error).toHaveBeenCalledWith(
+        '[ERROR] Cannot serve file from ZIP:',
+        expect.objectContaining({ code: 'ZIP_ENTRY_TOO_LARGE', cleanPath: 'video.mp4' })
+      );
+      // Only the central directory was read, never the entry
+      const archiveReads = env.UPLOAD_BUCKET.get.mock.calls.filter(
+        ([key]: [string]) => key === 'my-project/v1.0.0/storybook.zip'
+      );
+      expect(archiveReads).toHaveLength(1);
+    });
+
+    it('answers 422 for entries with an extreme compression ratio', async () => {
+      env = {
+        ...createEnv(buildZip([{ name: 'bomb.json', data: new Uint8Array(4 * 1024 * 1024) }])),
+        ZIP_MAX_FILE_SIZE: String(8 * 1024 * 1024)
+      };
+
+      const res = await request('bomb.json');
+
+      expect(res.status).toBe(422);
+      expect(await res.json()).toMatchObject({ code: 'ZIP_COMPRESSION_RATIO_EXCEEDED' });
+    });
+
+    it('answers 422 for archives with too many entries', async () => {
+      env = {
+        ...createEnv(buildZip([
+          { name: 'index.html', data: '<html></html>' },
+          { name: 'a.js', data: '' },
+          { name: 'b.js', data: '' }
+        ])),
+        ZIP_MAX_ENTRIES: '2'
+      };
+
+      const res = await request('index.html');
+
+      expect(res.status).toBe(422);
+      expect(await res.json()).toMatchObject({ code: 'ZIP_TOO_MANY_ENTRIES' });
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createApp } from '@/app';
+import { buildZip, crc32 } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+describe('Range requests for ZIP-served files', () => {
+  const video = new Uint8Array(4096).map((_, i) => i % 256);
+  const script = new TextEncoder().encode('console.log("hello from storybook");\n'.repeat(50));
+
+  let env: any;
+
+  beforeEach(() => {
+    const zip = buildZip([
+      { name: 'video.mp4', data: video, method: 0 },
+      { name: 'main.js', data: script, method: 8 }
+    ]);
+
+    env = {
+      NODE_ENV: 'production',
+      UPLOAD_BUCKET: createMockR2Bucket({ 'my-project/v1.0.0/storybook.zip': zip }),
+      CDN_CACHE: {
+        get: async (key: string) =>
+          key.startsWith('visibility:') ? { visibility: 'public', memberIds: [], cachedAt: Date.now() } : null,
+        put: async () => {}
+      }
+    };
+  });
+
+  const fetchPath = (path: string, headers: Record<string, string> = {}) =>
+    createApp().fetch(new Request(`https://view.scrymore.com/my-project/v1.0.0/${path}`, { headers }), env);
+
+  it('advertises byte range support on full responses', async () => {
+    const res = await fetchPath('video.mp4');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(video);
+  });
+
+  it('serves 206 Partial Content for stored entries', async () => {
+    const res = await fetchPath('video.mp4', { Range: 'bytes=100-199' });
+
+    expect(res.status).toBe(206);
+    expect(res.headers.get('Content-Range')).toBe('bytes 100-199/4096');
+    expect(res.headers.get('Content-Length')).toBe('100');
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(video.subarray(100, 200));
+  });
+
+  it('serves 206 Partial Content for deflated entries', async () => {
+    const res = await fetchPath('main.js', { Range: 'bytes=-20' });
+
+    expect(res.status).toBe(206);
+    expect(res.headers.get('Content-Range')).toBe(`bytes ${script.length - 20}-${script.length - 1}/${script.length}`);
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(script.subarray(script.length - 20));
+  });
+
+  it('returns 416 for unsatisfiable ranges', async () => {
+    const res = await fetchPath('video.mp4', { Range: 'bytes=5000-6000' });
+
+    expect(res.status).toBe(416);
+    expect(res.headers.get('Content-Range')).toBe('bytes */4096');
+  });
+
+  it('honors If-Range when the ETag matches', async () => {
+    const res = await fetchPath('video.mp4', {
+      Range: 'bytes=0-9',
+      'If-Range': `"${crc32(video)}"`
+    });
+
+    expect(res.status).toBe(206);
+  });
+
+  it('ignores Range when If-Range does not match', async () => {
+    const res = await fetchPath('video.mp4', {
+      Range: 'bytes=0-9',
+      'If-Range': '"stale-etag"'
+    });
+
+    expect(res.status).toBe(200);
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(video);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createApp } from '@/app';
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+describe('Re-uploaded archives', () => {
+  const zipKey = 'my-project/latest/storybook.zip';
+  const original = buildZip([
+    { name: 'readme.txt', data: 'x'.repeat(500) },
+    { name: 'data.json', data: '{"version":1}' }
+  ]);
+  const reuploaded = buildZip([{ name: 'data.json', data: '{"version":2}' }]);
+
+  const createKV = (initial: Record<string, unknown> = {}) => {
+    const store = new Map<string, string>(Object.entries(initial).map(([k, v]) => [k, JSON.stringify(v)]));
+    return {
+      store,
+      get: vi.fn(async (key: string) => {
+        if (key.startsWith('visibility:')) {
+          return { visibility: 'public', memberIds: [], cachedAt: Date.now() };
+        }
+        const value = store.get(key);
+        return value ? JSON.parse(value) : null;
+      }),
+      put: vi.fn(async (key: string, value: string) => {
+        store.set(key, value);
+      }),
+      delete: vi.fn(async (key: string) => {
+        store.delete(key);
+      })
+    };
+  };
+
+  const createEnv = (archive: Uint8Array, etag: string, kv: ReturnType<typeof createKV>) => ({
+    NODE_ENV: 'production',
+    UPLOAD_BUCKET: createMockR2Bucket({ [zipKey]: archive }, etag),
+    CDN_CACHE: kv,
+    RESPONSE_CACHE_ENABLED: 'false'
+  });
+
+  const request = (app: ReturnType<typeof createApp>, env: unknown, init?: RequestInit, path = 'data.json') =>
+    app.fetch(new Request(`https://view.scrymore.com/my-project/latest/${path}`, init), env as any);
+
+  // Archive versions seen by HEAD are remembered for a few seconds
+  const afterVersionCacheExpires = () => vi.setSystemTime(Date.now() + 10_000);
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rebuilds the central directory when the etag changes', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const app = createApp();
+    const kv = createKV();
+
+    const before = await request(app, createEnv(original, 'etag-1', kv));
+    expect(await before.text()).toBe('{"version":1}');
+
+    const env = createEnv(reuploaded, 'etag-2', kv);
+    const after = await request(app, env);
+
+    expect(after.status).toBe(200);
+    expect(await after.text()).toBe('{"version":2}');
+    expect(kv.delete).toHaveBeenCalledWith(`cd:${zipKey}`);
+    expect(JSON.parse(kv.store.get(`cd:${zipKey}`)!).etag).toBe('etag-2');
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('ZIP changed'),
+      expect.objectContaining({ cachedEtag: 'etag-1', currentEtag: 'etag-2' })
+    );
+
+    // The rebuilt directory is served from then on
+    expect(await (await request(app, env)).text()).toBe('{"version":2}');
+    expect(kv.delete).toHaveBeenCalledTimes(1);
+    warnSpy.mockRestore();
+  });
+
+  it('does not answer a re-upload from the response cache', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const app = createApp();
+    const kv = createKV();
+    const cached = { ...createEnv(original, 'etag-1', kv), RESPONSE_CACHE_ENABLED: 'true' };
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    expect(await (await request(app, cached)).text()).toBe('{"version":1}');
+    expect((await request(app, cached)).headers.get('X-Cache')).toBe('HIT');
+
+    const env = { ...createEnv(reuploaded, 'etag-2', kv), RESPONSE_CACHE_ENABLED: 'true' };
+    afterVersionCacheExpires();
+    const after = await request(app, env);
+
+    expect(after.headers.get('X-Cache')).toBe('MISS');
+    expect(await after.text()).toBe('{"version":2}');
+    warnSpy.mockRestore();
+  });
+
+  it('does not answer a conditional request with 304 after a re-upload', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const app = createApp();
+    const kv = createKV();
+
+    const before = await request(app, createEnv(original, 'etag-1', kv));
+    const etag = before.headers.get('ETag')!;
+    expect((await request(app, createEnv(original, 'etag-1', kv), { headers: { 'If-None-Match': etag } })).status).toBe(
+      304
+    );
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    afterVersionCacheExpires();
+    const env = createEnv(reuploaded, 'etag-2', kv);
+    const after = await request(app, env, { headers: { 'If-None-Match': etag } });
+
+    expect(after.status).toBe(200);
+    expect(await after.text()).toBe('{"version":2}');
+    expect(kv.delete).toHaveBeenCalledWith(`cd:${zipKey}`);
+    expect(env.UPLOAD_BUCKET.head).toHaveBeenCalledWith(zipKey);
+    warnSpy.mockRestore();
+  });
+
+  it('answers HEAD from the re-uploaded archive', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const app = createApp();
+    const kv = createKV();
+
+    const before = await request(app, createEnv(original, 'etag-1', kv), { method: 'HEAD' }, 'readme.txt');
+    expect(before.status).toBe(200);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    afterVersionCacheExpires();
+    const env = createEnv(reuploaded, 'etag-2', kv);
+
+    expect((await request(app, env, { method: 'HEAD' }, 'readme.txt')).status).toBe(404);
+    const after = await request(app, env, { method: 'HEAD' });
+    expect(after.status).toBe(200);
+    expect(after.headers.get('Content-Length')).toBe('{"version":2}'.length.toString());
+    // The rebuilt directory is current: no further rebuilds
+    expect(kv.delete).toHaveBeenCalledTimes(1);
+    warnSpy.mockRestore();
+  });
+
+  it('detects changes under directories cached before etags were stored', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Directory of the original archive, as cached by an older release
+    const app = createApp();
+    const seed = createKV();
+    await request(createApp(), createEnv(original, 'etag-1', seed));
+    const { etag: _etag, ...legacy } = JSON.parse(seed.store.get(`cd:${zipKey}`)!);
+    const kv = createKV({ [`cd:${zipKey}`]: legacy });
+
+    const res = await request(app, createEnv(reuploaded, 'etag-2', kv));
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('{"version":2}');
+    warnSpy.mockRestore();
+  });
+
+  it('reports an archive that keeps changing as 503', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const app = createApp();
+    const kv = createKV();
+    const env = createEnv(original, 'etag-1', kv);
+    // Every data read sees a different version than the one just parsed
+    let version = 0;
+    const head = env.UPLOAD_BUCKET.head.getMockImplementation()!;
+    const get = env.UPLOAD_BUCKET.get.getMockImplementation()!;
+    env.UPLOAD_BUCKET.head.mockImplementation(async (key: string) => ({ ...(await head(key))!, etag: `v${++version}` }));
+    env.UPLOAD_BUCKET.get.mockImplementation(async (key: string, options?: any) => ({
+      ...(await get(key, options))!,
+      etag: `v${version + 1}`
+    }));
+
+    const res = await request(app, env);
+
+    expect(res.status).toBe(503);
+    expect(await res.json()).toMatchObject({ code: 'ZIP_ARCHIVE_CHANGED' });
+    warnSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
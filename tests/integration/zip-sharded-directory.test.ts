@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { brotliCompressSync } from 'node:zlib';
+import { createApp } from '@/app';
+import { getCentralDirectory } from '@/services/zip/central-directory';
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+import { KvCacheAdapter } from '@/adapters/cache/kv';
+
+describe('Serving from a sharded central directory', () => {
+  const zipKey = 'my-project/v1.0.0/storybook.zip';
+  const script = 'export const story = 1;\n'.repeat(50);
+  const files = [
+    { name: 'index.html', data: '<html>home</html>' },
+    { name: 'docs/index.html', data: '<html>docs</html>' },
+    { name: 'main.js', data: script },
+    { name: 'main.js.br', data: new Uint8Array(brotliCompressSync(Buffer.from(script))) },
+    ...Array.from({ length: 60 }, (_, i) => ({ name: `assets/chunk-${i}.js`, data: `export default ${i};` }))
+  ];
+
+  let env: any;
+  let values: Map<string, string>;
+
+  beforeEach(async () => {
+    values = new Map();
+    const kv = {
+      get: async (key: string, type?: string) => {
+        if (key.startsWith('visibility:')) {
+          return { visibility: 'public', memberIds: [], cachedAt: Date.now() };
+        }
+        const value = values.get(key);
+        return value === undefined ? null : type === 'json' ? JSON.parse(value) : value;
+      },
+      put: async (key: string, value: string) => {
+        values.set(key, value);
+      },
+      delete: async (key: string) => {
+        values.delete(key);
+      }
+    };
+    const bucket = createMockR2Bucket({ [zipKey]: buildZip(files) });
+
+    // Cache the directory as shards, as a deployment with a huge archive would
+    await getCentralDirectory(bucket as any, new KvCacheAdapter(kv as any), zipKey, { maxValueBytes: 2048 });
+    expect(JSON.parse(values.get(`cd:${zipKey}`)!).shards.count).toBeGreaterThan(1);
+
+    env = { NODE_ENV: 'production', UPLOAD_BUCKET: bucket, CDN_CACHE: kv };
+  });
+
+  const request = (path: string, headers: Record<string, string> = {}) =>
+    createApp().fetch(new Request(`https://view.scrymore.com/my-project/v1.0.0/${path}`, { headers }), env);
+
+  it('serves exact matches', async () => {
+    const res = await request('assets/chunk-42.js');
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('export default 42;');
+  });
+
+  it('resolves directories and the SPA fallback', async () => {
+    expect(await (await request('docs/')).text()).toBe('<html>docs</html>');
+    expect((await request('docs')).status).toBe(301);
+    expect(await (await request('some/client/route')).text()).toBe('<html>home</html>');
+  });
+
+  it('finds precompressed siblings', async () => {
+    const res = await request('main.js', { 'Accept-Encoding': 'br' });
+
+    expect(res.headers.get('Content-Encoding')).toBe('br');
+  });
+
+  it('does not rewrite the sharded cache', async () => {
+    const before = [...values.keys()];
+
+    await request('assets/chunk-1.js');
+
+    expect([...values.keys()]).toEqual(before);
+  });
+});
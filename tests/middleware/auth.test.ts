@@ -2,9 +2,11 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { Hono } from 'hono';
 import { privateProjectAuth } from '@/middleware/auth';
 
-vi.mock('@/services/visibility', () => ({
+vi.mock('@/services/visibility', async (importOriginal) => ({
   getProjectVisibility: vi.fn(),
   isProjectMember: vi.fn(),
+  resolveVersionVisibility: (await importOriginal<typeof import('@/services/visibility')>())
+    .resolveVersionVisibility,
 }));
 
 vi.mock('@/auth/firebase-session', () => ({
@@ -116,6 +118,40 @@ describe('privateProjectAuth middleware', () => {
     expect(res.status).toBe(200);
   });
 
+  it('allows access through a verified email domain rule', async () => {
+    (getProjectVisibility as any).mockResolvedValue({
+      visibility: 'private',
+      memberIds: [],
+      allowedEmailDomains: ['ourcompany.com'],
+    });
+    (parseCookies as any).mockReturnValue({ __session: 'valid-token' });
+    (isProjectMember as any).mockReturnValue(false);
+
+    const request = () =>
+      app.fetch(
+        new Request('https://view.scrymore.com/private-project/v1/index.html', {
+          headers: { Cookie: '__session=valid-token' },
+        }),
+        mockEnv as any
+      );
+
+    (validateFirebaseSessionCookie as any).mockResolvedValue({
+      valid: true,
+      uid: 'new-hire',
+      email: 'new-hire@ourcompany.com',
+      emailVerified: true,
+    });
+    expect((await request()).status).toBe(200);
+
+    (validateFirebaseSessionCookie as any).mockResolvedValue({
+      valid: true,
+      uid: 'new-hire',
+      email: 'new-hire@ourcompany.com',
+      emailVerified: false,
+    });
+    expect((await request()).status).toBe(403);
+  });
+
   it('passes through when project not found', async () => {
     (getProjectVisibility as any).mockResolvedValue(null);
 
@@ -124,4 +160,56 @@ describe('privateProjectAuth middleware', () => {
 
     expect(res.status).toBe(200);
   });
+
+  describe('version visibility overrides', () => {
+    const project = {
+      visibility: 'private',
+      memberIds: ['user-123'],
+      versionVisibility: { 'v2.0.0': 'public', 'pr-123': 'private' },
+    };
+
+    it('serves a public version of a private project without auth', async () => {
+      (getProjectVisibility as any).mockResolvedValue(project);
+
+      const res = await app.fetch(
+        new Request('https://view.scrymore.com/design-system/v2.0.0/index.html'),
+        mockEnv as any
+      );
+
+      expect(res.status).toBe(200);
+      expect(parseCookies).not.toHaveBeenCalled();
+    });
+
+    it('keeps a private version of a public project private', async () => {
+      (getProjectVisibility as any).mockResolvedValue({ ...project, visibility: 'public' });
+      (parseCookies as any).mockReturnValue({});
+
+      const privateVersion = await app.fetch(
+        new Request('https://view.scrymore.com/design-system/pr-123/index.html'),
+        mockEnv as any
+      );
+      const otherVersion = await app.fetch(
+        new Request('https://view.scrymore.com/design-system/v1.0.0/index.html'),
+        mockEnv as any
+      );
+
+      expect(privateVersion.status).toBe(401);
+      expect(otherVersion.status).toBe(200);
+    });
+
+    it('only applies overrides to segments detected as versions', async () => {
+      (getProjectVisibility as any).mockResolvedValue({
+        ...project,
+        versionVisibility: { assets: 'public' },
+      });
+      (parseCookies as any).mockReturnValue({});
+
+      const res = await app.fetch(
+        new Request('https://view.scrymore.com/design-system/assets/logo.svg'),
+        mockEnv as any
+      );
+
+      expect(res.status).toBe(401);
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import {
+  applyCorsHeaders,
   corsHeaders,
   handleOptions,
   parseAllowedOrigins,
@@ -92,4 +93,28 @@ describe('CORS middleware', () => {
       expect(res.headers.get('Access-Control-Allow-Methods')).toBe('GET, HEAD, OPTIONS');
     });
   });
+
+  describe('applyCorsHeaders', () => {
+    it('copies CORS headers onto the target', () => {
+      const target = new Headers({ 'Content-Type': 'text/plain' });
+      applyCorsHeaders(target, new Headers({ 'Access-Control-Allow-Origin': '*' }));
+
+      expect(target.get('Access-Control-Allow-Origin')).toBe('*');
+      expect(target.get('Content-Type')).toBe('text/plain');
+    });
+
+    it('merges Vary instead of replacing it', () => {
+      const target = new Headers({ Vary: 'Accept-Encoding' });
+      applyCorsHeaders(target, new Headers({ Vary: 'Origin' }));
+
+      expect(target.get('Vary')).toBe('Accept-Encoding, Origin');
+    });
+
+    it('does not duplicate Vary tokens', () => {
+      const target = new Headers({ Vary: 'origin' });
+      applyCorsHeaders(target, new Headers({ Vary: 'Origin' }));
+
+      expect(target.get('Vary')).toBe('origin');
+    });
+  });
 });
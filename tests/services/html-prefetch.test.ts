@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractPrefetchHints,
+  formatLinkHeader,
+  groupNeighbouringEntries,
+  resolveHtmlPrefetchMode,
+  resolveReferencePath,
+  MAX_PREFETCH_HINTS
+} from '@/services/html-prefetch';
+import type { ZipFileEntry } from '@/types/zip';
+
+describe('resolveHtmlPrefetchMode', () => {
+  it('defaults to link', () => {
+    expect(resolveHtmlPrefetchMode({} as any)).toBe('link');
+    expect(resolveHtmlPrefetchMode({ HTML_PREFETCH: 'bogus' } as any)).toBe('link');
+  });
+
+  it('reads off and warm', () => {
+    expect(resolveHtmlPrefetchMode({ HTML_PREFETCH: 'off' } as any)).toBe('off');
+    expect(resolveHtmlPrefetchMode({ HTML_PREFETCH: ' WARM ' } as any)).toBe('warm');
+  });
+});
+
+describe('resolveReferencePath', () => {
+  it('resolves relative references against the document', () => {
+    expect(resolveReferencePath('./main.js', 'iframe.html')).toBe('main.js');
+    expect(resolveReferencePath('assets/app.js?v=1#x', 'docs/index.html')).toBe('docs/assets/app.js');
+    expect(resolveReferencePath('../vendor.js', 'docs/index.html')).toBe('vendor.js');
+    expect(resolveReferencePath('sb%20addons/a.js', 'index.html')).toBe('sb addons/a.js');
+  });
+
+  it('ignores references outside the project', () => {
+    expect(resolveReferencePath('/main.js', 'index.html')).toBeNull();
+    expect(resolveReferencePath('https://cdn.example.com/a.js', 'index.html')).toBeNull();
+    expect(resolveReferencePath('//cdn.example.com/a.js', 'index.html')).toBeNull();
+    expect(resolveReferencePath('data:text/javascript,1', 'index.html')).toBeNull();
+    expect(resolveReferencePath('', 'index.html')).toBeNull();
+  });
+});
+
+describe('extractPrefetchHints', () => {
+  it('finds scripts, stylesheets and module preloads in document order', () => {
+    const html = `<!doctype html>
+      <html><head>
+        <link rel="stylesheet" href="./sb-common-assets/fonts.css">
+        <link rel="modulepreload" href="./sb-addons/essentials.js" />
+        <link rel=preload href=./sb-common-assets/nunito.woff2 as=font crossorigin>
+        <link rel="icon" href="./favicon.svg">
+        <script type="module" src="./sb-manager/runtime.js"></script>
+        <script src='vendors.js'></script>
+        <script>window.inline = true;</script>
+      </head></html>`;
+
+    expect(extractPrefetchHints(html, 'index.html')).toEqual([
+      { href: './sb-common-assets/fonts.css', path: 'sb-common-assets/fonts.css', rel: 'preload', as: 'style' },
+      { href: './sb-addons/essentials.js', path: 'sb-addons/essentials.js', rel: 'modulepreload' },
+      { href: './sb-common-assets/nunito.woff2', path: 'sb-common-assets/nunito.woff2', rel: 'preload', as: 'font' },
+      { href: './sb-manager/runtime.js', path: 'sb-manager/runtime.js', rel: 'modulepreload' },
+      { href: 'vendors.js', path: 'vendors.js', rel: 'preload', as: 'script' }
+    ]);
+  });
+
+  it('skips commented-out tags, duplicates and external references', () => {
+    const html = `
+      <!-- <script src="old.js"></script> -->
+      <script src="main.js"></script>
+      <script src="./main.js"></script>
+      <script src="https://cdn.example.com/analytics.js"></script>`;
+
+    expect(extractPrefetchHints(html, 'iframe.html').map((hint) => hint.path)).toEqual(['main.js']);
+  });
+
+  it('keeps at most MAX_PREFETCH_HINTS hints', () => {
+    const html = Array.from({ length: 50 }, (_, i) => `<script src="chunk-${i}.js"></script>`).join('');
+
+    expect(extractPrefetchHints(html, 'index.html')).toHaveLength(MAX_PREFETCH_HINTS);
+  });
+});
+
+describe('formatLinkHeader', () => {
+  it('formats preload and modulepreload links', () => {
+    expect(
+      formatLinkHeader([
+        { href: './main.js', path: 'main.js', rel: 'preload', as: 'script' },
+        { href: './runtime.js', path: 'runtime.js', rel: 'modulepreload' },
+        { href: 'font file.woff2', path: 'font file.woff2', rel: 'preload', as: 'font' }
+      ])
+    ).toBe(
+      '<./main.js>; rel=preload; as=script, <./runtime.js>; rel=modulepreload, ' +
+        '<font%20file.woff2>; rel=preload; as=font; crossorigin'
+    );
+  });
+});
+
+describe('groupNeighbouringEntries', () => {
+  const entry = (offset: number, size: number): ZipFileEntry => ({
+    name: `file-${offset}`,
+    offset,
+    compressedSize: size,
+    size,
+    compressionMethod: 0,
+    crc32: 0
+  });
+  const getEnd = (e: ZipFileEntry) => e.offset + e.compressedSize;
+
+  it('groups entries lying close together', () => {
+    const a = entry(0, 100);
+    const b = entry(200, 100);
+    const c = entry(10 * 1024 * 1024, 100);
+
+    expect(groupNeighbouringEntries([c, b, a], getEnd)).toEqual([[a, b], [c]]);
+  });
+
+  it('splits groups that would grow too large and drops oversized entries', () => {
+    const a = entry(0, 3 * 1024 * 1024);
+    const b = entry(3 * 1024 * 1024, 2 * 1024 * 1024);
+    const huge = entry(20 * 1024 * 1024, 8 * 1024 * 1024);
+
+    expect(groupNeighbouringEntries([a, b, huge], getEnd)).toEqual([[a], [b]]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getGroupMembership, matchesEmailDomain, resolveProjectMembership } from '@/services/membership';
+import { MemoryCacheAdapter } from '@/adapters/cache/memory';
+
+vi.mock('@/services/firestore-auth', () => ({
+  getFirestoreAccessToken: vi.fn(),
+  isServiceAccountConfigured: vi.fn()
+}));
+
+import { getFirestoreAccessToken, isServiceAccountConfigured } from '@/services/firestore-auth';
+
+const groupDocument = (fields: { memberIds?: string[]; allowedEmailDomains?: string[] }) =>
+  new Response(
+    JSON.stringify({
+      fields: Object.fromEntries(
+        Object.entries(fields).map(([name, values]) => [
+          name,
+          { arrayValue: { values: values.map((stringValue) => ({ stringValue })) } }
+        ])
+      )
+    })
+  );
+
+describe('matchesEmailDomain', () => {
+  it('matches verified emails of the listed domains', () => {
+    const viewer = { uid: 'u1', email: 'Ada@OurCompany.com', emailVerified: true };
+
+    expect(matchesEmailDomain(viewer, ['ourcompany.com'])).toBe(true);
+    expect(matchesEmailDomain(viewer, ['@ourcompany.com'])).toBe(true);
+    expect(matchesEmailDomain(viewer, ['company.com', 'eu.ourcompany.com'])).toBe(false);
+  });
+
+  it('ignores unverified emails', () => {
+    expect(matchesEmailDomain({ uid: 'u1', email: 'ada@ourcompany.com' }, ['ourcompany.com'])).toBe(false);
+    expect(
+      matchesEmailDomain({ uid: 'u1', email: 'ada@ourcompany.com', emailVerified: false }, ['ourcompany.com'])
+    ).toBe(false);
+  });
+});
+
+describe('resolveProjectMembership', () => {
+  const env = { FIREBASE_PROJECT_ID: 'test-project' } as any;
+  const originalFetch = global.fetch;
+  let cache: MemoryCacheAdapter;
+
+  beforeEach(() => {
+    cache = new MemoryCacheAdapter({ maxBytes: 64 * 1024 });
+    (isServiceAccountConfigured as any).mockReturnValue(false);
+    (getFirestoreAccessToken as any).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('admits project members and domains without reading groups', async () => {
+    global.fetch = vi.fn();
+    const project = {
+      visibility: 'private' as const,
+      memberIds: ['u1'],
+      orgId: 'acme',
+      allowedEmailDomains: ['acme.com']
+    };
+
+    expect(await resolveProjectMembership(project, { uid: 'u1' }, env, { cache })).toBe('member');
+    expect(
+      await resolveProjectMembership(project, { uid: 'u2', email: 'b@acme.com', emailVerified: true }, env, { cache })
+    ).toBe('email-domain');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('admits organization and team members', async () => {
+    global.fetch = vi.fn(async (url: string) =>
+      url.endsWith('/organizations/acme')
+        ? groupDocument({ memberIds: ['org-member'], allowedEmailDomains: ['acme.com'] })
+        : groupDocument({ memberIds: ['team-member'] })
+    ) as any;
+    const project = { visibility: 'private' as const, memberIds: [], orgId: 'acme', teamIds: ['design'] };
+
+    expect(await resolveProjectMembership(project, { uid: 'org-member' }, env, { cache })).toBe('organization');
+    expect(await resolveProjectMembership(project, { uid: 'team-member' }, env, { cache })).toBe('team');
+    expect(
+      await resolveProjectMembership(project, { uid: 'new-hire', email: 'c@acme.com', emailVerified: true }, env, {
+        cache
+      })
+    ).toBe('organization');
+    expect(await resolveProjectMembership(project, { uid: 'stranger' }, env, { cache })).toBeNull();
+    // Each group is read once and then served from the cache
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('getGroupMembership', () => {
+  const env = { FIREBASE_PROJECT_ID: 'test-project' } as any;
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.useRealTimers();
+  });
+
+  it('admits nobody for missing groups or when Firestore fails', async () => {
+    const cache = new MemoryCacheAdapter({ maxBytes: 64 * 1024 });
+    global.fetch = vi.fn().mockResolvedValue(new Response('', { status: 404 }));
+    expect(await getGroupMembership('teams', 'gone', env, { cache })).toEqual({
+      memberIds: [],
+      allowedEmailDomains: []
+    });
+
+    global.fetch = vi.fn().mockResolvedValue(new Response('', { status: 500 }));
+    expect(await getGroupMembership('teams', 'down', env, { cache })).toEqual({
+      memberIds: [],
+      allowedEmailDomains: []
+    });
+  });
+
+  it('serves stale members while refreshing in the background', async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryCacheAdapter({ maxBytes: 64 * 1024 });
+    global.fetch = vi.fn().mockResolvedValueOnce(groupDocument({ memberIds: ['old'] }));
+    await getGroupMembership('organizations', 'acme', env, { cache });
+
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    global.fetch = vi.fn().mockResolvedValueOnce(groupDocument({ memberIds: ['new'] }));
+    const tasks: Promise<unknown>[] = [];
+
+    const stale = await getGroupMembership('organizations', 'acme', env, {
+      cache,
+      background: (task) => tasks.push(task)
+    });
+    await Promise.all(tasks);
+
+    expect(stale.memberIds).toEqual(['old']);
+    expect((await getGroupMembership('organizations', 'acme', env, { cache })).memberIds).toEqual(['new']);
+  });
+
+  it('reads Firestore when the cache is down', async () => {
+    const cache = new MemoryCacheAdapter({ maxBytes: 64 * 1024 });
+    vi.spyOn(cache, 'getJson').mockRejectedValue(new Error('ECONNREFUSED'));
+    vi.spyOn(cache, 'set').mockRejectedValue(new Error('ECONNREFUSED'));
+    global.fetch = vi.fn().mockResolvedValue(groupDocument({ memberIds: ['u1'] }));
+
+    expect((await getGroupMembership('teams', 'design', env, { cache })).memberIds).toEqual(['u1']);
+  });
+});
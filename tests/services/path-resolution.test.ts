@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { resolvePath, resolveSpaFallback, getDirectoryRedirectLocation, getCandidatePaths } from '@/services/path-resolution';
+
+describe('Path resolution', () => {
+  const files = new Set(['index.html', 'about.html', 'docs/index.html', 'docs/intro.html', 'assets/app.js']);
+  const lookup = (path: string) => (files.has(path) ? path : null);
+  const withSpa = { spaFallback: 'index.html' };
+  const withoutSpa = { spaFallback: null };
+
+  describe('resolvePath', () => {
+    it('serves exact matches', async () => {
+      expect(await resolvePath('assets/app.js', lookup, withSpa)).toMatchObject({
+        type: 'file',
+        path: 'assets/app.js',
+        fallback: false
+      });
+    });
+
+    it('serves dir/index.html for directory URLs with a trailing slash', async () => {
+      expect(await resolvePath('docs/', lookup, withSpa)).toMatchObject({ type: 'file', path: 'docs/index.html' });
+      expect(await resolvePath('/', lookup, withSpa)).toMatchObject({ type: 'file', path: 'index.html' });
+    });
+
+    it('redirects directories requested without a trailing slash', async () => {
+      expect(await resolvePath('docs', lookup, withSpa)).toEqual({ type: 'redirect' });
+      expect(await resolvePath('', lookup, withSpa)).toEqual({ type: 'redirect' });
+    });
+
+    it('serves name.html for clean URLs', async () => {
+      expect(await resolvePath('about', lookup, withSpa)).toMatchObject({ type: 'file', path: 'about.html' });
+      expect(await resolvePath('docs/intro', lookup, withSpa)).toMatchObject({ type: 'file', path: 'docs/intro.html' });
+    });
+
+    it('tries candidates in order and stops at the first match', async () => {
+      const spy = vi.fn(lookup);
+
+      await resolvePath('about', spy, withSpa);
+
+      expect(spy.mock.calls.map(([path]) => path)).toEqual(['about', 'about/index.html', 'about.html']);
+    });
+
+    it('falls back to the SPA file for unmatched extensionless paths', async () => {
+      expect(await resolvePath('settings/profile', lookup, withSpa)).toEqual({
+        type: 'file',
+        path: 'index.html',
+        target: 'index.html',
+        fallback: true
+      });
+      expect(await resolvePath('settings/', lookup, withSpa)).toMatchObject({ type: 'file', fallback: true });
+    });
+
+    it('never falls back for asset requests', async () => {
+      expect(await resolvePath('assets/missing.js', lookup, withSpa)).toEqual({ type: 'not-found' });
+    });
+
+    it('reports not-found when SPA fallback is disabled', async () => {
+      expect(await resolvePath('settings/profile', lookup, withoutSpa)).toEqual({ type: 'not-found' });
+    });
+
+    it('supports async lookups', async () => {
+      const asyncLookup = async (path: string) => lookup(path);
+      expect(await resolvePath('about', asyncLookup, withSpa)).toMatchObject({ path: 'about.html' });
+    });
+  });
+
+  describe('getCandidatePaths', () => {
+    it('lists every path resolvePath may look up, in order', () => {
+      expect(getCandidatePaths('docs', withSpa)).toEqual(['docs', 'docs/index.html', 'docs.html', 'index.html']);
+      expect(getCandidatePaths('docs/', withoutSpa)).toEqual(['docs/index.html']);
+      expect(getCandidatePaths('', withSpa)).toEqual(['index.html', 'index.html']);
+      expect(getCandidatePaths('assets/app.js', withSpa)).toEqual(['assets/app.js']);
+    });
+  });
+
+  describe('resolveSpaFallback', () => {
+    it('enables index.html by default', () => {
+      expect(resolveSpaFallback({})).toBe('index.html');
+    });
+
+    it('honors the deployment setting and fallback file', () => {
+      expect(resolveSpaFallback({ SPA_FALLBACK: 'false' })).toBeNull();
+      expect(resolveSpaFallback({ SPA_FALLBACK_FILE: '200.html' })).toBe('200.html');
+    });
+
+    it('lets the project setting override the deployment default', () => {
+      expect(resolveSpaFallback({}, { spaFallback: false })).toBeNull();
+      expect(resolveSpaFallback({ SPA_FALLBACK: 'false' }, { spaFallback: true })).toBe('index.html');
+    });
+  });
+
+  describe('getDirectoryRedirectLocation', () => {
+    it('adds the trailing slash and keeps the query string', () => {
+      const url = new URL('https://view.scrymore.com/my-project/v1.0.0/docs?path=/story/button');
+      expect(getDirectoryRedirectLocation(url)).toBe('/my-project/v1.0.0/docs/?path=/story/button');
+    });
+  });
+});
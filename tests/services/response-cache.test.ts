@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { buildResponseCacheKey, getEncodingKey, toPrivateCacheControl } from '@/services/response-cache';
+
+describe('Response cache keys', () => {
+  describe('getEncodingKey', () => {
+    it('lists accepted codings in order of preference', () => {
+      expect(getEncodingKey('gzip, deflate, br')).toBe('br,gzip');
+      expect(getEncodingKey('br;q=0.5, gzip')).toBe('gzip,br');
+      expect(getEncodingKey('gzip')).toBe('gzip');
+      expect(getEncodingKey('*')).toBe('br,gzip');
+    });
+
+    it('falls back to identity', () => {
+      expect(getEncodingKey(undefined)).toBe('identity');
+      expect(getEncodingKey('deflate, gzip;q=0')).toBe('identity');
+    });
+  });
+
+  describe('buildResponseCacheKey', () => {
+    const scope = { bucket: 'UPLOAD_BUCKET', zipKey: 'my-project/v1.0.0/storybook.zip', path: 'assets/app.js' };
+
+    it('covers bucket, archive, path and encoding', () => {
+      const key = new URL(buildResponseCacheKey('https://view.scrymore.com', scope, 'gzip'));
+
+      expect(key.origin).toBe('https://view.scrymore.com');
+      expect(key.searchParams.get('bucket')).toBe('UPLOAD_BUCKET');
+      expect(key.searchParams.get('zip')).toBe('my-project/v1.0.0/storybook.zip');
+      expect(key.searchParams.get('path')).toBe('assets/app.js');
+      expect(key.searchParams.get('encoding')).toBe('gzip');
+      expect(key.searchParams.has('viewer')).toBe(false);
+    });
+
+    it('keys entries per archive version', () => {
+      const v1 = buildResponseCacheKey('https://view.scrymore.com', { ...scope, archiveEtag: 'etag-1' }, 'gzip');
+      const v2 = buildResponseCacheKey('https://view.scrymore.com', { ...scope, archiveEtag: 'etag-2' }, 'gzip');
+
+      expect(new URL(v1).searchParams.get('etag')).toBe('etag-1');
+      expect(v1).not.toBe(v2);
+    });
+
+    it('keys private entries per viewer', () => {
+      const a = buildResponseCacheKey('https://view.scrymore.com', scope, 'gzip', 'user-a');
+      const b = buildResponseCacheKey('https://view.scrymore.com', scope, 'gzip', 'user-b');
+
+      expect(a).not.toBe(b);
+    });
+
+    it('does not let path characters bleed into other components', () => {
+      const tricky = buildResponseCacheKey(
+        'https://view.scrymore.com',
+        { ...scope, path: 'a.js&encoding=identity' },
+        'gzip'
+      );
+
+      expect(new URL(tricky).searchParams.get('encoding')).toBe('gzip');
+    });
+  });
+
+  describe('toPrivateCacheControl', () => {
+    it('replaces public with private', () => {
+      expect(toPrivateCacheControl('public, max-age=31536000, immutable')).toBe('private, max-age=31536000, immutable');
+      expect(toPrivateCacheControl('max-age=60')).toBe('private, max-age=60');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getExplodedPrefix,
+  getInternalObjectKeys,
+  parseServingStrategy,
+  resolveServingStrategy
+} from '@/services/serving-strategy';
+
+describe('Serving strategy', () => {
+  describe('parseServingStrategy', () => {
+    it('accepts known strategies case-insensitively', () => {
+      expect(parseServingStrategy('zip')).toBe('zip');
+      expect(parseServingStrategy(' Exploded ')).toBe('exploded');
+      expect(parseServingStrategy('zip-then-exploded')).toBe('zip-then-exploded');
+    });
+
+    it('rejects unknown values', () => {
+      expect(parseServingStrategy('tarball')).toBeUndefined();
+      expect(parseServingStrategy(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('resolveServingStrategy', () => {
+    it('defaults to zip', () => {
+      expect(resolveServingStrategy({})).toBe('zip');
+    });
+
+    it('uses the deployment default', () => {
+      expect(resolveServingStrategy({ SERVING_STRATEGY: 'zip-then-exploded' })).toBe('zip-then-exploded');
+    });
+
+    it('lets the project setting override the deployment default', () => {
+      expect(resolveServingStrategy({ SERVING_STRATEGY: 'zip' }, { servingStrategy: 'exploded' })).toBe('exploded');
+    });
+
+    it('forces exploded serving when ZIP extraction is disabled', () => {
+      expect(resolveServingStrategy({ ZIP_EXTRACTION_ENABLED: 'false' }, { servingStrategy: 'zip' })).toBe('exploded');
+      expect(resolveServingStrategy({ ZIP_EXTRACTION_ENABLED: 'true' })).toBe('zip');
+    });
+  });
+
+  describe('getExplodedPrefix', () => {
+    it('maps archives to the directory next to them', () => {
+      expect(getExplodedPrefix('my-project/v1.0.0/storybook.zip')).toBe('my-project/v1.0.0/');
+      expect(getExplodedPrefix('my-project/storybook.zip')).toBe('my-project/');
+      expect(getExplodedPrefix('legacy-site.zip')).toBe('legacy-site/');
+    });
+  });
+
+  describe('getInternalObjectKeys', () => {
+    it('lists the archive and its sidecars', () => {
+      expect(getInternalObjectKeys('my-project/v1.0.0/storybook.zip')).toEqual([
+        'my-project/v1.0.0/storybook.zip',
+        'my-project/v1.0.0/index.cd.json',
+        'my-project/v1.0.0/index.cd.bin'
+      ]);
+    });
+  });
+});
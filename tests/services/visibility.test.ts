@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { getProjectVisibility, isProjectMember } from '@/services/visibility';
+import {
+  getProjectVisibility,
+  isProjectMember,
+  resolveMaxStaleSeconds,
+  resolveVersionVisibility,
+} from '@/services/visibility';
 
 // Mock the firestore-auth module
 vi.mock('@/services/firestore-auth', () => ({
@@ -23,6 +28,36 @@ describe('isProjectMember', () => {
   });
 });
 
+describe('resolveVersionVisibility', () => {
+  const project = {
+    visibility: 'private' as const,
+    memberIds: [],
+    versionVisibility: { 'v2.0.0': 'public' as const },
+  };
+
+  it('uses the version override when there is one', () => {
+    expect(resolveVersionVisibility(project, 'v2.0.0')).toBe('public');
+  });
+
+  it('falls back to the project visibility', () => {
+    expect(resolveVersionVisibility(project, 'v1.0.0')).toBe('private');
+    expect(resolveVersionVisibility(project, '')).toBe('private');
+    expect(resolveVersionVisibility({ visibility: 'public', memberIds: [] }, 'pr-1')).toBe('public');
+  });
+});
+
+describe('resolveMaxStaleSeconds', () => {
+  it('defaults to an hour', () => {
+    expect(resolveMaxStaleSeconds({} as any)).toBe(3600);
+    expect(resolveMaxStaleSeconds({ VISIBILITY_MAX_STALE_SECONDS: 'soon' } as any)).toBe(3600);
+  });
+
+  it('reads VISIBILITY_MAX_STALE_SECONDS', () => {
+    expect(resolveMaxStaleSeconds({ VISIBILITY_MAX_STALE_SECONDS: '0' } as any)).toBe(0);
+    expect(resolveMaxStaleSeconds({ VISIBILITY_MAX_STALE_SECONDS: '86400' } as any)).toBe(86400);
+  });
+});
+
 describe('getProjectVisibility', () => {
   const mockEnv = {
     FIREBASE_PROJECT_ID: 'test-project',
@@ -108,6 +143,136 @@ describe('getProjectVisibility', () => {
     expect(mockEnv.CDN_CACHE.put).toHaveBeenCalled();
   });
 
+  it('reads the serving strategy from the project document', async () => {
+    mockEnv.CDN_CACHE.get.mockResolvedValue(null);
+
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          fields: {
+            visibility: { stringValue: 'public' },
+            servingStrategy: { stringValue: 'zip-then-exploded' },
+          },
+        }),
+    });
+
+    const result = await getProjectVisibility('project-123', mockEnv as any);
+
+    expect(result).toEqual({
+      visibility: 'public',
+      memberIds: [],
+      servingStrategy: 'zip-then-exploded',
+    });
+    const [, payload] = mockEnv.CDN_CACHE.put.mock.calls[0];
+    expect(JSON.parse(payload).servingStrategy).toBe('zip-then-exploded');
+  });
+
+  it('reads the SPA fallback setting from the project document', async () => {
+    mockEnv.CDN_CACHE.get.mockResolvedValue(null);
+
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          fields: { spaFallback: { booleanValue: false } },
+        }),
+    });
+
+    const result = await getProjectVisibility('project-123', mockEnv as any);
+
+    expect(result).toEqual({ visibility: 'public', memberIds: [], spaFallback: false });
+  });
+
+  it('reads version visibility overrides from the project document', async () => {
+    mockEnv.CDN_CACHE.get.mockResolvedValue(null);
+
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          fields: {
+            visibility: { stringValue: 'private' },
+            versionVisibility: {
+              mapValue: {
+                fields: {
+                  'v2.0.0': { stringValue: 'public' },
+                  'pr-123': { stringValue: 'private' },
+                  'pr-124': { stringValue: 'secret' },
+                },
+              },
+            },
+          },
+        }),
+    });
+
+    const result = await getProjectVisibility('project-123', mockEnv as any);
+
+    expect(result).toEqual({
+      visibility: 'private',
+      memberIds: [],
+      versionVisibility: { 'v2.0.0': 'public', 'pr-123': 'private' },
+    });
+    const [, payload] = mockEnv.CDN_CACHE.put.mock.calls[0];
+    expect(JSON.parse(payload).versionVisibility).toEqual({ 'v2.0.0': 'public', 'pr-123': 'private' });
+  });
+
+  it('reads organization, team and email-domain rules from the project document', async () => {
+    mockEnv.CDN_CACHE.get.mockResolvedValue(null);
+
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          fields: {
+            visibility: { stringValue: 'private' },
+            orgId: { stringValue: 'acme' },
+            teamIds: { arrayValue: { values: [{ stringValue: 'design' }] } },
+            allowedEmailDomains: { arrayValue: { values: [{ stringValue: 'acme.com' }] } },
+          },
+        }),
+    });
+
+    const result = await getProjectVisibility('project-123', mockEnv as any);
+
+    expect(result).toEqual({
+      visibility: 'private',
+      memberIds: [],
+      orgId: 'acme',
+      teamIds: ['design'],
+      allowedEmailDomains: ['acme.com'],
+    });
+  });
+
+  it('keeps version overrides of cached entries', async () => {
+    mockEnv.CDN_CACHE.get.mockResolvedValue({
+      visibility: 'private',
+      memberIds: [],
+      versionVisibility: { 'v2.0.0': 'public' },
+      cachedAt: Date.now(),
+    });
+
+    const result = await getProjectVisibility('project-123', mockEnv as any);
+
+    expect(result?.versionVisibility).toEqual({ 'v2.0.0': 'public' });
+  });
+
+  it('ignores unknown serving strategies', async () => {
+    mockEnv.CDN_CACHE.get.mockResolvedValue(null);
+
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          fields: { servingStrategy: { stringValue: 'ftp' } },
+        }),
+    });
+
+    const result = await getProjectVisibility('project-123', mockEnv as any);
+
+    expect(result).toEqual({ visibility: 'public', memberIds: [] });
+  });
+
   it('returns null when project not found in Firestore', async () => {
     mockEnv.CDN_CACHE.get.mockResolvedValue(null);
 
@@ -139,6 +304,144 @@ describe('getProjectVisibility', () => {
     expect(result?.visibility).toBe('public');
   });
 
+  it('caches Firestore 404s as negative results', async () => {
+    mockEnv.CDN_CACHE.get.mockResolvedValue(null);
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 404 });
+
+    await getProjectVisibility('nonexistent', mockEnv as any);
+
+    const [key, payload] = mockEnv.CDN_CACHE.put.mock.calls[0];
+    expect(key).toBe('visibility:nonexistent');
+    expect(JSON.parse(payload)).toMatchObject({ notFound: true });
+  });
+
+  it('answers cached negative results without Firestore', async () => {
+    mockEnv.CDN_CACHE.get.mockResolvedValue({ notFound: true, cachedAt: Date.now() });
+    global.fetch = vi.fn();
+
+    const result = await getProjectVisibility('nonexistent', mockEnv as any);
+
+    expect(result).toBeNull();
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  describe('stale entries', () => {
+    const staleCache = {
+      visibility: 'private',
+      memberIds: ['user-123'],
+      cachedAt: Date.now() - 120000,
+    };
+    const firestoreDocument = {
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          fields: {
+            visibility: { stringValue: 'private' },
+            memberIds: { arrayValue: { values: [{ stringValue: 'user-456' }] } },
+          },
+        }),
+    };
+
+    it('serves the stale entry and refreshes it in the background', async () => {
+      mockEnv.CDN_CACHE.get.mockResolvedValue(staleCache);
+      global.fetch = vi.fn().mockResolvedValue(firestoreDocument);
+      const tasks: Promise<unknown>[] = [];
+
+      const result = await getProjectVisibility('project-123', mockEnv as any, {
+        background: (task) => tasks.push(task),
+      });
+
+      expect(result).toEqual({ visibility: 'private', memberIds: ['user-123'] });
+      expect(tasks).toHaveLength(1);
+      await expect(tasks[0]).resolves.toEqual({ visibility: 'private', memberIds: ['user-456'] });
+      expect(JSON.parse(mockEnv.CDN_CACHE.put.mock.calls[0][1]).memberIds).toEqual(['user-456']);
+    });
+
+    it('serves the stale entry instead of failing closed when Firestore errors', async () => {
+      mockEnv.CDN_CACHE.get.mockResolvedValue(staleCache);
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 503, text: async () => '' });
+
+      const result = await getProjectVisibility('project-123', mockEnv as any);
+
+      expect(result).toEqual({ visibility: 'private', memberIds: ['user-123'] });
+      expect(mockEnv.CDN_CACHE.put).not.toHaveBeenCalled();
+    });
+
+    it('fails closed once the entry is older than the maximum staleness', async () => {
+      mockEnv.CDN_CACHE.get.mockResolvedValue(staleCache);
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 503, text: async () => '' });
+      const tasks: Promise<unknown>[] = [];
+
+      const result = await getProjectVisibility(
+        'project-123',
+        { ...mockEnv, VISIBILITY_MAX_STALE_SECONDS: '30' } as any,
+        { background: (task) => tasks.push(task) }
+      );
+
+      expect(result).toEqual({ visibility: 'private', memberIds: [] });
+      expect(tasks).toHaveLength(0);
+    });
+
+    it('never serves negative results stale', async () => {
+      mockEnv.CDN_CACHE.get.mockResolvedValue({ notFound: true, cachedAt: Date.now() - 120000 });
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 503, text: async () => '' });
+      const tasks: Promise<unknown>[] = [];
+
+      const result = await getProjectVisibility('project-123', mockEnv as any, {
+        background: (task) => tasks.push(task),
+      });
+
+      expect(result).toEqual({ visibility: 'private', memberIds: [] });
+      expect(tasks).toHaveLength(0);
+    });
+
+    it('keeps negative results in KV only while they are fresh', async () => {
+      mockEnv.CDN_CACHE.get.mockResolvedValue(null);
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 404 });
+
+      await getProjectVisibility('nonexistent', { ...mockEnv, VISIBILITY_MAX_STALE_SECONDS: '600' } as any);
+
+      expect(mockEnv.CDN_CACHE.put.mock.calls[0][2]).toEqual({ expirationTtl: 60 });
+    });
+
+    it('keeps entries in KV for as long as they may be served', async () => {
+      mockEnv.CDN_CACHE.get.mockResolvedValue(null);
+      global.fetch = vi.fn().mockResolvedValue(firestoreDocument);
+
+      await getProjectVisibility('project-123', { ...mockEnv, VISIBILITY_MAX_STALE_SECONDS: '600' } as any);
+
+      expect(mockEnv.CDN_CACHE.put.mock.calls[0][2]).toEqual({ expirationTtl: 660 });
+    });
+  });
+
+  it('goes to Firestore when the cache adapter throws', async () => {
+    const outage = () => Promise.reject(new Error('ECONNREFUSED'));
+    const cache = {
+      get: vi.fn(outage),
+      getJson: vi.fn(outage),
+      getArrayBuffer: vi.fn(outage),
+      set: vi.fn(outage),
+      delete: vi.fn(outage),
+      exists: vi.fn(outage),
+    };
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          fields: {
+            visibility: { stringValue: 'private' },
+            memberIds: { arrayValue: { values: [{ stringValue: 'user-456' }] } },
+          },
+        }),
+    });
+
+    const result = await getProjectVisibility('project-123', mockEnv as any, { cache });
+
+    expect(result).toEqual({ visibility: 'private', memberIds: ['user-456'] });
+    expect(cache.getJson).toHaveBeenCalled();
+    expect(cache.set).toHaveBeenCalled();
+  });
+
   describe('with service account authentication', () => {
     beforeEach(() => {
       (isServiceAccountConfigured as any).mockReturnValue(true);
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { parseAcceptEncoding, acceptsEncoding } from '@/utils/accept-encoding';
+
+describe('Accept-Encoding utilities', () => {
+  describe('parseAcceptEncoding', () => {
+    it('parses codings with default quality', () => {
+      const codings = parseAcceptEncoding('gzip, deflate, br');
+
+      expect(codings.get('gzip')).toBe(1);
+      expect(codings.get('deflate')).toBe(1);
+      expect(codings.get('br')).toBe(1);
+    });
+
+    it('parses q-values', () => {
+      const codings = parseAcceptEncoding('br;q=1.0, gzip;q=0.8, *;q=0.1');
+
+      expect(codings.get('br')).toBe(1);
+      expect(codings.get('gzip')).toBe(0.8);
+      expect(codings.get('*')).toBe(0.1);
+    });
+
+    it('returns an empty map for missing headers', () => {
+      expect(parseAcceptEncoding(undefined).size).toBe(0);
+    });
+  });
+
+  describe('acceptsEncoding', () => {
+    it('accepts listed codings', () => {
+      expect(acceptsEncoding('gzip, br', 'gzip')).toBe(true);
+    });
+
+    it('rejects codings with q=0', () => {
+      expect(acceptsEncoding('gzip;q=0, br', 'gzip')).toBe(false);
+    });
+
+    it('falls back to the wildcard', () => {
+      expect(acceptsEncoding('*', 'gzip')).toBe(true);
+      expect(acceptsEncoding('br, *;q=0', 'gzip')).toBe(false);
+    });
+
+    it('prefers explicit entries over the wildcard', () => {
+      expect(acceptsEncoding('gzip;q=0, *', 'gzip')).toBe(false);
+    });
+
+    it('rejects when the header is missing', () => {
+      expect(acceptsEncoding(undefined, 'gzip')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, updateCrc32 } from '@/utils/crc32';
+
+describe('CRC-32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('returns 0 for empty input', () => {
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('produces the same value when computed incrementally', () => {
+    const data = new TextEncoder().encode('The quick brown fox jumps over the lazy dog');
+
+    let crc = 0;
+    for (let i = 0; i < data.length; i += 7) {
+      crc = updateCrc32(crc, data.subarray(i, i + 7));
+    }
+
+    expect(crc).toBe(crc32(data));
+    expect(crc).toBe(0x414fa339);
+  });
+});
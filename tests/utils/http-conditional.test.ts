@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatHttpDate,
+  parseHttpDate,
+  matchesIfNoneMatch,
+  isNotModified
+} from '@/utils/http-conditional';
+
+describe('HTTP conditional request utilities', () => {
+  const lastModified = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+  describe('formatHttpDate / parseHttpDate', () => {
+    it('round-trips IMF-fixdate values', () => {
+      const formatted = formatHttpDate(lastModified);
+
+      expect(formatted).toBe('Mon, 01 Jan 2024 12:00:00 GMT');
+      expect(parseHttpDate(formatted)).toBe(lastModified);
+    });
+
+    it('returns undefined for invalid dates', () => {
+      expect(parseHttpDate('not a date')).toBeUndefined();
+      expect(parseHttpDate(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('matchesIfNoneMatch', () => {
+    it('matches the wildcard', () => {
+      expect(matchesIfNoneMatch('*', '"123"')).toBe(true);
+    });
+
+    it('matches one tag out of a list', () => {
+      expect(matchesIfNoneMatch('"abc", "123"', '"123"')).toBe(true);
+    });
+
+    it('uses weak comparison', () => {
+      expect(matchesIfNoneMatch('W/"123"', '"123"')).toBe(true);
+    });
+
+    it('does not match different tags', () => {
+      expect(matchesIfNoneMatch('"456"', '"123"')).toBe(false);
+    });
+  });
+
+  describe('isNotModified', () => {
+    it('is false without conditional headers', () => {
+      expect(isNotModified({}, { etag: '"123"', lastModified })).toBe(false);
+    });
+
+    it('is true when If-None-Match matches', () => {
+      expect(isNotModified({ ifNoneMatch: '"123"' }, { etag: '"123"' })).toBe(true);
+    });
+
+    it('is true when not modified since the given date', () => {
+      expect(
+        isNotModified({ ifModifiedSince: 'Mon, 01 Jan 2024 12:00:00 GMT' }, { etag: '"123"', lastModified })
+      ).toBe(true);
+    });
+
+    it('is false when modified after the given date', () => {
+      expect(
+        isNotModified({ ifModifiedSince: 'Mon, 01 Jan 2024 11:59:59 GMT' }, { etag: '"123"', lastModified })
+      ).toBe(false);
+    });
+
+    it('ignores If-Modified-Since when If-None-Match is present', () => {
+      expect(
+        isNotModified(
+          { ifNoneMatch: '"456"', ifModifiedSince: 'Mon, 01 Jan 2024 12:00:00 GMT' },
+          { etag: '"123"', lastModified }
+        )
+      ).toBe(false);
+    });
+
+    it('ignores If-Modified-Since without a known modification time', () => {
+      expect(isNotModified({ ifModifiedSince: 'Mon, 01 Jan 2024 12:00:00 GMT' }, { etag: '"123"' })).toBe(false);
+    });
+  });
+});
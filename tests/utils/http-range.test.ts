@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseRangeHeader,
+  isRangeConditionMet,
+  formatContentRange,
+  formatUnsatisfiedRange,
+  getRangeLength
+} from '@/utils/http-range';
+
+describe('HTTP Range utilities', () => {
+  describe('parseRangeHeader', () => {
+    it('returns none when header is absent', () => {
+      expect(parseRangeHeader(undefined, 100)).toEqual({ type: 'none' });
+      expect(parseRangeHeader('', 100)).toEqual({ type: 'none' });
+    });
+
+    it('parses a closed range', () => {
+      expect(parseRangeHeader('bytes=10-19', 100)).toEqual({
+        type: 'range',
+        range: { start: 10, end: 19 }
+      });
+    });
+
+    it('parses an open-ended range', () => {
+      expect(parseRangeHeader('bytes=90-', 100)).toEqual({
+        type: 'range',
+        range: { start: 90, end: 99 }
+      });
+    });
+
+    it('parses a suffix range', () => {
+      expect(parseRangeHeader('bytes=-10', 100)).toEqual({
+        type: 'range',
+        range: { start: 90, end: 99 }
+      });
+    });
+
+    it('clamps suffix ranges longer than the representation', () => {
+      expect(parseRangeHeader('bytes=-500', 100)).toEqual({
+        type: 'range',
+        range: { start: 0, end: 99 }
+      });
+    });
+
+    it('clamps end beyond the representation', () => {
+      expect(parseRangeHeader('bytes=50-1000', 100)).toEqual({
+        type: 'range',
+        range: { start: 50, end: 99 }
+      });
+    });
+
+    it('reports unsatisfiable when start is past the end', () => {
+      expect(parseRangeHeader('bytes=100-200', 100)).toEqual({ type: 'unsatisfiable' });
+    });
+
+    it('reports unsatisfiable for zero-length suffix', () => {
+      expect(parseRangeHeader('bytes=-0', 100)).toEqual({ type: 'unsatisfiable' });
+    });
+
+    it('reports unsatisfiable for any range on an empty representation', () => {
+      expect(parseRangeHeader('bytes=0-', 0)).toEqual({ type: 'unsatisfiable' });
+      expect(parseRangeHeader('bytes=-5', 0)).toEqual({ type: 'unsatisfiable' });
+    });
+
+    it('ignores malformed headers', () => {
+      expect(parseRangeHeader('bytes=abc', 100)).toEqual({ type: 'none' });
+      expect(parseRangeHeader('items=0-5', 100)).toEqual({ type: 'none' });
+      expect(parseRangeHeader('bytes=-', 100)).toEqual({ type: 'none' });
+      expect(parseRangeHeader('bytes=20-10', 100)).toEqual({ type: 'none' });
+    });
+
+    it('ignores multi-range requests', () => {
+      expect(parseRangeHeader('bytes=0-5,10-15', 100)).toEqual({ type: 'none' });
+    });
+  });
+
+  describe('isRangeConditionMet', () => {
+    it('is met when If-Range is absent', () => {
+      expect(isRangeConditionMet(undefined, '"123"')).toBe(true);
+    });
+
+    it('is met when If-Range matches the strong ETag', () => {
+      expect(isRangeConditionMet('"123"', '"123"')).toBe(true);
+    });
+
+    it('is not met when If-Range differs', () => {
+      expect(isRangeConditionMet('"456"', '"123"')).toBe(false);
+    });
+
+    it('is not met for weak validators', () => {
+      expect(isRangeConditionMet('W/"123"', '"123"')).toBe(false);
+    });
+
+    it('compares HTTP-date validators against Last-Modified', () => {
+      const lastModified = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+      expect(isRangeConditionMet('Mon, 01 Jan 2024 12:00:00 GMT', '"123"', lastModified)).toBe(true);
+      expect(isRangeConditionMet('Mon, 01 Jan 2024 11:00:00 GMT', '"123"', lastModified)).toBe(false);
+      expect(isRangeConditionMet('Mon, 01 Jan 2024 12:00:00 GMT', '"123"')).toBe(false);
+    });
+  });
+
+  describe('formatting', () => {
+    it('formats Content-Range values', () => {
+      expect(formatContentRange({ start: 0, end: 9 }, 100)).toBe('bytes 0-9/100');
+      expect(formatUnsatisfiedRange(100)).toBe('bytes */100');
+    });
+
+    it('computes inclusive range length', () => {
+      expect(getRangeLength({ start: 10, end: 19 })).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LruCache } from '@/utils/lru-cache';
+
+describe('LruCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns stored values and counts hits and misses', () => {
+    const cache = new LruCache<number>({ maxEntries: 2, ttlMs: 1000 });
+
+    cache.set('a', 1);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1, evictions: 0, size: 1, maxEntries: 2 });
+  });
+
+  it('evicts the least recently used entry', () => {
+    const cache = new LruCache<number>({ maxEntries: 2, ttlMs: 1000 });
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+    expect(cache.stats().evictions).toBe(1);
+  });
+
+  it('expires entries after the TTL', () => {
+    vi.useFakeTimers();
+    const cache = new LruCache<number>({ maxEntries: 2, ttlMs: 1000 });
+
+    cache.set('a', 1);
+    vi.advanceTimersByTime(999);
+    expect(cache.get('a')).toBe(1);
+
+    vi.advanceTimersByTime(1);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.stats().size).toBe(0);
+  });
+
+  it('replaces existing keys without growing', () => {
+    const cache = new LruCache<number>({ maxEntries: 2, ttlMs: 1000 });
+
+    cache.set('a', 1);
+    cache.set('a', 2);
+
+    expect(cache.get('a')).toBe(2);
+    expect(cache.stats().size).toBe(1);
+  });
+
+  it('stores nothing when maxEntries is 0', () => {
+    const cache = new LruCache<number>({ maxEntries: 0, ttlMs: 1000 });
+
+    cache.set('a', 1);
+
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('deletes and clears entries', () => {
+    const cache = new LruCache<number>({ maxEntries: 2, ttlMs: 1000 });
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+
+    expect(cache.delete('a')).toBe(true);
+    expect(cache.get('a')).toBeUndefined();
+    cache.clear();
+    expect(cache.stats().size).toBe(0);
+  });
+});
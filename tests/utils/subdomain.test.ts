@@ -162,6 +162,21 @@ describe('subdomain path parsing with flexible versions', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('parsePathForUUID requestPath', () => {
+    it('keeps the path as written, including a trailing slash', () => {
+      expect(parsePathForUUID('/project/v1.0.0/docs/guide')?.requestPath).toBe('docs/guide');
+      expect(parsePathForUUID('/project/v1.0.0/docs/')?.requestPath).toBe('docs/');
+    });
+
+    it('distinguishes the bare root from the root with a slash', () => {
+      const bare = parsePathForUUID('/project/v1.0.0');
+      const slash = parsePathForUUID('/project/v1.0.0/');
+      expect(bare?.filePath).toBe('index.html');
+      expect(bare?.requestPath).toBe('');
+      expect(slash?.requestPath).toBe('/');
+    });
+  });
 });
 
 describe('extractProjectFromReferer', () => {
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createArchiveVersionCache,
+  getArchiveVersion,
+  getCurrentArchiveVersion,
+  matchesArchiveVersion,
+  pinArchiveVersion
+} from '@/services/zip/archive-version';
+import { ZipArchiveChangedError } from '@/services/zip/errors';
+
+describe('Archive version checks', () => {
+  describe('matchesArchiveVersion', () => {
+    it('compares etags when both are known', () => {
+      expect(matchesArchiveVersion({ etag: 'a', size: 10 }, { etag: 'a', size: 10 })).toBe(true);
+      expect(matchesArchiveVersion({ etag: 'b', size: 10 }, { etag: 'a', size: 10 })).toBe(false);
+    });
+
+    it('falls back to the size for directories cached without an etag', () => {
+      expect(matchesArchiveVersion({ etag: 'a', size: 10 }, { size: 10 })).toBe(true);
+      expect(matchesArchiveVersion({ etag: 'a', size: 12 }, { size: 10 })).toBe(false);
+    });
+  });
+
+  it('reads the version from a central directory', () => {
+    expect(getArchiveVersion({ entries: {}, totalSize: 42, cachedAt: '', etag: 'e' })).toEqual({ etag: 'e', size: 42 });
+  });
+
+  describe('pinArchiveVersion', () => {
+    const bucket = {
+      get: vi.fn(async (key: string, _options?: unknown) => ({ key, etag: 'new', size: 10 })),
+      head: vi.fn()
+    };
+
+    it('throws when a read returns another version of the archive', async () => {
+      const pinned = pinArchiveVersion(bucket, 'site.zip', { etag: 'old', size: 10 });
+
+      const error = await pinned.get('site.zip', { range: { offset: 0, length: 30 } }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ZipArchiveChangedError);
+      expect(error).toMatchObject({ code: 'ZIP_ARCHIVE_CHANGED', status: 503, currentEtag: 'new' });
+    });
+
+    it('passes matching reads and other keys through', async () => {
+      const pinned = pinArchiveVersion(bucket, 'site.zip', { etag: 'new', size: 10 });
+
+      await expect(pinned.get('site.zip')).resolves.toMatchObject({ etag: 'new' });
+      await expect(
+        pinArchiveVersion(bucket, 'site.zip', { etag: 'old', size: 10 }).get('other.json')
+      ).resolves.toMatchObject({ key: 'other.json' });
+      expect(pinned.head).toBe(bucket.head);
+    });
+  });
+
+  describe('getCurrentArchiveVersion', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('remembers HEADed versions for a few seconds', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const bucket = { head: vi.fn(async (_key: string) => ({ etag: 'e1', size: 10 })) };
+      const cache = createArchiveVersionCache();
+
+      expect(await getCurrentArchiveVersion(bucket, 'site.zip', cache)).toEqual({ etag: 'e1', size: 10 });
+      await getCurrentArchiveVersion(bucket, 'site.zip', cache);
+      expect(bucket.head).toHaveBeenCalledTimes(1);
+
+      vi.setSystemTime(Date.now() + 10_000);
+      await getCurrentArchiveVersion(bucket, 'site.zip', cache);
+      expect(bucket.head).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns null for a missing archive', async () => {
+      expect(await getCurrentArchiveVersion({ head: vi.fn(async () => null) }, 'site.zip')).toBeNull();
+    });
+  });
+});
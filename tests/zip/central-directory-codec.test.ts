@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  BINARY_FORMAT_VERSION,
+  decodeCentralDirectory,
+  encodeCentralDirectory,
+  isBinaryCentralDirectory,
+  resolveCentralDirectoryEncoding
+} from '@/services/zip/central-directory-codec';
+import type { ZipCentralDirectory, ZipFileEntry } from '@/types/zip';
+
+describe('Binary central directory codec', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const entry = (name: string, overrides: Partial<ZipFileEntry> = {}): ZipFileEntry => ({
+    name,
+    size: 100,
+    compressedSize: 60,
+    offset: 0,
+    crc32: 0xdeadbeef,
+    compressionMethod: 8,
+    ...overrides
+  });
+
+  const directory: ZipCentralDirectory = {
+    entries: {
+      'index.html': entry('index.html', { lastModified: Date.UTC(2024, 2, 15, 13, 45, 30), flags: 0x808 }),
+      'assets/main.js': entry('assets/main.js', { offset: 5_000_000_000, size: 6_000_000_000, compressedSize: 4_294_967_296 }),
+      'docs/über.html': entry('docs/über.html', { compressionMethod: 0, externalAttributes: (0o100644 << 16) >>> 0 }),
+      'Z.txt': entry('Z.txt', { comment: 'uppercase sorts first', flags: 0, lastModified: 0 })
+    },
+    totalSize: 7_000_000_000,
+    cachedAt: '2024-03-15T13:45:30.000Z',
+    comment: 'archive comment',
+    etag: 'etag-1'
+  };
+
+  it('round-trips every field, including ZIP64 values and unset optionals', () => {
+    const decoded = decodeCentralDirectory(encodeCentralDirectory(directory));
+
+    expect(decoded.totalSize).toBe(directory.totalSize);
+    expect(decoded.cachedAt).toBe(directory.cachedAt);
+    expect(decoded.comment).toBe('archive comment');
+    expect(decoded.etag).toBe('etag-1');
+    for (const [name, value] of Object.entries(directory.entries)) {
+      expect(decoded.entries[name]).toEqual(value);
+    }
+    expect(decoded.entries['assets/main.js'].lastModified).toBeUndefined();
+    expect('flags' in decoded.entries['assets/main.js']).toBe(false);
+  });
+
+  it('looks up names without listing them and misses cleanly', () => {
+    const decoded = decodeCentralDirectory(encodeCentralDirectory(directory));
+
+    expect(decoded.entries['missing.js']).toBeUndefined();
+    expect('missing.js' in decoded.entries).toBe(false);
+    expect('index.html' in decoded.entries).toBe(true);
+    expect(decoded.entries['index.html']).toBe(decoded.entries['index.html']);
+  });
+
+  it('does not retain missed names', () => {
+    const decoded = decodeCentralDirectory(encodeCentralDirectory(directory));
+    const set = vi.spyOn(Map.prototype, 'set');
+
+    for (let i = 0; i < 100; i++) {
+      expect(decoded.entries[`missing-${i}.html`]).toBeUndefined();
+    }
+    expect(decoded.entries['index.html']).toBeDefined();
+
+    expect(set.mock.calls.map(([name]) => name)).toEqual(['index.html']);
+  });
+
+  it('enumerates entries in byte order like a plain record', () => {
+    const decoded = decodeCentralDirectory(encodeCentralDirectory(directory));
+
+    expect(Object.keys(decoded.entries)).toEqual(['Z.txt', 'assets/main.js', 'docs/über.html', 'index.html']);
+    expect(JSON.parse(JSON.stringify(decoded))).toEqual(JSON.parse(JSON.stringify(directory)));
+  });
+
+  it('finds every entry of a large directory', () => {
+    const entries: Record<string, ZipFileEntry> = {};
+    for (let i = 0; i < 5000; i++) {
+      const name = `static/chunks/${i.toString(36)}-${(i * 7919).toString(16)}.js`;
+      entries[name] = entry(name, { offset: i * 1000, crc32: i });
+    }
+    const large: ZipCentralDirectory = { entries, totalSize: 5_000_000, cachedAt: '' };
+
+    const encoded = encodeCentralDirectory(large);
+    const decoded = decodeCentralDirectory(encoded);
+
+    for (const [name, value] of Object.entries(entries)) {
+      expect(decoded.entries[name]).toEqual(value);
+    }
+    expect(encoded.length).toBeLessThan(JSON.stringify(large).length * 0.6);
+  });
+
+  it('handles an empty directory', () => {
+    const decoded = decodeCentralDirectory(encodeCentralDirectory({ entries: {}, totalSize: 22, cachedAt: 'x' }));
+
+    expect(Object.keys(decoded.entries)).toEqual([]);
+    expect(decoded.entries['index.html']).toBeUndefined();
+  });
+
+  it('is recognized by its magic and versioned', () => {
+    const encoded = encodeCentralDirectory(directory);
+
+    expect(isBinaryCentralDirectory(encoded)).toBe(true);
+    expect(isBinaryCentralDirectory(new TextEncoder().encode(JSON.stringify(directory)))).toBe(false);
+    expect(encoded[3]).toBe(BINARY_FORMAT_VERSION);
+
+    const future = encoded.slice();
+    future[3] = BINARY_FORMAT_VERSION + 1;
+    expect(() => decodeCentralDirectory(future)).toThrow('Unsupported central directory format version');
+    expect(() => decodeCentralDirectory(encoded.subarray(0, encoded.length - 1))).toThrow('Truncated');
+  });
+
+  it('is selected per deployment', () => {
+    expect(resolveCentralDirectoryEncoding({})).toBe('json');
+    expect(resolveCentralDirectoryEncoding({ ZIP_CD_ENCODING: 'binary' })).toBe('binary');
+    expect(resolveCentralDirectoryEncoding({ ZIP_CD_ENCODING: 'msgpack' })).toBe('json');
+  });
+});
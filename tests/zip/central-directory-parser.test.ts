@@ -0,0 +1,254 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseCentralDirectory } from '@/services/zip/central-directory-parser';
+import { ZipError, ZipFormatError, ZipUnsupportedError } from '@/services/zip/errors';
+import { buildZip, type ZipFixtureFile } from '../helpers/zip-builder';
+
+function createReader(bytes: Uint8Array) {
+  return {
+    getLength: vi.fn(async () => bytes.length),
+    read: vi.fn(async (offset: number, length: number) => bytes.slice(offset, offset + length))
+  };
+}
+
+// Deterministic PRNG so fuzz failures are reproducible
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+const files: ZipFixtureFile[] = [
+  {
+    name: 'index.html',
+    data: '<html>hello</html>',
+    modified: new Date(Date.UTC(2024, 0, 2, 3, 4, 6)),
+    externalAttributes: (0o100644 << 16) >>> 0,
+    comment: 'entry point'
+  },
+  { name: 'assets/', data: '', method: 0 },
+  { name: 'assets/logo.png', data: new Uint8Array(100).map((_, i) => i), method: 0 },
+  { name: 'sb-common-assets/fonts.css', data: '@font-face {}', dataDescriptor: true }
+];
+
+describe('parseCentralDirectory', () => {
+  it('parses entries with timestamps, attributes, flags and comments', async () => {
+    const zip = buildZip(files, { comment: 'built by ci' });
+
+    const parsed = await parseCentralDirectory(createReader(zip));
+
+    expect(parsed.totalSize).toBe(zip.length);
+    expect(parsed.comment).toBe('built by ci');
+    expect(parsed.entries.map((entry) => entry.name)).toEqual([
+      'index.html',
+      'assets/',
+      'assets/logo.png',
+      'sb-common-assets/fonts.css'
+    ]);
+    expect(parsed.entries[0]).toMatchObject({
+      offset: 0,
+      size: 18,
+      compressionMethod: 8,
+      lastModified: Date.UTC(2024, 0, 2, 3, 4, 6),
+      externalAttributes: (0o100644 << 16) >>> 0,
+      flags: 0,
+      comment: 'entry point'
+    });
+    expect(parsed.entries[2]).toMatchObject({ size: 100, compressedSize: 100, compressionMethod: 0 });
+    expect(parsed.entries[2].comment).toBeUndefined();
+    expect(parsed.entries[3].flags).toBe(0x0008);
+  });
+
+  it('finds the EOCD with a single tail read for small archives', async () => {
+    const reader = createReader(buildZip(files));
+
+    await parseCentralDirectory(reader);
+
+    expect(reader.read).toHaveBeenCalledTimes(1);
+    expect(reader.read).toHaveBeenCalledWith(0, expect.any(Number));
+  });
+
+  it('reads a central directory outside the tail with one extra read', async () => {
+    // ~1500 records of ~100 bytes: a directory larger than the tail read
+    const many = Array.from({ length: 1500 }, (_, i) => ({
+      name: `stories/component-${i}-${'x'.repeat(40)}.js`,
+      data: '',
+      method: 0 as const
+    }));
+    const reader = createReader(buildZip(many));
+
+    const parsed = await parseCentralDirectory(reader);
+
+    expect(reader.read).toHaveBeenCalledTimes(2);
+    // Tail read: EOCD + longest comment + ZIP64 locator
+    expect(reader.read.mock.calls[0][1]).toBe(22 + 0xffff + 20);
+    expect(parsed.entries).toHaveLength(1500);
+  });
+
+  it('ignores EOCD signatures inside the archive comment', async () => {
+    const comment = new Uint8Array([0x50, 0x4b, 0x05, 0x06, 0, 0, 0, 0]);
+
+    const parsed = await parseCentralDirectory(createReader(buildZip(files, { comment })));
+
+    expect(parsed.entries).toHaveLength(files.length);
+  });
+
+  it('reads ZIP64 archives', async () => {
+    const zip = buildZip(files, { zip64: true });
+
+    const parsed = await parseCentralDirectory(createReader(zip));
+
+    const plain = await parseCentralDirectory(createReader(buildZip(files)));
+    expect(parsed.entries.map(({ name, size, compressedSize, crc32 }) => ({ name, size, compressedSize, crc32 }))).toEqual(
+      plain.entries.map(({ name, size, compressedSize, crc32 }) => ({ name, size, compressedSize, crc32 }))
+    );
+    expect(parsed.entries[2].offset).toBeGreaterThan(0);
+  });
+
+  it('parses an empty archive', async () => {
+    const parsed = await parseCentralDirectory(createReader(buildZip([])));
+
+    expect(parsed.entries).toEqual([]);
+  });
+
+  it('rejects archives over the entry limit before reading the directory', async () => {
+    const many = Array.from({ length: 1500 }, (_, i) => ({ name: `file-${i}-${'x'.repeat(40)}.js`, data: '', method: 0 as const }));
+    const reader = createReader(buildZip(many));
+
+    await expect(
+      parseCentralDirectory(reader, { limits: { maxEntries: 1000, maxFileSize: 1024, maxCompressionRatio: 100 } })
+    ).rejects.toMatchObject({ code: 'ZIP_TOO_MANY_ENTRIES' });
+    expect(reader.read).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes reader errors through untouched', async () => {
+    const reader = createReader(buildZip(files));
+    reader.read.mockRejectedValue(new Error('R2 unavailable'));
+
+    await expect(parseCentralDirectory(reader)).rejects.toThrow('R2 unavailable');
+    await expect(parseCentralDirectory(reader)).rejects.not.toBeInstanceOf(ZipError);
+  });
+
+  describe('malformed archives', () => {
+    const zip = buildZip(files);
+    const eocdOffset = zip.length - 22;
+    const centralOffset = new DataView(zip.buffer).getUint32(eocdOffset + 16, true);
+
+    const mutate = (fn: (view: DataView, bytes: Uint8Array) => void) => {
+      const bytes = zip.slice();
+      fn(new DataView(bytes.buffer), bytes);
+      return bytes;
+    };
+
+    const corpus: Array<{ name: string; bytes: Uint8Array; error: typeof ZipError }> = [
+      { name: 'empty file', bytes: new Uint8Array(0), error: ZipFormatError },
+      { name: 'not a zip', bytes: new TextEncoder().encode('<html>not a zip</html>'.repeat(10)), error: ZipFormatError },
+      { name: 'missing EOCD', bytes: zip.subarray(0, eocdOffset), error: ZipFormatError },
+      {
+        name: 'central directory offset past the end',
+        bytes: mutate((view) => view.setUint32(eocdOffset + 16, zip.length, true)),
+        error: ZipFormatError
+      },
+      {
+        name: 'central directory size past the end',
+        bytes: mutate((view) => view.setUint32(eocdOffset + 12, 0x7fffffff, true)),
+        error: ZipFormatError
+      },
+      {
+        name: 'more entries than the directory can hold',
+        bytes: mutate((view) => {
+          view.setUint16(eocdOffset + 8, 5000, true);
+          view.setUint16(eocdOffset + 10, 5000, true);
+        }),
+        error: ZipFormatError
+      },
+      {
+        name: 'bad central record signature',
+        bytes: mutate((view) => view.setUint32(centralOffset, 0xdeadbeef, true)),
+        error: ZipFormatError
+      },
+      {
+        name: 'name length overruns the directory',
+        bytes: mutate((view) => view.setUint16(centralOffset + 28, 0xffff, true)),
+        error: ZipFormatError
+      },
+      {
+        name: 'extra field overruns its block',
+        bytes: mutate((view) => {
+          // Reinterpret the start of the name as an extra field with a huge length
+          view.setUint16(centralOffset + 28, 0, true);
+          view.setUint16(centralOffset + 30, 4, true);
+          view.setUint16(centralOffset + 46 + 2, 0x7fff, true);
+        }),
+        error: ZipFormatError
+      },
+      {
+        name: 'local header offset past the end',
+        bytes: mutate((view) => view.setUint32(centralOffset + 42, zip.length, true)),
+        error: ZipFormatError
+      },
+      {
+        name: 'saturated offset without ZIP64 extra field',
+        bytes: mutate((view) => view.setUint32(centralOffset + 42, 0xffffffff, true)),
+        error: ZipFormatError
+      },
+      {
+        name: 'saturated EOCD without ZIP64 locator',
+        bytes: mutate((view) => view.setUint32(eocdOffset + 16, 0xffffffff, true)),
+        error: ZipFormatError
+      },
+      {
+        name: 'stored entry with mismatched sizes',
+        bytes: mutate((view) => {
+          const logoRecord = centralOffset + 46 + 'index.html'.length + 'entry point'.length + 46 + 'assets/'.length;
+          view.setUint32(logoRecord + 24, 99, true);
+        }),
+        error: ZipFormatError
+      },
+      {
+        name: 'encrypted entry',
+        bytes: mutate((view) => view.setUint16(centralOffset + 8, 0x0001, true)),
+        error: ZipUnsupportedError
+      },
+      {
+        name: 'multi-disk archive',
+        bytes: mutate((view) => view.setUint16(eocdOffset + 4, 1, true)),
+        error: ZipUnsupportedError
+      }
+    ];
+
+    it.each(corpus)('rejects $name', async ({ bytes, error }) => {
+      await expect(parseCentralDirectory(createReader(bytes))).rejects.toBeInstanceOf(error);
+    });
+
+    it('rejects every truncation of the archive with a ZipError', async () => {
+      for (let length = 0; length < zip.length; length++) {
+        await expect(parseCentralDirectory(createReader(zip.subarray(0, length)))).rejects.toBeInstanceOf(ZipError);
+      }
+    });
+
+    it('never fails with anything but a ZipError on random corruption', async () => {
+      const random = createRandom(0x5eed);
+
+      for (let iteration = 0; iteration < 500; iteration++) {
+        const bytes = zip.slice();
+        const flips = 1 + Math.floor(random() * 4);
+        for (let i = 0; i < flips; i++) {
+          // Concentrate on the central directory and EOCD, where parsing happens
+          const position = centralOffset + Math.floor(random() * (zip.length - centralOffset));
+          bytes[position] = Math.floor(random() * 256);
+        }
+
+        try {
+          const parsed = await parseCentralDirectory(createReader(bytes));
+          for (const entry of parsed.entries) {
+            expect(entry.offset + 30 + entry.compressedSize).toBeLessThanOrEqual(bytes.length);
+          }
+        } catch (error) {
+          expect(error).toBeInstanceOf(ZipError);
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createManifest,
+  getShardIndex,
+  getShardIndexes,
+  isCentralDirectoryManifest,
+  mergeShards,
+  splitCentralDirectory
+} from '@/services/zip/central-directory-shards';
+import type { ZipCentralDirectory, ZipFileEntry } from '@/types/zip';
+
+describe('Central directory shards', () => {
+  const entry = (name: string): ZipFileEntry => ({
+    name,
+    size: 10,
+    compressedSize: 10,
+    offset: 0,
+    crc32: 1,
+    compressionMethod: 0
+  });
+
+  const entries: Record<string, ZipFileEntry> = {};
+  for (let i = 0; i < 200; i++) {
+    entries[`assets/chunk-${i}.js`] = entry(`assets/chunk-${i}.js`);
+  }
+  const directory: ZipCentralDirectory = { entries, totalSize: 1000, cachedAt: 'now', etag: 'etag-1' };
+
+  it('hashes paths to a stable shard in range', () => {
+    const index = getShardIndex('assets/chunk-1.js', 8);
+
+    expect(index).toBeGreaterThanOrEqual(0);
+    expect(index).toBeLessThan(8);
+    expect(getShardIndex('assets/chunk-1.js', 8)).toBe(index);
+  });
+
+  it('splits every entry into exactly one shard', () => {
+    const shards = splitCentralDirectory(directory, 4);
+
+    expect(shards).toHaveLength(4);
+    expect(shards.reduce((sum, shard) => sum + Object.keys(shard.entries).length, 0)).toBe(200);
+    shards.forEach((shard, index) => {
+      expect(shard.etag).toBe('etag-1');
+      for (const name of Object.keys(shard.entries)) {
+        expect(getShardIndex(name, 4)).toBe(index);
+      }
+    });
+  });
+
+  it('describes the shards in a manifest', () => {
+    const manifest = createManifest(directory, 4, 'gen');
+
+    expect(manifest).toEqual({
+      shards: { count: 4, generation: 'gen', entryCount: 200 },
+      totalSize: 1000,
+      cachedAt: 'now',
+      etag: 'etag-1'
+    });
+    expect(isCentralDirectoryManifest(manifest)).toBe(true);
+    expect(isCentralDirectoryManifest(directory)).toBe(false);
+  });
+
+  it('selects the shards holding the requested paths', () => {
+    const manifest = createManifest(directory, 4, 'gen');
+
+    expect(getShardIndexes(manifest)).toEqual([0, 1, 2, 3]);
+    expect(getShardIndexes(manifest, ['assets/chunk-1.js', 'assets/chunk-1.js'])).toEqual([
+      getShardIndex('assets/chunk-1.js', 4)
+    ]);
+  });
+
+  it('merges loaded shards into one directory', () => {
+    const manifest = createManifest(directory, 4, 'gen');
+    const shards = splitCentralDirectory(directory, 4);
+    const loadedIndex = getShardIndex('assets/chunk-1.js', 4);
+
+    const merged = mergeShards(manifest, new Map([[loadedIndex, shards[loadedIndex]]]));
+
+    expect(merged.etag).toBe('etag-1');
+    expect(merged.entries['assets/chunk-1.js']).toEqual(entries['assets/chunk-1.js']);
+    expect('assets/chunk-1.js' in merged.entries).toBe(true);
+    expect(Object.keys(merged.entries)).toEqual(Object.keys(shards[loadedIndex].entries));
+
+    // Entries of shards that were not loaded read as missing
+    const unloaded = Object.keys(entries).find((name) => getShardIndex(name, 4) !== loadedIndex)!;
+    expect(merged.entries[unloaded]).toBeUndefined();
+    expect(merged.entries['toString']).toBeUndefined();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getSidecarKey,
+  isSidecarEnabled,
+  readSidecar,
+  writeSidecar
+} from '@/services/zip/central-directory-sidecar';
+import type { ZipCentralDirectory } from '@/types/zip';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+describe('Central directory sidecar', () => {
+  const zipKey = 'my-project/v1.0.0/storybook.zip';
+  const directory: ZipCentralDirectory = {
+    entries: {
+      'index.html': { name: 'index.html', size: 10, compressedSize: 8, offset: 0, crc32: 7, compressionMethod: 8 }
+    },
+    totalSize: 200,
+    cachedAt: '2024-01-01T00:00:00.000Z',
+    etag: 'etag-1'
+  };
+
+  it('lives next to the archive', () => {
+    expect(getSidecarKey(zipKey)).toBe('my-project/v1.0.0/index.cd.json');
+    expect(getSidecarKey(zipKey, 'binary')).toBe('my-project/v1.0.0/index.cd.bin');
+    expect(getSidecarKey('my-project/storybook.zip')).toBe('my-project/index.cd.json');
+    expect(getSidecarKey('abc-123.zip')).toBe('abc-123.cd.json');
+  });
+
+  it.each(['json', 'binary'] as const)('round-trips a %s sidecar', async (encoding) => {
+    const bucket = createMockR2Bucket({});
+
+    const key = await writeSidecar(bucket as any, zipKey, directory, encoding);
+    const sidecar = await readSidecar(bucket as any, zipKey, encoding);
+
+    expect(key).toBe(getSidecarKey(zipKey, encoding));
+    expect(bucket.put).toHaveBeenCalledWith(key, expect.anything(), {
+      httpMetadata: { contentType: encoding === 'json' ? 'application/json' : 'application/octet-stream' }
+    });
+    expect(sidecar?.etag).toBe('etag-1');
+    expect(sidecar?.entries['index.html']).toEqual(directory.entries['index.html']);
+  });
+
+  it('returns null when there is no sidecar or it is unreadable', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const bucket = createMockR2Bucket({ 'other/v1/index.cd.json': new TextEncoder().encode('{not json') });
+
+    expect(await readSidecar(bucket as any, zipKey)).toBeNull();
+    expect(await readSidecar(bucket as any, 'other/v1/storybook.zip')).toBeNull();
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('other/v1/index.cd.json'));
+    warnSpy.mockRestore();
+  });
+
+  it('is enabled unless turned off', () => {
+    expect(isSidecarEnabled({})).toBe(true);
+    expect(isSidecarEnabled({ ZIP_CD_SIDECAR: 'false' })).toBe(false);
+  });
+});
@@ -1,51 +1,42 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { getCentralDirectory, clearCentralDirectoryCache } from '@/services/zip/central-directory';
+import { ZipFormatError } from '@/services/zip/errors';
+import { createDirectoryCache } from '@/services/zip/directory-cache';
+import { encodeCentralDirectory, isBinaryCentralDirectory } from '@/services/zip/central-directory-codec';
+import { writeSidecar } from '@/services/zip/central-directory-sidecar';
+import { ZipLimitError } from '@/services/zip/errors';
+import { DEFAULT_ZIP_LIMITS } from '@/services/zip/limits';
 import type { ZipCentralDirectory } from '@/types/zip';
-
-const { mockUnzip, mockR2RangeReader } = vi.hoisted(() => ({
-  mockUnzip: vi.fn(),
-  mockR2RangeReader: vi.fn()
-}));
-
-vi.mock('unzipit', () => ({
-  unzip: mockUnzip
-}));
-
-vi.mock('@/adapters/zip/r2-range-reader', () => ({
-  R2RangeReader: mockR2RangeReader
-}));
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+import { KvCacheAdapter } from '@/adapters/cache/kv';
 
 describe('Central Directory Service', () => {
-  let mockBucket: { head: ReturnType<typeof vi.fn>; get: ReturnType<typeof vi.fn> };
+  let mockBucket: ReturnType<typeof createMockR2Bucket>;
   let mockKV: {
     get: ReturnType<typeof vi.fn>;
     put: ReturnType<typeof vi.fn>;
     delete: ReturnType<typeof vi.fn>;
   };
-  let mockReader: { getLength: ReturnType<typeof vi.fn>; read: ReturnType<typeof vi.fn> };
+
+  const indexHtml = '<html>'.padEnd(1024, ' ');
+  const styles = 'body { color: red; }';
+  const zip = buildZip([
+    // 2024-03-15 13:45:30
+    { name: 'index.html', data: indexHtml, method: 8, modified: new Date(Date.UTC(2024, 2, 15, 13, 45, 30)) },
+    { name: 'styles.css', data: styles, method: 0 }
+  ]);
 
   beforeEach(() => {
     vi.clearAllMocks();
-    mockUnzip.mockReset();
-    mockR2RangeReader.mockReset();
 
-    mockBucket = {
-      head: vi.fn(),
-      get: vi.fn()
-    };
+    mockBucket = createMockR2Bucket({ 'test.zip': zip });
 
     mockKV = {
       get: vi.fn(),
       put: vi.fn(),
       delete: vi.fn()
     };
-
-    mockReader = {
-      getLength: vi.fn().mockResolvedValue(5000),
-      read: vi.fn()
-    };
-
-    mockR2RangeReader.mockImplementation(() => mockReader);
   });
 
   describe('getCentralDirectory', () => {
@@ -67,66 +58,41 @@ describe('Central Directory Service', () => {
 
       mockKV.get.mockResolvedValue(cachedCD);
 
-      const result = await getCentralDirectory(mockBucket as any, mockKV as any, 'test.zip');
+      const result = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip');
 
       expect(result).toEqual(cachedCD);
       expect(mockKV.get).toHaveBeenCalledWith('cd:test.zip', 'json');
-      expect(mockR2RangeReader).not.toHaveBeenCalled();
-      expect(mockUnzip).not.toHaveBeenCalled();
+      expect(mockBucket.head).not.toHaveBeenCalled();
+      expect(mockBucket.get).not.toHaveBeenCalled();
     });
 
     it('hydrates from R2 when KV cache misses and caches result', async () => {
       mockKV.get.mockResolvedValue(null);
 
-      mockUnzip.mockResolvedValue({
-        entries: {
-          'index.html': {
-            size: 1024,
-            compressedSize: 512,
-            crc32: 12345,
-            compressionMethod: 8,
-            _rawEntry: {
-              relativeOffsetOfLocalHeader: 256,
-              crc32: 12345
-            }
-          },
-          'styles.css': {
-            size: 256,
-            compressedSize: 200,
-            crc32: 67890,
-            compressionMethod: 0,
-            _rawEntry: {
-              relativeOffsetOfLocalHeader: 1024,
-              crc32: 67890
-            }
-          }
-        }
-      });
-
-      const result = await getCentralDirectory(mockBucket as any, mockKV as any, 'test.zip');
+      const result = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip');
 
       expect(mockKV.get).toHaveBeenCalledWith('cd:test.zip', 'json');
-      expect(mockR2RangeReader).toHaveBeenCalledWith(mockBucket, 'test.zip');
-      expect(mockUnzip).toHaveBeenCalledWith(mockReader);
-      expect(mockReader.getLength).toHaveBeenCalledTimes(1);
+      expect(mockBucket.head).toHaveBeenCalledTimes(1);
+      // Small archive: the whole directory comes back in the single tail read
+      expect(mockBucket.get).toHaveBeenCalledTimes(1);
 
       expect(result.entries['index.html']).toMatchObject({
         name: 'index.html',
         size: 1024,
-        compressedSize: 512,
-        offset: 256,
-        crc32: 12345,
-        compressionMethod: 8
+        offset: 0,
+        compressionMethod: 8,
+        lastModified: Date.UTC(2024, 2, 15, 13, 45, 30)
       });
+      expect(result.entries['index.html'].compressedSize).toBeLessThan(1024);
+      expect(result.entries['styles.css'].lastModified).toBeUndefined();
       expect(result.entries['styles.css']).toMatchObject({
         name: 'styles.css',
-        size: 256,
-        compressedSize: 200,
-        offset: 1024,
-        crc32: 67890,
+        size: styles.length,
+        compressedSize: styles.length,
         compressionMethod: 0
       });
-      expect(result.totalSize).toBe(5000);
+      expect(result.entries['styles.css'].offset).toBeGreaterThan(0);
+      expect(result.totalSize).toBe(zip.length);
       expect(typeof result.cachedAt).toBe('string');
 
       expect(mockKV.put).toHaveBeenCalledTimes(1);
@@ -134,15 +100,8 @@ describe('Central Directory Service', () => {
       expect(options).toEqual({ expirationTtl: 86400 });
 
       const parsedPayload = JSON.parse(payload);
-      expect(parsedPayload.entries['index.html']).toMatchObject({
-        name: 'index.html',
-        size: 1024,
-        compressedSize: 512,
-        offset: 256,
-        crc32: 12345,
-        compressionMethod: 8
-      });
-      expect(parsedPayload.totalSize).toBe(5000);
+      expect(parsedPayload.entries['index.html']).toEqual(result.entries['index.html']);
+      expect(parsedPayload.totalSize).toBe(zip.length);
       expect(typeof parsedPayload.cachedAt).toBe('string');
     });
 
@@ -150,25 +109,30 @@ describe('Central Directory Service', () => {
       const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
       mockKV.get.mockRejectedValue(new Error('KV error'));
 
-      mockUnzip.mockResolvedValue({
-        entries: {}
-      });
-
-      await getCentralDirectory(mockBucket as any, mockKV as any, 'test.zip');
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip');
 
       expect(warnSpy).toHaveBeenCalledWith(
         expect.stringContaining('Failed to read central directory from KV cache')
       );
-      expect(mockR2RangeReader).toHaveBeenCalled();
+      expect(mockBucket.get).toHaveBeenCalled();
       warnSpy.mockRestore();
     });
 
-    it('propagates errors from unzip when R2 access fails', async () => {
+    it('reports malformed archives as ZipFormatError', async () => {
+      mockKV.get.mockResolvedValue(null);
+      mockBucket = createMockR2Bucket({ 'test.zip': zip.subarray(0, zip.length - 4) });
+
+      await expect(getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip')).rejects.toBeInstanceOf(
+        ZipFormatError
+      );
+      expect(mockKV.put).not.toHaveBeenCalled();
+    });
+
+    it('propagates errors when R2 access fails', async () => {
       mockKV.get.mockResolvedValue(null);
-      const failure = new Error('range read failed');
-      mockUnzip.mockRejectedValue(failure);
+      mockBucket.get.mockRejectedValue(new Error('range read failed'));
 
-      await expect(getCentralDirectory(mockBucket as any, mockKV as any, 'test.zip')).rejects.toThrow(
+      await expect(getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip')).rejects.toThrow(
         'Failed to read central directory from ZIP'
       );
 
@@ -176,9 +140,306 @@ describe('Central Directory Service', () => {
     });
   });
 
+  describe('in-memory directory cache', () => {
+    it('records the archive etag when reading from R2', async () => {
+      mockKV.get.mockResolvedValue(null);
+
+      const result = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip');
+
+      expect(result.etag).toBe('etag-1');
+    });
+
+    it('serves repeat lookups without KV or R2 reads', async () => {
+      mockKV.get.mockResolvedValue(null);
+      const memoryCache = createDirectoryCache({});
+
+      const first = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip', { memoryCache });
+      const second = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip', { memoryCache });
+
+      expect(second).toBe(first);
+      expect(mockKV.get).toHaveBeenCalledTimes(1);
+      expect(mockBucket.head).toHaveBeenCalledTimes(1);
+      expect(memoryCache.stats()).toMatchObject({ hits: 1, misses: 1, size: 1 });
+    });
+
+    it('fills the memory cache from KV hits', async () => {
+      const cachedCD: ZipCentralDirectory = { entries: {}, totalSize: 22, cachedAt: new Date().toISOString() };
+      mockKV.get.mockResolvedValue(cachedCD);
+      const memoryCache = createDirectoryCache({});
+
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip', { memoryCache });
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip', { memoryCache });
+
+      expect(mockKV.get).toHaveBeenCalledTimes(1);
+      expect(mockBucket.get).not.toHaveBeenCalled();
+    });
+
+    it('ignores cached directories read from another version of the archive', async () => {
+      mockKV.get.mockResolvedValue(null);
+      const memoryCache = createDirectoryCache({});
+
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip', { memoryCache });
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip', { memoryCache, etag: 'etag-1' });
+      expect(mockBucket.head).toHaveBeenCalledTimes(1);
+
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip', { memoryCache, etag: 'etag-2' });
+      expect(mockBucket.head).toHaveBeenCalledTimes(2);
+    });
+
+    it('drops cached directories of another version once the current etag is known', async () => {
+      mockKV.get.mockResolvedValue(null);
+      const memoryCache = createDirectoryCache({});
+      await getCentralDirectory(mockBucket as any, undefined, 'test.zip', { memoryCache });
+
+      // The archive was replaced, and reading the new one fails
+      mockBucket.head.mockRejectedValue(new Error('R2 unavailable'));
+      await expect(
+        getCentralDirectory(mockBucket as any, undefined, 'test.zip', { memoryCache, etag: 'etag-2' })
+      ).rejects.toThrow();
+
+      expect(memoryCache.stats().size).toBe(0);
+      await expect(getCentralDirectory(mockBucket as any, undefined, 'test.zip', { memoryCache })).rejects.toThrow();
+    });
+
+    it('can be disabled with a size of 0', async () => {
+      mockKV.get.mockResolvedValue(null);
+      const memoryCache = createDirectoryCache({ ZIP_CD_MEMORY_CACHE_SIZE: '0' });
+
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip', { memoryCache });
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip', { memoryCache });
+
+      expect(mockKV.get).toHaveBeenCalledTimes(2);
+      expect(memoryCache.stats().size).toBe(0);
+    });
+  });
+
+  describe('binary encoding', () => {
+    it('writes binary directories to KV', async () => {
+      mockKV.get.mockResolvedValue(null);
+
+      const result = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip', { encoding: 'binary' });
+
+      expect(mockKV.get).toHaveBeenCalledWith('cd:test.zip', 'arrayBuffer');
+      const [, payload, options] = mockKV.put.mock.calls[0];
+      expect(payload).toBeInstanceOf(ArrayBuffer);
+      expect(isBinaryCentralDirectory(new Uint8Array(payload))).toBe(true);
+      expect(options).toEqual({ expirationTtl: 86400 });
+      expect(result.entries['styles.css'].size).toBe(styles.length);
+    });
+
+    it('reads binary directories from KV', async () => {
+      const fresh = await getCentralDirectory(mockBucket as any, undefined, 'test.zip');
+      const encoded = encodeCentralDirectory(fresh);
+      mockKV.get.mockResolvedValue(encoded.buffer.slice(0));
+      mockBucket.head.mockClear();
+
+      const result = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip', { encoding: 'binary' });
+
+      expect(result.entries['index.html']).toEqual(fresh.entries['index.html']);
+      expect(mockBucket.head).not.toHaveBeenCalled();
+    });
+
+    it('still reads JSON directories cached before binary mode', async () => {
+      const legacy: ZipCentralDirectory = {
+        entries: {
+          'index.html': { name: 'index.html', size: 1, compressedSize: 1, offset: 0, crc32: 1, compressionMethod: 0 }
+        },
+        totalSize: 100,
+        cachedAt: new Date().toISOString()
+      };
+      mockKV.get.mockResolvedValue(new TextEncoder().encode(JSON.stringify(legacy)).buffer);
+
+      const result = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip', { encoding: 'binary' });
+
+      expect(result).toEqual(legacy);
+      expect(mockBucket.head).not.toHaveBeenCalled();
+    });
+
+    it('rebuilds as JSON when a binary entry is read in JSON mode', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockKV.get.mockRejectedValue(new SyntaxError('Unexpected token'));
+
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip');
+
+      expect(typeof mockKV.put.mock.calls[0][1]).toBe('string');
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('sharded storage', () => {
+    const createKVStore = () => {
+      const values = new Map<string, string | ArrayBuffer>();
+      return {
+        values,
+        get: vi.fn(async (key: string, type: string) => {
+          const value = values.get(key);
+          if (value === undefined) return null;
+          if (type === 'arrayBuffer') {
+            return typeof value === 'string' ? new TextEncoder().encode(value).buffer : value;
+          }
+          return JSON.parse(typeof value === 'string' ? value : new TextDecoder().decode(value));
+        }),
+        put: vi.fn(async (key: string, value: string | ArrayBuffer) => {
+          values.set(key, value);
+        }),
+        delete: vi.fn(async (key: string) => {
+          values.delete(key);
+        })
+      };
+    };
+
+    const files = Array.from({ length: 40 }, (_, i) => ({ name: `assets/file-${i}.js`, data: `console.log(${i});` }));
+    const largeZip = buildZip([{ name: 'index.html', data: '<html></html>' }, ...files]);
+
+    beforeEach(() => {
+      mockBucket = createMockR2Bucket({ 'large.zip': largeZip });
+    });
+
+    it('shards directories over the value limit behind a manifest', async () => {
+      const kv = createKVStore();
+
+      const result = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(kv as any), 'large.zip', { maxValueBytes: 2048 });
+
+      expect(Object.keys(result.entries)).toHaveLength(41);
+      const manifest = JSON.parse(kv.values.get('cd:large.zip') as string);
+      expect(manifest.shards.entryCount).toBe(41);
+      expect(manifest.shards.count).toBeGreaterThan(1);
+      expect(manifest.etag).toBe('etag-1');
+      expect(kv.values.size).toBe(manifest.shards.count + 1);
+      for (const [, value] of kv.values) {
+        expect((value as string).length).toBeLessThanOrEqual(2048);
+      }
+      // Shards are in place before the manifest points at them
+      expect(kv.put.mock.calls.at(-1)?.[0]).toBe('cd:large.zip');
+    });
+
+    it('reads only the shards holding the requested paths', async () => {
+      const kv = createKVStore();
+      const full = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(kv as any), 'large.zip', { maxValueBytes: 2048 });
+      kv.get.mockClear();
+      mockBucket.head.mockClear();
+
+      const result = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(kv as any), 'large.zip', {
+        maxValueBytes: 2048,
+        paths: ['assets/file-7.js']
+      });
+
+      expect(result.entries['assets/file-7.js']).toEqual(full.entries['assets/file-7.js']);
+      expect(kv.get).toHaveBeenCalledTimes(2);
+      expect(kv.get.mock.calls[1][0]).toMatch(/^cd:large\.zip:shard:/);
+      expect(mockBucket.head).not.toHaveBeenCalled();
+    });
+
+    it('keeps only complete directories in memory', async () => {
+      const kv = createKVStore();
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(kv as any), 'large.zip', { maxValueBytes: 2048 });
+      const memoryCache = createDirectoryCache({});
+
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(kv as any), 'large.zip', {
+        memoryCache,
+        paths: ['index.html']
+      });
+      expect(memoryCache.get('large.zip')).toBeUndefined();
+
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(kv as any), 'large.zip', { memoryCache });
+      expect(Object.keys(memoryCache.get('large.zip')!.entries)).toHaveLength(41);
+    });
+
+    it('rebuilds from R2 when a shard has expired', async () => {
+      const kv = createKVStore();
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(kv as any), 'large.zip', { maxValueBytes: 2048 });
+      const shardKey = [...kv.values.keys()].find((key) => key.includes(':shard:'))!;
+      kv.values.delete(shardKey);
+      mockBucket.head.mockClear();
+
+      const result = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(kv as any), 'large.zip', { maxValueBytes: 2048 });
+
+      expect(Object.keys(result.entries)).toHaveLength(41);
+      expect(mockBucket.head).toHaveBeenCalled();
+    });
+
+    it('shards binary directories too', async () => {
+      const kv = createKVStore();
+      await getCentralDirectory(mockBucket as any, new KvCacheAdapter(kv as any), 'large.zip', { maxValueBytes: 1024, encoding: 'binary' });
+      mockBucket.head.mockClear();
+
+      const result = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(kv as any), 'large.zip', {
+        encoding: 'binary',
+        paths: ['assets/file-3.js', 'assets/file-30.js']
+      });
+
+      expect(result.entries['assets/file-3.js']?.name).toBe('assets/file-3.js');
+      expect(result.entries['assets/file-30.js']?.name).toBe('assets/file-30.js');
+      expect(mockBucket.head).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sidecar', () => {
+    const sidecarFor = (etag: string): ZipCentralDirectory => ({
+      entries: {
+        'index.html': { name: 'index.html', size: 1, compressedSize: 1, offset: 0, crc32: 1, compressionMethod: 0 }
+      },
+      totalSize: zip.length,
+      cachedAt: '2024-01-01T00:00:00.000Z',
+      etag
+    });
+
+    it('uses a sidecar built from the current archive instead of parsing it', async () => {
+      await writeSidecar(mockBucket as any, 'test.zip', sidecarFor('etag-1'));
+      mockKV.get.mockResolvedValue(null);
+
+      const result = await getCentralDirectory(mockBucket as any, new KvCacheAdapter(mockKV as any), 'test.zip', { sidecar: true });
+
+      expect(result).toEqual(sidecarFor('etag-1'));
+      expect(mockBucket.get).toHaveBeenCalledTimes(1);
+      expect(mockBucket.get).toHaveBeenCalledWith('test.cd.json');
+      expect(mockKV.put).toHaveBeenCalledWith('cd:test.zip', JSON.stringify(result), { expirationTtl: 86400 });
+    });
+
+    it('parses the archive when the sidecar is stale', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      await writeSidecar(mockBucket as any, 'test.zip', sidecarFor('etag-0'));
+
+      const result = await getCentralDirectory(mockBucket as any, undefined, 'test.zip', { sidecar: true });
+
+      expect(result.entries['styles.css']).toBeDefined();
+      expect(warnSpy).toHaveBeenCalledWith('Ignoring stale central directory sidecar for test.zip', {
+        sidecarEtag: 'etag-0',
+        currentEtag: 'etag-1'
+      });
+      warnSpy.mockRestore();
+    });
+
+    it('parses the archive when there is no sidecar', async () => {
+      const result = await getCentralDirectory(mockBucket as any, undefined, 'test.zip', { sidecar: true });
+
+      expect(result.entries['styles.css']).toBeDefined();
+      expect(mockBucket.head).toHaveBeenCalledTimes(1);
+    });
+
+    it('is only consulted when enabled', async () => {
+      await writeSidecar(mockBucket as any, 'test.zip', sidecarFor('etag-1'));
+
+      const result = await getCentralDirectory(mockBucket as any, undefined, 'test.zip');
+
+      expect(result.entries['styles.css']).toBeDefined();
+    });
+
+    it('enforces the entry limit on sidecars', async () => {
+      await writeSidecar(mockBucket as any, 'test.zip', sidecarFor('etag-1'));
+
+      await expect(
+        getCentralDirectory(mockBucket as any, undefined, 'test.zip', {
+          sidecar: true,
+          limits: { ...DEFAULT_ZIP_LIMITS, maxEntries: 0 }
+        })
+      ).rejects.toBeInstanceOf(ZipLimitError);
+    });
+  });
+
   describe('clearCentralDirectoryCache', () => {
     it('deletes central directory from KV', async () => {
-      await clearCentralDirectoryCache(mockKV as any, 'test.zip');
+      await clearCentralDirectoryCache(new KvCacheAdapter(mockKV as any), 'test.zip');
 
       expect(mockKV.delete).toHaveBeenCalledWith('cd:test.zip');
     });
@@ -187,7 +448,7 @@ describe('Central Directory Service', () => {
       const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
       mockKV.delete.mockRejectedValue(new Error('Delete failed'));
 
-      await expect(clearCentralDirectoryCache(mockKV as any, 'test.zip')).resolves.toBeUndefined();
+      await expect(clearCentralDirectoryCache(new KvCacheAdapter(mockKV as any), 'test.zip')).resolves.toBeUndefined();
 
       expect(warnSpy).toHaveBeenCalledWith(
         expect.stringContaining('Failed to clear central directory cache')
@@ -196,8 +457,8 @@ describe('Central Directory Service', () => {
     });
 
     it('handles multiple ZIPs', async () => {
-      await clearCentralDirectoryCache(mockKV as any, 'test1.zip');
-      await clearCentralDirectoryCache(mockKV as any, 'test2.zip');
+      await clearCentralDirectoryCache(new KvCacheAdapter(mockKV as any), 'test1.zip');
+      await clearCentralDirectoryCache(new KvCacheAdapter(mockKV as any), 'test2.zip');
 
       expect(mockKV.delete).toHaveBeenNthCalledWith(1, 'cd:test1.zip');
       expect(mockKV.delete).toHaveBeenNthCalledWith(2, 'cd:test2.zip');
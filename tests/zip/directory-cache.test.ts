@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_DIRECTORY_CACHE_OPTIONS, resolveDirectoryCacheOptions } from '@/services/zip/directory-cache';
+
+describe('resolveDirectoryCacheOptions', () => {
+  it('uses defaults when unset or invalid', () => {
+    expect(resolveDirectoryCacheOptions({})).toEqual(DEFAULT_DIRECTORY_CACHE_OPTIONS);
+    expect(resolveDirectoryCacheOptions({ ZIP_CD_MEMORY_CACHE_SIZE: 'lots' })).toEqual(DEFAULT_DIRECTORY_CACHE_OPTIONS);
+  });
+
+  it('reads size and TTL in seconds', () => {
+    expect(resolveDirectoryCacheOptions({ ZIP_CD_MEMORY_CACHE_SIZE: '5', ZIP_CD_MEMORY_CACHE_TTL: '60' })).toEqual({
+      maxEntries: 5,
+      ttlMs: 60_000
+    });
+  });
+});
@@ -1,7 +1,36 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { extractFile, extractFiles } from '@/services/zip/extractor';
+import { extractFile, extractFileRange, extractFileStream, extractFiles } from '@/services/zip/extractor';
+import { crc32 } from '@/utils/crc32';
 import type { ZipFileEntry } from '@/types/zip';
 import pako from 'pako';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+import { ZipLimitError } from '@/services/zip/errors';
+
+// Zeroed local file header carrying only the signature (no name, no extra field)
+function createLocalHeader(): Uint8Array {
+  const header = new Uint8Array(30);
+  new DataView(header.buffer).setUint32(0, 0x04034b50, true);
+  return header;
+}
+
+const streamOf = (data: Uint8Array, chunkSize = 64) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < data.length; i += chunkSize) {
+        controller.enqueue(data.slice(i, i + chunkSize));
+      }
+      controller.close();
+    }
+  });
+
+// Range read of a local header followed by the entry data
+function entryObject(data: Uint8Array, chunkSize = 64) {
+  const header = createLocalHeader();
+  const bytes = new Uint8Array(header.length + data.length);
+  bytes.set(header);
+  bytes.set(data, header.length);
+  return { body: streamOf(bytes, chunkSize) };
+}
 
 describe('ZIP Extractor Service', () => {
   let mockBucket: any;
@@ -14,24 +43,9 @@ describe('ZIP Extractor Service', () => {
 
   describe('extractFile', () => {
     it('should extract a stored (uncompressed) file', async () => {
-      const localHeader = new Uint8Array(30);
-      // filenameLength=0, extraFieldLength=0 => dataOffset = entry.offset + 30
-      localHeader[26] = 0;
-      localHeader[27] = 0;
-      localHeader[28] = 0;
-      localHeader[29] = 0;
-
       const fileData = new Uint8Array([1, 2, 3, 4, 5]);
 
-      mockBucket.get
-        .mockResolvedValueOnce({
-          body: {},
-          arrayBuffer: vi.fn().mockResolvedValue(localHeader.buffer)
-        })
-        .mockResolvedValueOnce({
-          body: {},
-          arrayBuffer: vi.fn().mockResolvedValue(fileData.buffer)
-        });
+      mockBucket.get.mockResolvedValueOnce(entryObject(fileData));
 
       const entry: ZipFileEntry = {
         name: 'test.txt',
@@ -44,34 +58,19 @@ describe('ZIP Extractor Service', () => {
 
       const result = await extractFile(mockBucket, 'test.zip', entry);
 
-      expect(result).toEqual(fileData.buffer);
-      expect(mockBucket.get).toHaveBeenNthCalledWith(1, 'test.zip', {
-        range: { offset: 0, length: 30 }
-      });
-      expect(mockBucket.get).toHaveBeenNthCalledWith(2, 'test.zip', {
-        range: { offset: 30, length: 5 }
+      expect(new Uint8Array(result)).toEqual(fileData);
+      // Header, name, extra field allowance and data in a single request
+      expect(mockBucket.get).toHaveBeenCalledTimes(1);
+      expect(mockBucket.get).toHaveBeenCalledWith('test.zip', {
+        range: { offset: 0, length: 30 + 'test.txt'.length + 64 + 5 }
       });
     });
 
     it('should extract and decompress a deflate-compressed file', async () => {
-      const localHeader = new Uint8Array(30);
-      localHeader[26] = 0;
-      localHeader[27] = 0;
-      localHeader[28] = 0;
-      localHeader[29] = 0;
-
       const originalData = new Uint8Array([1, 2, 3, 4, 5]);
       const compressedData = pako.deflateRaw(originalData);
 
-      mockBucket.get
-        .mockResolvedValueOnce({
-          body: {},
-          arrayBuffer: vi.fn().mockResolvedValue(localHeader.buffer)
-        })
-        .mockResolvedValueOnce({
-          body: {},
-          arrayBuffer: vi.fn().mockResolvedValue(compressedData.buffer)
-        });
+      mockBucket.get.mockResolvedValueOnce(entryObject(compressedData));
 
       const entry: ZipFileEntry = {
         name: 'test.txt',
@@ -89,21 +88,7 @@ describe('ZIP Extractor Service', () => {
     });
 
     it('should throw error for unsupported compression method', async () => {
-      const localHeader = new Uint8Array(30);
-      localHeader[26] = 0;
-      localHeader[27] = 0;
-      localHeader[28] = 0;
-      localHeader[29] = 0;
-
-      mockBucket.get
-        .mockResolvedValueOnce({
-          body: {},
-          arrayBuffer: vi.fn().mockResolvedValue(localHeader.buffer)
-        })
-        .mockResolvedValueOnce({
-          body: {},
-          arrayBuffer: vi.fn().mockResolvedValue(new ArrayBuffer(0))
-        });
+      mockBucket.get.mockResolvedValueOnce(entryObject(new Uint8Array(5)));
 
       const entry: ZipFileEntry = {
         name: 'test.txt',
@@ -137,18 +122,8 @@ describe('ZIP Extractor Service', () => {
     });
 
     it('should throw error if file data read fails', async () => {
-      const localHeader = new Uint8Array(30);
-      localHeader[26] = 0;
-      localHeader[27] = 0;
-      localHeader[28] = 0;
-      localHeader[29] = 0;
-
-      mockBucket.get
-        .mockResolvedValueOnce({
-          body: {},
-          arrayBuffer: vi.fn().mockResolvedValue(localHeader.buffer)
-        })
-        .mockResolvedValueOnce(null);
+      // The local header fits, the data is cut short and fetching the rest fails
+      mockBucket.get.mockResolvedValueOnce(entryObject(new Uint8Array(2))).mockResolvedValueOnce(null);
 
       const entry: ZipFileEntry = {
         name: 'test.txt',
@@ -165,23 +140,9 @@ describe('ZIP Extractor Service', () => {
     });
 
     it('should throw error if decompression fails', async () => {
-      const localHeader = new Uint8Array(30);
-      localHeader[26] = 0;
-      localHeader[27] = 0;
-      localHeader[28] = 0;
-      localHeader[29] = 0;
-
       const invalidData = new Uint8Array([255, 255, 255, 255]);
 
-      mockBucket.get
-        .mockResolvedValueOnce({
-          body: {},
-          arrayBuffer: vi.fn().mockResolvedValue(localHeader.buffer)
-        })
-        .mockResolvedValueOnce({
-          body: {},
-          arrayBuffer: vi.fn().mockResolvedValue(invalidData.buffer)
-        });
+      mockBucket.get.mockResolvedValueOnce(entryObject(invalidData));
 
       const entry: ZipFileEntry = {
         name: 'test.txt',
@@ -198,29 +159,392 @@ describe('ZIP Extractor Service', () => {
     });
   });
 
+  describe('extractFile size checks', () => {
+    const inflateEntry = async (data: Uint8Array, declaredSize: number) => {
+      const compressedData = pako.deflateRaw(data);
+      mockBucket.get.mockResolvedValueOnce(entryObject(compressedData));
+
+      return extractFile(mockBucket, 'test.zip', {
+        name: 'bomb.bin',
+        size: declaredSize,
+        compressedSize: compressedData.length,
+        offset: 0,
+        crc32: 0,
+        compressionMethod: 8
+      });
+    };
+
+    it('rejects entries that inflate past their declared size', async () => {
+      await expect(inflateEntry(new Uint8Array(1024 * 1024), 100)).rejects.toMatchObject({
+        code: 'ZIP_SIZE_MISMATCH',
+        status: 422
+      });
+    });
+
+    it('rejects entries that inflate short of their declared size', async () => {
+      await expect(inflateEntry(new Uint8Array(100), 200)).rejects.toThrow(
+        'Size mismatch for bomb.bin: expected 200 bytes, got 100'
+      );
+    });
+  });
+
+  describe('single round trip reads', () => {
+    // Local header with a 100-byte extra field, longer than the read allowance
+    const longExtraArchive = (data: Uint8Array) => {
+      const bytes = new Uint8Array(30 + 100 + data.length + 100);
+      const view = new DataView(bytes.buffer);
+      view.setUint32(0, 0x04034b50, true);
+      view.setUint16(28, 100, true);
+      bytes.set(data, 130);
+      return bytes;
+    };
+
+    it('fetches the rest of the data when the extra field exceeds the allowance', async () => {
+      const data = new Uint8Array(200).map((_, i) => i);
+      const bucket = createMockR2Bucket({ 'test.zip': longExtraArchive(data) });
+      const entry: ZipFileEntry = {
+        name: 'a.bin',
+        size: 200,
+        compressedSize: 200,
+        offset: 0,
+        crc32: crc32(data),
+        compressionMethod: 0
+      };
+
+      const result = await extractFile(bucket, 'test.zip', entry);
+
+      expect(new Uint8Array(result)).toEqual(data);
+      const firstLength = 30 + 5 + 64 + 200;
+      expect(bucket.get.mock.calls.map(([, options]) => options)).toEqual([
+        { range: { offset: 0, length: firstLength } },
+        { range: { offset: firstLength, length: 130 + 200 - firstLength } }
+      ]);
+    });
+
+    it('streams the rest of the data when the extra field exceeds the allowance', async () => {
+      const data = new TextEncoder().encode('streamed across two reads '.repeat(20));
+      const bucket = createMockR2Bucket({ 'test.zip': longExtraArchive(data) });
+      const entry: ZipFileEntry = {
+        name: 'a.txt',
+        size: data.length,
+        compressedSize: data.length,
+        offset: 0,
+        crc32: crc32(data),
+        compressionMethod: 0
+      };
+
+      const stream = await extractFileStream(bucket, 'test.zip', entry);
+
+      expect(new Uint8Array(await new Response(stream).arrayBuffer())).toEqual(data);
+      expect(bucket.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('reads empty entries with the header alone', async () => {
+      mockBucket.get.mockResolvedValueOnce(entryObject(new Uint8Array(0)));
+
+      const result = await extractFile(mockBucket, 'test.zip', {
+        name: 'empty.txt',
+        size: 0,
+        compressedSize: 0,
+        offset: 0,
+        crc32: 0,
+        compressionMethod: 0
+      });
+
+      expect(result.byteLength).toBe(0);
+      expect(mockBucket.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a bad local header signature', async () => {
+      mockBucket.get.mockResolvedValueOnce({ body: streamOf(new Uint8Array(40)) });
+
+      await expect(
+        extractFile(mockBucket, 'test.zip', {
+          name: 'test.txt',
+          size: 5,
+          compressedSize: 5,
+          offset: 0,
+          crc32: 0,
+          compressionMethod: 0
+        })
+      ).rejects.toThrow('Invalid local file header for test.txt at offset 0');
+    });
+  });
+
+  describe('extractFileStream', () => {
+    const readAll = async (stream: ReadableStream<Uint8Array>) =>
+      new Uint8Array(await new Response(stream).arrayBuffer());
+
+    it('streams a stored file', async () => {
+      const fileData = new Uint8Array([1, 2, 3, 4, 5]);
+
+      mockBucket.get.mockResolvedValueOnce(entryObject(fileData));
+
+      const entry: ZipFileEntry = {
+        name: 'test.bin',
+        size: 5,
+        compressedSize: 5,
+        offset: 0,
+        crc32: crc32(fileData),
+        compressionMethod: 0
+      };
+
+      const stream = await extractFileStream(mockBucket, 'test.zip', entry);
+
+      expect(await readAll(stream)).toEqual(fileData);
+    });
+
+    it('inflates a deflated file chunk by chunk', async () => {
+      const originalData = new TextEncoder().encode('streaming storybook chunk '.repeat(2000));
+      const compressedData = pako.deflateRaw(originalData);
+
+      mockBucket.get.mockResolvedValueOnce(entryObject(compressedData, 100));
+
+      const entry: ZipFileEntry = {
+        name: 'chunk.js',
+        size: originalData.length,
+        compressedSize: compressedData.length,
+        offset: 0,
+        crc32: crc32(originalData),
+        compressionMethod: 8
+      };
+
+      const stream = await extractFileStream(mockBucket, 'test.zip', entry);
+
+      expect(await readAll(stream)).toEqual(originalData);
+    });
+
+    it('falls back to pako when DecompressionStream is unavailable', async () => {
+      vi.stubGlobal('DecompressionStream', undefined);
+
+      try {
+        const originalData = new TextEncoder().encode('fallback inflater '.repeat(500));
+        const compressedData = pako.deflateRaw(originalData);
+
+        mockBucket.get.mockResolvedValueOnce(entryObject(compressedData, 50));
+
+        const entry: ZipFileEntry = {
+          name: 'fallback.txt',
+          size: originalData.length,
+          compressedSize: compressedData.length,
+          offset: 0,
+          crc32: crc32(originalData),
+          compressionMethod: 8
+        };
+
+        const stream = await extractFileStream(mockBucket, 'test.zip', entry);
+
+        expect(await readAll(stream)).toEqual(originalData);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('errors the stream on CRC32 mismatch', async () => {
+      const fileData = new Uint8Array([1, 2, 3, 4, 5]);
+
+      mockBucket.get.mockResolvedValueOnce(entryObject(fileData));
+
+      const entry: ZipFileEntry = {
+        name: 'corrupt.bin',
+        size: 5,
+        compressedSize: 5,
+        offset: 0,
+        crc32: 12345,
+        compressionMethod: 0
+      };
+
+      const stream = await extractFileStream(mockBucket, 'test.zip', entry);
+
+      await expect(readAll(stream)).rejects.toThrow('CRC32 mismatch for corrupt.bin');
+    });
+
+    it('stops an entry that inflates past its declared size', async () => {
+      const bomb = new Uint8Array(256 * 1024);
+      const compressedData = pako.deflateRaw(bomb);
+
+      mockBucket.get.mockResolvedValueOnce(entryObject(compressedData));
+
+      const entry: ZipFileEntry = {
+        name: 'bomb.bin',
+        size: 1024,
+        compressedSize: compressedData.length,
+        offset: 0,
+        crc32: crc32(bomb),
+        compressionMethod: 8
+      };
+
+      const stream = await extractFileStream(mockBucket, 'test.zip', entry);
+
+      await expect(readAll(stream)).rejects.toBeInstanceOf(ZipLimitError);
+    });
+
+    it('rejects unsupported compression methods before reading data', async () => {
+      const entry: ZipFileEntry = {
+        name: 'test.txt',
+        size: 5,
+        compressedSize: 5,
+        offset: 0,
+        crc32: 12345,
+        compressionMethod: 99
+      };
+
+      await expect(extractFileStream(mockBucket, 'test.zip', entry)).rejects.toThrow(
+        'Unsupported compression method'
+      );
+      expect(mockBucket.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('extractFileRange', () => {
+    const readAll = async (stream: ReadableStream<Uint8Array>) =>
+      new Uint8Array(await new Response(stream).arrayBuffer());
+
+    const emptyHeader = () => {
+      const localHeader = createLocalHeader();
+      return { body: {}, arrayBuffer: vi.fn().mockResolvedValue(localHeader.buffer) };
+    };
+
+    it('maps stored entries straight onto an R2 range read', async () => {
+      const slice = new Uint8Array([3, 4, 5]);
+
+      mockBucket.get
+        .mockResolvedValueOnce(emptyHeader())
+        .mockResolvedValueOnce({ body: streamOf(slice) });
+
+      const entry: ZipFileEntry = {
+        name: 'video.mp4',
+        size: 10,
+        compressedSize: 10,
+        offset: 100,
+        crc32: 12345,
+        compressionMethod: 0
+      };
+
+      const result = await extractFileRange(mockBucket, 'test.zip', entry, { start: 2, end: 4 });
+
+      expect(await readAll(result)).toEqual(slice);
+      expect(mockBucket.get).toHaveBeenNthCalledWith(2, 'test.zip', {
+        range: { offset: 130 + 2, length: 3 }
+      });
+    });
+
+    it('inflates only the requested slice of deflated entries', async () => {
+      const originalData = new Uint8Array(200_000).map((_, i) => (i * 7) % 251);
+      const compressedData = pako.deflateRaw(originalData);
+
+      mockBucket.get.mockResolvedValueOnce(entryObject(compressedData));
+
+      const entry: ZipFileEntry = {
+        name: 'data.bin',
+        size: originalData.length,
+        compressedSize: compressedData.length,
+        offset: 0,
+        crc32: 12345,
+        compressionMethod: 8
+      };
+
+      const result = await extractFileRange(mockBucket, 'test.zip', entry, {
+        start: 1000,
+        end: 1999
+      });
+
+      expect(await readAll(result)).toEqual(originalData.subarray(1000, 2000));
+    });
+
+    it('cancels the R2 read once the end of the range is inflated', async () => {
+      // Random bytes, so the compressed data stays large
+      const originalData = new Uint8Array(256 * 1024);
+      for (let i = 0; i < originalData.length; i += 65536) {
+        crypto.getRandomValues(originalData.subarray(i, i + 65536));
+      }
+      const compressedData = pako.deflateRaw(originalData);
+      const bytes = new Uint8Array(30 + compressedData.length);
+      bytes.set(createLocalHeader());
+      bytes.set(compressedData, 30);
+      let pulled = 0;
+      const cancel = vi.fn();
+      mockBucket.get.mockResolvedValueOnce({
+        // Arrives over time, like an R2 body
+        body: new ReadableStream<Uint8Array>({
+          async pull(controller) {
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            const chunk = bytes.subarray(pulled, pulled + 1024);
+            pulled += chunk.length;
+            if (chunk.length > 0) controller.enqueue(chunk);
+            if (pulled >= bytes.length) controller.close();
+          },
+          cancel
+        })
+      });
+
+      const entry: ZipFileEntry = {
+        name: 'data.bin',
+        size: originalData.length,
+        compressedSize: compressedData.length,
+        offset: 0,
+        crc32: 12345,
+        compressionMethod: 8
+      };
+
+      const result = await extractFileRange(mockBucket, 'test.zip', entry, { start: 0, end: 99 });
+
+      expect(await readAll(result)).toEqual(originalData.subarray(0, 100));
+      // Cancellation reaches the source just after the range has gone out
+      await vi.waitFor(() => expect(cancel).toHaveBeenCalled());
+      expect(pulled).toBeLessThan(bytes.length / 4);
+    });
+
+    it('returns the tail of deflated entries', async () => {
+      const originalData = new TextEncoder().encode('hello range requests');
+      const compressedData = pako.deflateRaw(originalData);
+
+      mockBucket.get.mockResolvedValueOnce(entryObject(compressedData));
+
+      const entry: ZipFileEntry = {
+        name: 'hello.txt',
+        size: originalData.length,
+        compressedSize: compressedData.length,
+        offset: 0,
+        crc32: 12345,
+        compressionMethod: 8
+      };
+
+      const result = await extractFileRange(mockBucket, 'test.zip', entry, {
+        start: 6,
+        end: originalData.length - 1
+      });
+
+      expect(new TextDecoder().decode(await readAll(result))).toBe('range requests');
+    });
+
+    it('errors the stream if the range extends past the inflated data', async () => {
+      const compressedData = pako.deflateRaw(new Uint8Array([1, 2, 3]));
+
+      mockBucket.get.mockResolvedValueOnce(entryObject(compressedData));
+
+      const entry: ZipFileEntry = {
+        name: 'short.bin',
+        size: 100,
+        compressedSize: compressedData.length,
+        offset: 0,
+        crc32: 12345,
+        compressionMethod: 8
+      };
+
+      const result = await extractFileRange(mockBucket, 'test.zip', entry, { start: 0, end: 49 });
+
+      await expect(readAll(result)).rejects.toThrow('Failed to decompress file');
+    });
+  });
+
   describe('extractFiles', () => {
     it('should extract multiple files', async () => {
-      const header1 = new Uint8Array(30);
-      header1[26] = 0;
-      header1[27] = 0;
-      header1[28] = 0;
-      header1[29] = 0;
-
-      const header2 = new Uint8Array(30);
-      header2[26] = 0;
-      header2[27] = 0;
-      header2[28] = 0;
-      header2[29] = 0;
-
       const file1Data = new Uint8Array([1, 2, 3]);
       const file2Data = new Uint8Array([4, 5, 6]);
 
-      // Each file extraction reads: local header (30 bytes), then file bytes.
-      mockBucket.get
-        .mockResolvedValueOnce({ body: {}, arrayBuffer: vi.fn().mockResolvedValue(header1.buffer) })
-        .mockResolvedValueOnce({ body: {}, arrayBuffer: vi.fn().mockResolvedValue(file1Data.buffer) })
-        .mockResolvedValueOnce({ body: {}, arrayBuffer: vi.fn().mockResolvedValue(header2.buffer) })
-        .mockResolvedValueOnce({ body: {}, arrayBuffer: vi.fn().mockResolvedValue(file2Data.buffer) });
+      // One range read per file: local header and file bytes together
+      mockBucket.get.mockResolvedValueOnce(entryObject(file1Data)).mockResolvedValueOnce(entryObject(file2Data));
 
       const entries: ZipFileEntry[] = [
         {
@@ -244,35 +568,18 @@ describe('ZIP Extractor Service', () => {
       const results = await extractFiles(mockBucket, 'test.zip', entries);
 
       expect(results.size).toBe(2);
-      expect(results.get('file1.txt')).toEqual(file1Data.buffer);
-      expect(results.get('file2.txt')).toEqual(file2Data.buffer);
+      expect(new Uint8Array(results.get('file1.txt')!)).toEqual(file1Data);
+      expect(new Uint8Array(results.get('file2.txt')!)).toEqual(file2Data);
     });
 
     it('should continue extracting even if one file fails', async () => {
-      const header1 = new Uint8Array(30);
-      header1[26] = 0;
-      header1[27] = 0;
-      header1[28] = 0;
-      header1[29] = 0;
-
-      const header3 = new Uint8Array(30);
-      header3[26] = 0;
-      header3[27] = 0;
-      header3[28] = 0;
-      header3[29] = 0;
-
       const file1Data = new Uint8Array([1, 2, 3]);
       const file3Data = new Uint8Array([7, 8, 9]);
 
-      // file1: header + bytes
-      // file2: header read fails (null)
-      // file3: header + bytes
       mockBucket.get
-        .mockResolvedValueOnce({ body: {}, arrayBuffer: vi.fn().mockResolvedValue(header1.buffer) })
-        .mockResolvedValueOnce({ body: {}, arrayBuffer: vi.fn().mockResolvedValue(file1Data.buffer) })
-        .mockResolvedValueOnce(null) // file2 local header fails
-        .mockResolvedValueOnce({ body: {}, arrayBuffer: vi.fn().mockResolvedValue(header3.buffer) })
-        .mockResolvedValueOnce({ body: {}, arrayBuffer: vi.fn().mockResolvedValue(file3Data.buffer) });
+        .mockResolvedValueOnce(entryObject(file1Data))
+        .mockResolvedValueOnce(null) // file2 read fails
+        .mockResolvedValueOnce(entryObject(file3Data));
 
       const entries: ZipFileEntry[] = [
         {
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import pako from 'pako';
+import {
+  canPassthroughGzip,
+  createGzipPassthroughStream,
+  getGzipPassthroughLength
+} from '@/services/zip/gzip-passthrough';
+import { buildZip, crc32 } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+import type { ZipFileEntry } from '@/types/zip';
+
+describe('gzip passthrough', () => {
+  const content = new TextEncoder().encode('const chunk = "storybook";\n'.repeat(300));
+  const compressed = pako.deflateRaw(content);
+
+  const entry: ZipFileEntry = {
+    name: 'main.js',
+    size: content.length,
+    compressedSize: compressed.length,
+    offset: 0,
+    crc32: crc32(content),
+    compressionMethod: 8
+  };
+
+  it('only applies to deflated entries', () => {
+    expect(canPassthroughGzip(entry)).toBe(true);
+    expect(canPassthroughGzip({ ...entry, compressionMethod: 0 })).toBe(false);
+  });
+
+  it('adds the gzip header and trailer to the compressed size', () => {
+    expect(getGzipPassthroughLength(entry)).toBe(compressed.length + 18);
+  });
+
+  it('wraps the raw deflate bytes in a valid gzip member', async () => {
+    const bucket = createMockR2Bucket({ 'test.zip': buildZip([{ name: 'main.js', data: content }]) });
+
+    const stream = await createGzipPassthroughStream(bucket, 'test.zip', entry);
+    const body = new Uint8Array(await new Response(stream).arrayBuffer());
+
+    expect(body.length).toBe(getGzipPassthroughLength(entry));
+    expect(body[0]).toBe(0x1f);
+    expect(body[1]).toBe(0x8b);
+    expect(pako.ungzip(body)).toEqual(content);
+    // Local header and compressed bytes in one range read
+    expect(bucket.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses stored entries', async () => {
+    const bucket = createMockR2Bucket({});
+
+    await expect(
+      createGzipPassthroughStream(bucket, 'test.zip', { ...entry, compressionMethod: 0 })
+    ).rejects.toThrow('Cannot serve main.js as gzip');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkEntryCount,
+  checkEntryLimits,
+  DEFAULT_ZIP_LIMITS,
+  resolveZipLimits
+} from '@/services/zip/limits';
+import { ZipLimitError } from '@/services/zip/errors';
+import type { ZipFileEntry } from '@/types/zip';
+
+const MB = 1024 * 1024;
+
+const entry = (overrides: Partial<ZipFileEntry>): ZipFileEntry => ({
+  name: 'file.bin',
+  size: 100,
+  compressedSize: 50,
+  offset: 0,
+  crc32: 0,
+  compressionMethod: 8,
+  ...overrides
+});
+
+describe('ZIP limits', () => {
+  describe('resolveZipLimits', () => {
+    it('uses defaults when nothing is configured', () => {
+      expect(resolveZipLimits({})).toEqual(DEFAULT_ZIP_LIMITS);
+    });
+
+    it('prefers ZIP_MAX_FILE_SIZE over MAX_FILE_SIZE', () => {
+      expect(resolveZipLimits({ ZIP_MAX_FILE_SIZE: '2048', MAX_FILE_SIZE: '4096' }).maxFileSize).toBe(2048);
+      expect(resolveZipLimits({ MAX_FILE_SIZE: '4096' }).maxFileSize).toBe(4096);
+    });
+
+    it('reads ratio and entry limits', () => {
+      const limits = resolveZipLimits({ ZIP_MAX_COMPRESSION_RATIO: '50', ZIP_MAX_ENTRIES: '10' });
+
+      expect(limits.maxCompressionRatio).toBe(50);
+      expect(limits.maxEntries).toBe(10);
+    });
+
+    it('ignores invalid values', () => {
+      expect(resolveZipLimits({ ZIP_MAX_FILE_SIZE: 'lots', ZIP_MAX_ENTRIES: '-1' })).toEqual(DEFAULT_ZIP_LIMITS);
+    });
+  });
+
+  describe('checkEntryLimits', () => {
+    const limits = { maxFileSize: 10 * MB, maxCompressionRatio: 100, maxEntries: 10 };
+
+    it('accepts entries within the limits', () => {
+      expect(() => checkEntryLimits(entry({ size: 5 * MB, compressedSize: MB }), limits)).not.toThrow();
+    });
+
+    it('rejects entries over the size cap with 413', () => {
+      try {
+        checkEntryLimits(entry({ size: 11 * MB, compressedSize: 11 * MB, compressionMethod: 0 }), limits);
+        expect.fail('expected a ZipLimitError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ZipLimitError);
+        expect(error).toMatchObject({ code: 'ZIP_ENTRY_TOO_LARGE', status: 413 });
+      }
+    });
+
+    it('rejects suspicious compression ratios with 422', () => {
+      try {
+        checkEntryLimits(entry({ size: 5 * MB, compressedSize: 5 * 1024 }), limits);
+        expect.fail('expected a ZipLimitError');
+      } catch (error) {
+        expect(error).toMatchObject({ code: 'ZIP_COMPRESSION_RATIO_EXCEEDED', status: 422 });
+      }
+    });
+
+    it('does not apply the ratio check to small entries', () => {
+      expect(() => checkEntryLimits(entry({ size: 64 * 1024, compressedSize: 10 }), limits)).not.toThrow();
+    });
+  });
+
+  describe('checkEntryCount', () => {
+    it('rejects archives with too many entries', () => {
+      expect(() => checkEntryCount(11, { ...DEFAULT_ZIP_LIMITS, maxEntries: 10 })).toThrow(ZipLimitError);
+      expect(() => checkEntryCount(10, { ...DEFAULT_ZIP_LIMITS, maxEntries: 10 })).not.toThrow();
+    });
+  });
+});
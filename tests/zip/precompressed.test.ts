@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { getPrecompressedSiblingPaths, hasPrecompressedVariants, selectPrecompressedVariant } from '@/services/zip/precompressed';
+import type { ZipFileEntry } from '@/types/zip';
+
+const entry = (name: string): ZipFileEntry => ({
+  name,
+  size: 10,
+  compressedSize: 10,
+  offset: 0,
+  crc32: name.length,
+  compressionMethod: 0
+});
+
+describe('Precompressed sibling lookup', () => {
+  const entries: Record<string, ZipFileEntry> = {
+    'main.js': entry('main.js'),
+    'main.js.br': entry('main.js.br'),
+    'main.js.gz': entry('main.js.gz'),
+    'vendor.js': entry('vendor.js'),
+    'vendor.js.gz': entry('vendor.js.gz'),
+    'app.css': entry('app.css')
+  };
+
+  describe('hasPrecompressedVariants', () => {
+    it('detects siblings', () => {
+      expect(hasPrecompressedVariants(entries, 'main.js')).toBe(true);
+      expect(hasPrecompressedVariants(entries, 'vendor.js')).toBe(true);
+      expect(hasPrecompressedVariants(entries, 'app.css')).toBe(false);
+    });
+  });
+
+  describe('selectPrecompressedVariant', () => {
+    it('prefers brotli when both are accepted equally', () => {
+      const variant = selectPrecompressedVariant(entries, 'main.js', 'gzip, deflate, br');
+
+      expect(variant?.encoding).toBe('br');
+      expect(variant?.entry.name).toBe('main.js.br');
+    });
+
+    it('respects q-values', () => {
+      const variant = selectPrecompressedVariant(entries, 'main.js', 'br;q=0.5, gzip');
+
+      expect(variant?.encoding).toBe('gzip');
+      expect(variant?.entry.name).toBe('main.js.gz');
+    });
+
+    it('falls back to gzip when brotli is not accepted', () => {
+      expect(selectPrecompressedVariant(entries, 'main.js', 'gzip')?.encoding).toBe('gzip');
+    });
+
+    it('only offers siblings that exist', () => {
+      expect(selectPrecompressedVariant(entries, 'vendor.js', 'br')).toBeNull();
+      expect(selectPrecompressedVariant(entries, 'vendor.js', 'br, gzip')?.encoding).toBe('gzip');
+    });
+
+    it('returns null when nothing is accepted', () => {
+      expect(selectPrecompressedVariant(entries, 'main.js', undefined)).toBeNull();
+      expect(selectPrecompressedVariant(entries, 'main.js', 'identity')).toBeNull();
+    });
+  });
+
+  describe('getPrecompressedSiblingPaths', () => {
+    it('lists the brotli and gzip sibling paths', () => {
+      expect(getPrecompressedSiblingPaths('main.js')).toEqual(['main.js.br', 'main.js.gz']);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from 'vitest';
+import { withPrefetchedRange } from '@/services/zip/prefetched-range';
+
+describe('withPrefetchedRange', () => {
+  const bytes = new Uint8Array(Array.from({ length: 100 }, (_, i) => i));
+  const createBucket = () => ({
+    get: vi.fn(async (_key: string, _options?: unknown) => ({ body: null, arrayBuffer: async () => new ArrayBuffer(0) })),
+    head: vi.fn()
+  });
+
+  it('answers reads inside the prefetched range from memory', async () => {
+    const bucket = createBucket();
+    const wrapped = withPrefetchedRange(bucket, 'a.zip', { offset: 1000, bytes, etag: 'etag-1' });
+
+    const object = (await wrapped.get('a.zip', { range: { offset: 1010, length: 5 } })) as any;
+
+    expect(bucket.get).not.toHaveBeenCalled();
+    expect(object.etag).toBe('etag-1');
+    expect([...new Uint8Array(await object.arrayBuffer())]).toEqual([10, 11, 12, 13, 14]);
+    expect([...new Uint8Array(await new Response(object.body).arrayBuffer())]).toEqual([10, 11, 12, 13, 14]);
+  });
+
+  it('passes other reads to the bucket', async () => {
+    const bucket = createBucket();
+    const wrapped = withPrefetchedRange(bucket, 'a.zip', { offset: 1000, bytes });
+
+    await wrapped.get('a.zip', { range: { offset: 1090, length: 20 } });
+    await wrapped.get('a.zip', { range: { offset: 900, length: 10 } });
+    await wrapped.get('a.zip');
+    await wrapped.get('b.zip', { range: { offset: 1010, length: 5 } });
+
+    expect(bucket.get).toHaveBeenCalledTimes(4);
+    expect(wrapped.head).toBe(bucket.head);
+  });
+});
@@ -91,4 +91,72 @@ describe('R2RangeReader', () => {
       expect(mockBucket.get).toHaveBeenCalledTimes(2);
     });
   });
-});
\ No newline at end of file
+
+  describe('coalescing and caching', () => {
+    const archive = new Uint8Array(100_000).map((_, i) => i % 251);
+
+    beforeEach(() => {
+      mockBucket.head.mockResolvedValue({ size: archive.length, etag: 'etag-1' });
+      mockBucket.get.mockImplementation(async (_key: string, { range }: { range: { offset: number; length: number } }) => ({
+        body: {},
+        arrayBuffer: async () => archive.slice(range.offset, range.offset + range.length).buffer
+      }));
+    });
+
+    it('merges reads issued together into one request', async () => {
+      const [a, b] = await Promise.all([reader.read(100, 50), reader.read(200, 50)]);
+
+      expect(a).toEqual(archive.subarray(100, 150));
+      expect(b).toEqual(archive.subarray(200, 250));
+      expect(mockBucket.get).toHaveBeenCalledTimes(1);
+      expect(mockBucket.get).toHaveBeenCalledWith('test.zip', { range: { offset: 100, length: 150 } });
+    });
+
+    it('keeps distant reads in separate requests', async () => {
+      reader = new R2RangeReader(mockBucket, 'test.zip', { mergeGap: 10 });
+
+      await Promise.all([reader.read(0, 10), reader.read(50_000, 10)]);
+
+      expect(mockBucket.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('reads ahead once the length is known and serves the next read from cache', async () => {
+      reader = new R2RangeReader(mockBucket, 'test.zip', { readAhead: 1000 });
+      await reader.getLength();
+
+      await reader.read(0, 100);
+      const next = await reader.read(100, 500);
+
+      expect(next).toEqual(archive.subarray(100, 600));
+      expect(mockBucket.get).toHaveBeenCalledTimes(1);
+      expect(mockBucket.get).toHaveBeenCalledWith('test.zip', { range: { offset: 0, length: 1100 } });
+    });
+
+    it('clamps read-ahead to the end of the archive', async () => {
+      await reader.getLength();
+
+      await reader.read(archive.length - 10, 10);
+
+      expect(mockBucket.get).toHaveBeenCalledWith('test.zip', { range: { offset: archive.length - 10, length: 10 } });
+    });
+
+    it('evicts cached ranges beyond its budget', async () => {
+      reader = new R2RangeReader(mockBucket, 'test.zip', { readAhead: 0, cacheBytes: 100 });
+
+      await reader.read(0, 60);
+      await reader.read(60, 60);
+      await reader.read(0, 10);
+
+      expect(mockBucket.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('rejects every merged read when the request fails', async () => {
+      mockBucket.get.mockResolvedValue(null);
+
+      const results = await Promise.allSettled([reader.read(0, 10), reader.read(20, 10)]);
+
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+      expect(mockBucket.get).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -2,9 +2,11 @@ import { describe, it, expect } from 'vitest';
 import {
   normalizePath,
   getPossiblePaths,
+  hasFileExtension,
   getCacheControl,
   sanitizePath,
-  isPathSafe
+  isPathSafe,
+  dosDateTimeToTimestamp
 } from '@/utils/zip-utils';
 
 describe('ZIP Utilities', () => {
@@ -50,6 +52,23 @@ describe('ZIP Utilities', () => {
       expect(paths).toContain('docs/guide/index.html');
       expect(paths).toContain('docs/guide.html');
     });
+
+    it('should try candidates in resolution order', () => {
+      expect(getPossiblePaths('docs/guide')).toEqual(['docs/guide', 'docs/guide/index.html', 'docs/guide.html']);
+    });
+
+    it('should only look at the extension of the last segment', () => {
+      expect(getPossiblePaths('v1.2/guide')).toEqual(['v1.2/guide', 'v1.2/guide/index.html', 'v1.2/guide.html']);
+      expect(getPossiblePaths('docs/app.js')).toEqual(['docs/app.js']);
+    });
+  });
+
+  describe('hasFileExtension', () => {
+    it('should check the last path segment only', () => {
+      expect(hasFileExtension('assets/app.js')).toBe(true);
+      expect(hasFileExtension('assets.v2/app')).toBe(false);
+      expect(hasFileExtension('about')).toBe(false);
+    });
   });
 
   describe('getCacheControl', () => {
@@ -132,4 +151,18 @@ describe('ZIP Utilities', () => {
       expect(isPathSafe('..')).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('dosDateTimeToTimestamp', () => {
+    it('should decode DOS date and time as UTC', () => {
+      // 2024-03-15 13:45:30
+      const date = ((2024 - 1980) << 9) | (3 << 5) | 15;
+      const time = (13 << 11) | (45 << 5) | 15;
+
+      expect(dosDateTimeToTimestamp(date, time)).toBe(Date.UTC(2024, 2, 15, 13, 45, 30));
+    });
+
+    it('should return undefined for a zero date', () => {
+      expect(dosDateTimeToTimestamp(0, 0)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseExtraFields,
+  readUint64LE,
+  resolveZip64Values,
+  ZIP32_SENTINEL
+} from '@/services/zip/zip64';
+import { ZipFormatError } from '@/services/zip/errors';
+import { getCentralDirectory } from '@/services/zip/central-directory';
+import { extractFile } from '@/services/zip/extractor';
+import { buildZip } from '../helpers/zip-builder';
+import { createMockR2Bucket } from '../helpers/mock-r2';
+
+function uint64(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, value % 0x100000000, true);
+  view.setUint32(4, Math.floor(value / 0x100000000), true);
+  return bytes;
+}
+
+function zip64Field(values: number[]) {
+  const data = new Uint8Array(values.length * 8);
+  values.forEach((value, i) => data.set(uint64(value), i * 8));
+  return { id: 0x0001, data };
+}
+
+describe('ZIP64 support', () => {
+  describe('readUint64LE', () => {
+    it('reads values above 4 GB', () => {
+      expect(readUint64LE(uint64(5 * 2 ** 30), 0)).toBe(5 * 2 ** 30);
+    });
+
+    it('rejects values that are not safe integers', () => {
+      expect(() => readUint64LE(new Uint8Array(8).fill(0xff), 0)).toThrow(ZipFormatError);
+    });
+  });
+
+  describe('parseExtraFields', () => {
+    it('splits an extra field block into records', () => {
+      const block = new Uint8Array([0x01, 0x00, 0x02, 0x00, 0xaa, 0xbb, 0x75, 0x70, 0x00, 0x00]);
+
+      const fields = parseExtraFields(block);
+
+      expect(fields).toHaveLength(2);
+      expect(fields[0]).toEqual({ id: 0x0001, data: new Uint8Array([0xaa, 0xbb]) });
+      expect(fields[1].id).toBe(0x7075);
+    });
+
+    it('rejects a record that overruns the block', () => {
+      expect(() => parseExtraFields(new Uint8Array([0x01, 0x00, 0x10, 0x00, 0xaa]))).toThrow(ZipFormatError);
+    });
+  });
+
+  describe('resolveZip64Values', () => {
+    it('leaves 32-bit values untouched', () => {
+      const values = { size: 10, compressedSize: 8, offset: 100 };
+      expect(resolveZip64Values(values, undefined, 'a.txt')).toEqual(values);
+    });
+
+    it('reads only the saturated fields, in spec order', () => {
+      const resolved = resolveZip64Values(
+        { size: 10, compressedSize: ZIP32_SENTINEL, offset: ZIP32_SENTINEL },
+        [zip64Field([2 ** 32 + 5, 6 * 2 ** 30])],
+        'big.bin'
+      );
+
+      expect(resolved).toEqual({ size: 10, compressedSize: 2 ** 32 + 5, offset: 6 * 2 ** 30 });
+    });
+
+    it('throws when the ZIP64 extra field is missing', () => {
+      expect(() =>
+        resolveZip64Values({ size: 10, compressedSize: 10, offset: ZIP32_SENTINEL }, [], 'big.bin')
+      ).toThrow('Missing ZIP64 extra field for big.bin');
+    });
+
+    it('throws when the ZIP64 extra field is too short', () => {
+      expect(() =>
+        resolveZip64Values(
+          { size: ZIP32_SENTINEL, compressedSize: ZIP32_SENTINEL, offset: 0 },
+          [zip64Field([1])],
+          'big.bin'
+        )
+      ).toThrow(ZipFormatError);
+    });
+  });
+
+  describe('archives', () => {
+    const files = [
+      { name: 'index.html', data: '<html>hello</html>', method: 8 as const },
+      { name: 'logo.png', data: new Uint8Array(64).map((_, i) => i), method: 0 as const }
+    ];
+
+    it('reads offsets and sizes from ZIP64 extra fields', async () => {
+      const bucket = createMockR2Bucket({ 'a.zip': buildZip(files, { zip64: true }) });
+
+      const cd = await getCentralDirectory(bucket as any, undefined, 'a.zip');
+
+      expect(cd.entries['logo.png'].offset).toBeGreaterThan(0);
+      expect(cd.entries['logo.png'].size).toBe(64);
+      const data = await extractFile(bucket, 'a.zip', cd.entries['index.html']);
+      expect(new TextDecoder().decode(data)).toBe('<html>hello</html>');
+      const image = await extractFile(bucket, 'a.zip', cd.entries['logo.png']);
+      expect(new Uint8Array(image)).toEqual(files[1].data);
+    });
+
+    it('serves entries written with data descriptors', async () => {
+      const zip = buildZip(files.map((file) => ({ ...file, dataDescriptor: true })));
+      const bucket = createMockR2Bucket({ 'a.zip': zip });
+
+      const cd = await getCentralDirectory(bucket as any, undefined, 'a.zip');
+
+      const data = await extractFile(bucket, 'a.zip', cd.entries['index.html']);
+      expect(new TextDecoder().decode(data)).toBe('<html>hello</html>');
+      const image = await extractFile(bucket, 'a.zip', cd.entries['logo.png']);
+      expect(new Uint8Array(image)).toEqual(files[1].data);
+    });
+
+    it('serves ZIP64 entries written with data descriptors', async () => {
+      const zip = buildZip(
+        files.map((file) => ({ ...file, dataDescriptor: true })),
+        { zip64: true }
+      );
+      const bucket = createMockR2Bucket({ 'a.zip': zip });
+
+      const cd = await getCentralDirectory(bucket as any, undefined, 'a.zip');
+
+      const image = await extractFile(bucket, 'a.zip', cd.entries['logo.png']);
+      expect(new Uint8Array(image)).toEqual(files[1].data);
+    });
+
+    it('rejects a local header offset that does not point at a local header', async () => {
+      const bucket = createMockR2Bucket({ 'a.zip': buildZip(files) });
+      const cd = await getCentralDirectory(bucket as any, undefined, 'a.zip');
+
+      await expect(
+        extractFile(bucket, 'a.zip', { ...cd.entries['logo.png'], offset: 4 })
+      ).rejects.toBeInstanceOf(ZipFormatError);
+    });
+
+    it('reports a truncated archive as a format error', async () => {
+      const zip = buildZip(files);
+      const bucket = createMockR2Bucket({ 'a.zip': zip.subarray(0, zip.length - 10) });
+
+      await expect(getCentralDirectory(bucket as any, undefined, 'a.zip')).rejects.toBeInstanceOf(
+        ZipFormatError
+      );
+    });
+  });
+});
@@ -14,5 +14,5 @@ export default defineConfig({
   target: 'es2022',
   outDir: 'dist',
   external: ['hono', '@hono/node-server', 'fs', 'path'],
-  noExternal: ['unzipit', 'pako'],
+  noExternal: ['pako'],
 });
\ No newline at end of file